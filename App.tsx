@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { 
   Plus, 
   Minus, 
@@ -14,48 +14,389 @@ import {
   Tags,
   Edit,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  FolderCog,
+  Repeat,
+  FileUp,
+  Database,
+  Coins,
+  ArrowLeftRight,
+  WalletCards,
+  BarChart3,
+  Undo2,
+  Redo2,
+  Paperclip,
+  Bot,
+  MessageCircle,
+  RefreshCw,
+  Languages,
+  Wand2,
+  PiggyBank,
+  Bell,
+  Users,
+  X
 } from 'lucide-react';
-import { Transaction, TransactionType, DailyStats, ChartDataPoint, CategoryData } from './types';
+import {
+  Transaction,
+  TransactionType,
+  DailyStats,
+  ChartDataPoint,
+  CategoryData,
+  Category,
+  BudgetConfig,
+  BudgetHistory,
+  BudgetScope,
+  BudgetStatus,
+  RecurringRule,
+  CategoryRule,
+  SavingsGoal,
+  Person,
+  AppData,
+  Account,
+  AppSettings,
+  AISettings,
+  BackupFile,
+  SavedFilter,
+  TransactionFilter,
+  ExchangeRate,
+  TrashedTransaction,
+  FinancialInsight,
+  InsightPeriod,
+  QuickEntryDraft,
+  Attachment,
+  Locale,
+  NotificationSettings
+} from './types';
 import TransactionChart from './components/TransactionChart';
-import { getFinancialAdvice } from './services/geminiService';
+import CategoryManager from './components/CategoryManager';
+import BudgetModal from './components/BudgetModal';
+import TransactionEditModal from './components/TransactionEditModal';
+import RecurringManager from './components/RecurringManager';
+import CategoryRuleManager from './components/CategoryRuleManager';
+import GoalManager from './components/GoalManager';
+import SavingsGoalsCard from './components/SavingsGoalsCard';
+import SplitBalances from './components/SplitBalances';
+import NotificationSettingsModal from './components/NotificationSettingsModal';
+import ImportWizard from './components/ImportWizard';
+import DataManager from './components/DataManager';
+import CurrencyManager from './components/CurrencyManager';
+import AISettingsModal from './components/AISettingsModal';
+import LanguageModal from './components/LanguageModal';
+import AssistantPanel from './components/AssistantPanel';
+import TransactionFilterPanel from './components/TransactionFilterPanel';
+import AccountManager, { ACCOUNT_TYPE_ICONS } from './components/AccountManager';
+import ReportView from './components/ReportView';
+import TrashBin from './components/TrashBin';
+import InsightSections from './components/InsightSections';
+import QuickEntry from './components/QuickEntry';
+import { getFinancialAdvice } from './services/advisorService';
+import {
+  convertBudgetHistory,
+  getBudgetStatus,
+  getEffectiveMonthlyLimit,
+  hasBudgetOverride,
+  moveCategoryLimit,
+  resolveBudgetForMonth,
+  setBudgetForMonth
+} from './services/budgetService';
+import { formatCurrency, formatDate, formatDay, formatMonth } from './utils/format';
+import { setLocale, t } from './utils/i18n';
+import { applyRestore, getAttachmentIds, RestoreMode } from './services/backupService';
+import {
+  applyEditToSeries,
+  getUpcomingRecurringExpenses,
+  materializeRecurringRules
+} from './services/recurringService';
+import { getDefaultEntryDate, getLastDayOfMonth, toDateKey, toMonthKey } from './utils/date';
+import { registerServiceWorker } from './utils/serviceWorker';
+import { mergeCategories } from './services/categoryService';
+import { RuleChange, categorize, mergeTags, moveRulesToCategory } from './services/categoryRuleService';
+import {
+  convertSavingsGoals,
+  getContributedInMonth,
+  getMonthLeftover,
+  getMonthlyReserve,
+  settleSavingsGoals
+} from './services/goalService';
+import { createSettlement, getMyShare, getPersonBalances, toPersonalTransactions } from './services/splitService';
+import {
+  checkNotifications,
+  getBudgetSnapshot,
+  getNextReminderTime,
+  getReminderNotification
+} from './services/notificationService';
+import { cancelScheduledNotification, scheduleNotification, showNotification } from './utils/notifications';
+import { openRepository, Repository } from './services/storageService';
+import { createDefaultAppData } from './services/migrations';
+import { convertAmount, convertToBaseCurrency, getCurrencyName } from './services/currencyService';
+import CurrencySelect from './components/CurrencySelect';
+import { getAccountBalances, getRunningBalances, involvesAccount, isTransfer } from './services/accountService';
+import {
+  EMPTY_FILTER,
+  applyTransactionFilter,
+  collectTags,
+  extractTags,
+  getFilterTotals,
+  isFilterActive
+} from './services/searchService';
+import { EMPTY_HISTORY, History, HistoryEntry, applyChange, getRemoved, recordChange } from './services/historyService';
+import { moveToTrash, purgeExpiredTrash, removeFromTrash, toTransaction } from './services/trashService';
 
 // Constants
-const STORAGE_KEY_TRANSACTIONS = 'freshfin_transactions';
-const STORAGE_KEY_BUDGET = 'freshfin_budget';
+
+const BUDGET_STATUS_COLOR: Record<BudgetStatus, string | undefined> = {
+  ok: undefined, // Keep the category's own color
+  warning: '#f59e0b',
+  over: '#f43f5e'
+};
+
+const BUDGET_STATUS_TEXT: Record<BudgetStatus, string> = {
+  ok: 'text-slate-700',
+  warning: 'text-amber-600',
+  over: 'text-rose-500'
+};
+
+const TOAST_DURATION_MS = 5000;
+
+const TRANSACTION_TYPE_STYLE: Record<TransactionType, { badge: string; amount: string }> = {
+  [TransactionType.EXPENSE]: { badge: 'bg-rose-50 text-rose-500', amount: 'text-rose-500' },
+  [TransactionType.INCOME]: { badge: 'bg-teal-50 text-teal-600', amount: 'text-teal-600' },
+  [TransactionType.TRANSFER]: { badge: 'bg-blue-50 text-blue-500', amount: 'text-slate-500' },
+};
+
+const INITIAL_DATA = createDefaultAppData();
+// The loading screen already speaks the detected language
+setLocale(INITIAL_DATA.settings.locale);
 
 function App() {
   // --- State ---
-  const [transactions, setTransactions] = useState<Transaction[]>(() => {
-    const saved = localStorage.getItem(STORAGE_KEY_TRANSACTIONS);
-    return saved ? JSON.parse(saved) : [];
-  });
+  // Real data arrives asynchronously from the repository; nothing is saved until then
+  const repositoryRef = useRef<Repository | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
 
-  const [monthlyBudget, setMonthlyBudget] = useState<number>(() => {
-    const saved = localStorage.getItem(STORAGE_KEY_BUDGET);
-    return saved ? parseFloat(saved) : 5000;
-  });
+  const [categories, setCategories] = useState<Category[]>(INITIAL_DATA.categories);
+  const [transactions, setTransactions] = useState<Transaction[]>(INITIAL_DATA.transactions);
+  // Budgets are versioned by month so changing them never rewrites past months
+  const [budgetHistory, setBudgetHistory] = useState<BudgetHistory>(INITIAL_DATA.budgetHistory);
+  const [recurringRules, setRecurringRules] = useState<RecurringRule[]>(INITIAL_DATA.recurringRules);
+  const [categoryRules, setCategoryRules] = useState<CategoryRule[]>(INITIAL_DATA.categoryRules);
+  const [savingsGoals, setSavingsGoals] = useState<SavingsGoal[]>(INITIAL_DATA.savingsGoals);
+  const [people, setPeople] = useState<Person[]>(INITIAL_DATA.people);
+  const [settings, setSettings] = useState<AppSettings>(INITIAL_DATA.settings);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>(INITIAL_DATA.exchangeRates);
+  const [accounts, setAccounts] = useState<Account[]>(INITIAL_DATA.accounts);
+  // Empty shows every account
+  const [accountFilter, setAccountFilter] = useState('');
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>(INITIAL_DATA.savedFilters);
+  // While any filter is set the list searches every month instead of the viewed one
+  const [listFilter, setListFilter] = useState<TransactionFilter>(EMPTY_FILTER);
+  // Deleted transactions wait here for 30 days; the undo history lives only for the session
+  const [trash, setTrash] = useState<TrashedTransaction[]>(INITIAL_DATA.trash);
+  const [history, setHistory] = useState<History>(EMPTY_HISTORY);
+  const [toast, setToast] = useState<{ message: string; action: 'undo' | 'redo' } | null>(null);
+  // Set when a new version is installed and waiting; calling it switches over
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
 
   // View Date State - Defaults to today, allows navigation
   const [viewDate, setViewDate] = useState(new Date());
+  // The real current day; moves on at midnight while the app stays open
+  const [today, setToday] = useState(() => toDateKey(new Date()));
 
   const [newTransTitle, setNewTransTitle] = useState('');
   const [newTransAmount, setNewTransAmount] = useState('');
+  // Empty means the account's currency, so switching accounts also switches the default
+  const [newTransCurrency, setNewTransCurrency] = useState('');
+  // Empty means the filtered account, or else the first active one
+  const [newTransAccountId, setNewTransAccountId] = useState('');
+  const [newTransToAccountId, setNewTransToAccountId] = useState('');
+  const [newTransToAmount, setNewTransToAmount] = useState('');
   const [newTransType, setNewTransType] = useState<TransactionType>(TransactionType.EXPENSE);
+  // Empty means "auto": rules, similar past records or keywords pick the category on submit
+  const [newTransCategoryId, setNewTransCategoryId] = useState('');
+  const [newTransDate, setNewTransDate] = useState(() => getDefaultEntryDate(viewDate));
+  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
   const [isBudgetModalOpen, setIsBudgetModalOpen] = useState(false);
-  const [tempBudgetInput, setTempBudgetInput] = useState(monthlyBudget.toString());
+  const [isCategoryManagerOpen, setIsCategoryManagerOpen] = useState(false);
+  const [isRecurringManagerOpen, setIsRecurringManagerOpen] = useState(false);
+  const [isCategoryRuleManagerOpen, setIsCategoryRuleManagerOpen] = useState(false);
+  const [isGoalManagerOpen, setIsGoalManagerOpen] = useState(false);
+  const [isSplitBalancesOpen, setIsSplitBalancesOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isDataManagerOpen, setIsDataManagerOpen] = useState(false);
+  const [isCurrencyManagerOpen, setIsCurrencyManagerOpen] = useState(false);
+  const [isAISettingsOpen, setIsAISettingsOpen] = useState(false);
+  const [isLanguageOpen, setIsLanguageOpen] = useState(false);
+  const [isNotificationSettingsOpen, setIsNotificationSettingsOpen] = useState(false);
+  const [isAssistantOpen, setIsAssistantOpen] = useState(false);
+  const [isAccountManagerOpen, setIsAccountManagerOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
   
-  const [aiAdvice, setAiAdvice] = useState<string | null>(null);
+  const [aiInsight, setAiInsight] = useState<FinancialInsight | null>(null);
+  const [aiError, setAiError] = useState<string | null>(null);
   const [isAiLoading, setIsAiLoading] = useState(false);
 
+  const { locale } = settings;
+
   // --- Effects ---
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY_TRANSACTIONS, JSON.stringify(transactions));
-  }, [transactions]);
+    let cancelled = false;
+    openRepository()
+      .then(async repository => {
+        const data = await repository.load();
+        if (cancelled) return;
+        repositoryRef.current = repository;
+        setTransactions(data.transactions);
+        setCategories(data.categories);
+        setBudgetHistory(data.budgetHistory);
+        setRecurringRules(data.recurringRules);
+        setCategoryRules(data.categoryRules);
+        setSavingsGoals(data.savingsGoals);
+        setPeople(data.people);
+        // The module-level language changes together with the state that renders it
+        setLocale(data.settings.locale);
+        setSettings(data.settings);
+        setExchangeRates(data.exchangeRates);
+        setAccounts(data.accounts);
+        setSavedFilters(data.savedFilters);
+        const kept = purgeExpiredTrash(data.trash, Date.now());
+        setTrash(kept);
+        deleteAttachmentsOf(data.trash.filter(t => !kept.includes(t)));
+        setIsLoaded(true);
+      })
+      .catch(error => {
+        console.error('Storage load error:', error);
+        if (!cancelled) setStorageError(t('app.loadFailed'));
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  const persist = useCallback(<K extends keyof AppData>(key: K, value: AppData[K]) => {
+    repositoryRef.current?.save(key, value).catch(error => {
+      console.error(`Storage save error (${key}):`, error);
+      setStorageError(t('app.saveFailed'));
+    });
+  }, []);
+
+  const loadAttachment = useCallback((id: string) => {
+    return repositoryRef.current ? repositoryRef.current.loadAttachment(id) : Promise.resolve(undefined);
+  }, []);
+
+  // Images of records that are gone for good; failures only leave unused entries behind
+  const deleteAttachmentsOf = (removed: Transaction[]) => {
+    const ids = removed.flatMap(t => t.attachmentIds || []);
+    if (ids.length === 0) return;
+    repositoryRef.current?.deleteAttachments(ids).catch(error => {
+      console.error('Attachment delete error:', error);
+    });
+  };
+
+  useEffect(() => {
+    if (isLoaded) persist('transactions', transactions);
+  }, [isLoaded, transactions, persist]);
+
+  useEffect(() => {
+    if (isLoaded) persist('budgetHistory', budgetHistory);
+  }, [isLoaded, budgetHistory, persist]);
+
+  useEffect(() => {
+    if (isLoaded) persist('categories', categories);
+  }, [isLoaded, categories, persist]);
+
+  useEffect(() => {
+    if (isLoaded) persist('recurringRules', recurringRules);
+  }, [isLoaded, recurringRules, persist]);
+
+  useEffect(() => {
+    if (isLoaded) persist('categoryRules', categoryRules);
+  }, [isLoaded, categoryRules, persist]);
+
+  useEffect(() => {
+    if (isLoaded) persist('savingsGoals', savingsGoals);
+  }, [isLoaded, savingsGoals, persist]);
+
+  useEffect(() => {
+    if (isLoaded) persist('people', people);
+  }, [isLoaded, people, persist]);
+
+  useEffect(() => {
+    if (isLoaded) persist('accounts', accounts);
+  }, [isLoaded, accounts, persist]);
+
+  useEffect(() => {
+    if (isLoaded) persist('savedFilters', savedFilters);
+  }, [isLoaded, savedFilters, persist]);
+
+  useEffect(() => {
+    if (isLoaded) persist('settings', settings);
+  }, [isLoaded, settings, persist]);
+
+  useEffect(() => {
+    if (isLoaded) persist('exchangeRates', exchangeRates);
+  }, [isLoaded, exchangeRates, persist]);
+
+  useEffect(() => {
+    if (isLoaded) persist('trash', trash);
+  }, [isLoaded, trash, persist]);
 
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY_BUDGET, monthlyBudget.toString());
-  }, [monthlyBudget]);
+    const now = new Date();
+    // A second past midnight, so the new key is certain to differ
+    const next = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1, 0, 0, 1);
+    const timer = setTimeout(() => setToday(toDateKey(new Date())), next.getTime() - now.getTime());
+    return () => clearTimeout(timer);
+  }, [today]);
+
+  // Generate due recurring occurrences on load, whenever the rules change and each new day
+  useEffect(() => {
+    if (!isLoaded) return;
+    const result = materializeRecurringRules(recurringRules, today);
+    if (!result) return;
+    setRecurringRules(result.rules);
+    setTransactions(prev => {
+      // Effects can run twice for the same rules (StrictMode), so never add an occurrence twice
+      const existing = new Set(prev.map(t => `${t.recurringRuleId}:${t.date}`));
+      const fresh = result.transactions.filter(t => !existing.has(`${t.recurringRuleId}:${t.date}`));
+      return fresh.length > 0 ? [...fresh, ...prev] : prev;
+    });
+  }, [isLoaded, recurringRules, today]);
+
+  // New entries default into the month being viewed
+  useEffect(() => {
+    setNewTransDate(getDefaultEntryDate(viewDate));
+  }, [viewDate]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  // A function in state has to be wrapped, or React would call it as an updater
+  useEffect(() => registerServiceWorker(apply => setApplyUpdate(() => apply)), []);
+
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(() => setToast(null), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [toast]);
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y), except while typing in a field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (!(e.ctrlKey || e.metaKey) || target.closest('input, textarea, select')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history]);
 
   // --- Helpers ---
   const isCurrentMonth = useMemo(() => {
@@ -68,22 +409,141 @@ function App() {
     const newDate = new Date(viewDate);
     newDate.setMonth(newDate.getMonth() + offset);
     setViewDate(newDate);
-    setAiAdvice(null); // Reset AI advice when changing context
+    setAiInsight(null); // Reset AI advice when changing context
+    setAiError(null);
   };
 
   // --- Calculations ---
-  const currentMonthStr = `${viewDate.getFullYear()}-${String(viewDate.getMonth() + 1).padStart(2, '0')}`;
+  const currentMonthStr = toMonthKey(viewDate);
+
+  const budgetConfig = useMemo(() => {
+    return resolveBudgetForMonth(budgetHistory, currentMonthStr);
+  }, [budgetHistory, currentMonthStr]);
+
+  const monthlyBudget = getEffectiveMonthlyLimit(budgetConfig);
+
+  const categoryMap = useMemo(() => {
+    return new Map(categories.map(c => [c.id, c]));
+  }, [categories]);
+
+  const pickerCategories = useMemo(() => {
+    return categories.filter(c => c.kind === newTransType && !c.archived);
+  }, [categories, newTransType]);
+
+  // What "auto" would pick for the entry as typed so far
+  const autoCategorization = useMemo(() => {
+    const { title } = extractTags(newTransTitle);
+    if (!title || newTransType === TransactionType.TRANSFER) return null;
+    const amount = parseFloat(newTransAmount);
+    return categorize({ title, amount: isNaN(amount) ? 0 : amount, type: newTransType }, categoryRules, transactions, categories);
+  }, [newTransTitle, newTransAmount, newTransType, categoryRules, transactions, categories]);
+
+  const { baseCurrency } = settings;
+
+  // Everything below that sums money works on amounts converted once into the base currency
+  const converted = useMemo(() => {
+    return convertToBaseCurrency(transactions, baseCurrency, exchangeRates);
+  }, [transactions, baseCurrency, exchangeRates]);
+
+  // What the records cost me: shared bills count only my share and settle-ups count not at all
+  const personal = useMemo(() => toPersonalTransactions(converted.transactions), [converted]);
+
+  // Credit goals for every month that has ended since they were last settled. Waits
+  // until the recurring bills due so far are recorded, or the leftover would be too high.
+  useEffect(() => {
+    if (!isLoaded || materializeRecurringRules(recurringRules, today)) return;
+    const settled = settleSavingsGoals(savingsGoals, today.slice(0, 7), month => {
+      return getMonthLeftover(budgetHistory, personal, month);
+    });
+    if (settled) setSavingsGoals(settled);
+  }, [isLoaded, savingsGoals, budgetHistory, personal, recurringRules, today]);
+
+  const personBalances = useMemo(() => getPersonBalances(converted.transactions), [converted]);
+
+  const baseAmountById = useMemo(() => {
+    return new Map(converted.transactions.map(t => [t.id, t.amount]));
+  }, [converted]);
+
+  const activeAccounts = useMemo(() => accounts.filter(a => !a.archived), [accounts]);
+
+  const assistantContext = useMemo(() => ({
+    transactions: personal,
+    categories,
+    accounts,
+    currency: baseCurrency,
+    today: toDateKey(new Date()),
+  }), [personal, categories, accounts, baseCurrency]);
+
+  const accountMap = useMemo(() => {
+    return new Map(accounts.map(a => [a.id, a]));
+  }, [accounts]);
+
+  const accountBalances = useMemo(() => {
+    return getAccountBalances(accounts, transactions, baseCurrency, exchangeRates);
+  }, [accounts, transactions, baseCurrency, exchangeRates]);
+
+  const netWorth = useMemo(() => {
+    const today = toDateKey(new Date());
+    return activeAccounts.reduce((sum, account) => {
+      return sum + convertAmount(accountBalances[account.id], account.currency, baseCurrency, today, baseCurrency, exchangeRates);
+    }, 0);
+  }, [activeAccounts, accountBalances, baseCurrency, exchangeRates]);
+
+  // Balance after each row, shown in the list while one account is selected
+  const runningBalances = useMemo(() => {
+    const account = accountMap.get(accountFilter);
+    return account ? getRunningBalances(account, transactions, baseCurrency, exchangeRates) : null;
+  }, [accountMap, accountFilter, transactions, baseCurrency, exchangeRates]);
 
+  const isInView = useCallback((t: Transaction) => {
+    return t.date.startsWith(currentMonthStr) && (!accountFilter || involvesAccount(t, accountFilter));
+  }, [currentMonthStr, accountFilter]);
+
+  // Original amounts, for the list
   const currentMonthTransactions = useMemo(() => {
-    return transactions.filter(t => t.date.startsWith(currentMonthStr));
-  }, [transactions, currentMonthStr]);
+    return transactions
+      .filter(isInView)
+      .sort((a, b) => b.date.localeCompare(a.date) || b.timestamp - a.timestamp);
+  }, [transactions, isInView]);
+
+  const currentMonthBaseTransactions = useMemo(() => {
+    return personal.filter(isInView);
+  }, [personal, isInView]);
+
+  const isSearching = isFilterActive(listFilter);
+
+  const allTags = useMemo(() => collectTags(transactions), [transactions]);
+
+  // Filtering runs on base amounts so the amount range and totals mix currencies correctly.
+  // Shared bills are matched and totalled by my share; settle-ups are listed but not totalled.
+  const searchResults = useMemo(() => {
+    if (!isSearching) return null;
+    const scoped = converted.transactions
+      .filter(t => !accountFilter || involvesAccount(t, accountFilter))
+      .map(t => (t.split ? { ...t, amount: getMyShare(t) } : t));
+    const matched = applyTransactionFilter(scoped, listFilter, categories, toDateKey(new Date()));
+    const matchedIds = new Set(matched.map(t => t.id));
+    return {
+      transactions: transactions
+        .filter(t => matchedIds.has(t.id))
+        .sort((a, b) => b.date.localeCompare(a.date) || b.timestamp - a.timestamp),
+      totals: getFilterTotals(matched.filter(t => !t.settlesWith)),
+    };
+  }, [isSearching, converted, accountFilter, listFilter, categories, transactions]);
+
+  const listedTransactions = searchResults ? searchResults.transactions : currentMonthTransactions;
+
+  const newTransAccount = accountMap.get(newTransAccountId || accountFilter) || activeAccounts[0];
+  const newTransToAccount = accountMap.get(newTransToAccountId);
+  const newTransIsCrossCurrency = newTransType === TransactionType.TRANSFER
+    && !!newTransToAccount && newTransToAccount.currency !== newTransAccount?.currency;
 
   const stats = useMemo((): DailyStats => {
-    const totalSpent = currentMonthTransactions
+    const totalSpent = currentMonthBaseTransactions
       .filter(t => t.type === TransactionType.EXPENSE)
       .reduce((sum, t) => sum + t.amount, 0);
     
-    const totalIncome = currentMonthTransactions
+    const totalIncome = currentMonthBaseTransactions
       .filter(t => t.type === TransactionType.INCOME)
       .reduce((sum, t) => sum + t.amount, 0);
 
@@ -95,11 +555,19 @@ function App() {
     
     let daysRemaining = 0;
     let dailyAvailable = 0;
+    let upcomingRecurringExpense = 0;
+    let goalReserve = 0;
 
     if (isCurrentMonth) {
       const currentDay = today.getDate();
+      const todayStr = toDateKey(today);
       daysRemaining = Math.max(1, lastDayOfMonth - currentDay + 1);
-      dailyAvailable = Math.max(0, remainingBudget / daysRemaining);
+      // Rent and other recurring bills still due this month are already spoken for
+      const upcoming = getUpcomingRecurringExpenses(recurringRules, todayStr, getLastDayOfMonth(todayStr));
+      upcomingRecurringExpense = convertToBaseCurrency(upcoming, baseCurrency, exchangeRates).transactions
+        .reduce((sum, t) => sum + t.amount, 0);
+      goalReserve = getMonthlyReserve(savingsGoals, currentMonthStr);
+      dailyAvailable = Math.max(0, (remainingBudget - upcomingRecurringExpense - goalReserve) / daysRemaining);
     } else {
       // For past/future months, daily available logic is different
       // If past: functionality changes to "Budget Result"
@@ -112,9 +580,54 @@ function App() {
       dailyAvailable,
       totalSpentThisMonth: totalSpent,
       totalIncomeThisMonth: totalIncome,
-      remainingBudget
+      remainingBudget,
+      upcomingRecurringExpense,
+      goalReserve
+    };
+  }, [currentMonthBaseTransactions, monthlyBudget, viewDate, isCurrentMonth, recurringRules, baseCurrency, exchangeRates, savingsGoals, currentMonthStr]);
+
+  // Everything moved into goals during the viewed month, shown once it has ended
+  const goalSavedInMonth = useMemo(() => {
+    return getContributedInMonth(savingsGoals, currentMonthStr);
+  }, [savingsGoals, currentMonthStr]);
+
+  // Alerts look at the real current month across all accounts, whatever is being viewed.
+  // They are checked whenever the records change and again at the reminder time.
+  useEffect(() => {
+    const { notifications } = settings;
+    if (!isLoaded) return;
+    if (!notifications.enabled || !notifications.eveningReminder) cancelScheduledNotification('reminder');
+    if (!notifications.enabled) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const check = () => {
+      const now = new Date();
+      const today = toDateKey(now);
+      const month = toMonthKey(now);
+      const upcoming = convertToBaseCurrency(
+        getUpcomingRecurringExpenses(recurringRules, today, getLastDayOfMonth(today)), baseCurrency, exchangeRates
+      ).transactions.reduce((sum, t) => sum + t.amount, 0);
+      const budget = getEffectiveMonthlyLimit(resolveBudgetForMonth(budgetHistory, month));
+      const setAside = upcoming + getMonthlyReserve(savingsGoals, month);
+      const snapshot = getBudgetSnapshot(personal, budget, setAside, baseCurrency, now);
+
+      const result = checkNotifications(snapshot, notifications, now);
+      if (result) {
+        result.notifications.forEach(showNotification);
+        setSettings(prev => ({ ...prev, notifications: { ...prev.notifications, sent: result.sent } }));
+      }
+
+      const nextReminder = getNextReminderTime(notifications, now);
+      if (notifications.eveningReminder) {
+        // With something recorded today, the next reminder that can matter is tomorrow's
+        if (snapshot.hasEntryToday && toDateKey(nextReminder) === today) nextReminder.setDate(nextReminder.getDate() + 1);
+        scheduleNotification(getReminderNotification(), nextReminder);
+      }
+      timer = setTimeout(check, nextReminder.getTime() - now.getTime());
     };
-  }, [currentMonthTransactions, monthlyBudget, viewDate, isCurrentMonth]);
+    check();
+    return () => clearTimeout(timer);
+  }, [isLoaded, settings.notifications, personal, budgetHistory, recurringRules, savingsGoals, baseCurrency, exchangeRates]);
 
   const chartData = useMemo((): ChartDataPoint[] => {
     const daysInMonth = new Date(viewDate.getFullYear(), viewDate.getMonth() + 1, 0).getDate();
@@ -128,12 +641,13 @@ function App() {
     }
 
     // Fill data
-    currentMonthTransactions.forEach(t => {
+    currentMonthBaseTransactions.forEach(t => {
       const day = parseInt(t.date.split('-')[2]);
       const current = dayMap.get(day) || { income: 0, expense: 0 };
+      // Transfers only move money between accounts
       if (t.type === TransactionType.INCOME) {
         current.income += t.amount;
-      } else {
+      } else if (t.type === TransactionType.EXPENSE) {
         current.expense += t.amount;
       }
       dayMap.set(day, current);
@@ -148,109 +662,401 @@ function App() {
       showUntilDay = 0; // Don't show chart for future
     }
 
+    // The current month runs on to month end so the budget and projection lines are complete
+    const lastDay = isCurrentMonth ? daysInMonth : showUntilDay;
+    let cumulative = 0;
+    let pace = 0;
+    const dayLabel = (day: number) => formatDay(new Date(viewDate.getFullYear(), viewDate.getMonth(), day));
+
     // Convert to array
-    for (let i = 1; i <= daysInMonth; i++) {
+    for (let i = 1; i <= lastDay; i++) {
+      const budget = monthlyBudget > 0 ? (monthlyBudget * i) / daysInMonth : undefined;
       if (i <= showUntilDay) { 
          const entry = dayMap.get(i);
+         cumulative += entry?.expense || 0;
+         const isToday = isCurrentMonth && i === showUntilDay;
+         if (isToday) pace = cumulative / i;
          data.push({
-           date: `${i}日`,
+           date: dayLabel(i),
            income: entry?.income || 0,
-           expense: entry?.expense || 0
+           expense: entry?.expense || 0,
+           cumulativeExpense: cumulative,
+           budget,
+           projected: isToday ? cumulative : undefined // Starts the projection where actual spend ends
          });
+      } else {
+         data.push({ date: dayLabel(i), budget, projected: pace * i });
       }
     }
     return data;
-  }, [currentMonthTransactions, viewDate, isCurrentMonth]);
+  }, [currentMonthBaseTransactions, viewDate, isCurrentMonth, monthlyBudget, locale]);
 
   const categoryStats = useMemo((): CategoryData[] => {
-    const expenses = currentMonthTransactions.filter(t => t.type === TransactionType.EXPENSE);
+    const expenses = currentMonthBaseTransactions.filter(t => t.type === TransactionType.EXPENSE);
     const totalExpense = expenses.reduce((sum, t) => sum + t.amount, 0);
+    const { categoryLimits } = budgetConfig;
     
-    if (totalExpense === 0) return [];
+    if (totalExpense === 0 && Object.keys(categoryLimits).length === 0) return [];
 
+    // Budgeted categories are listed even before anything is spent in them
     const groupMap: Record<string, number> = {};
+    Object.keys(categoryLimits).forEach(id => {
+      groupMap[id] = 0;
+    });
     expenses.forEach(t => {
-      groupMap[t.title] = (groupMap[t.title] || 0) + t.amount;
+      groupMap[t.categoryId] = (groupMap[t.categoryId] || 0) + t.amount;
     });
 
     return Object.entries(groupMap)
-      .map(([name, amount]) => ({
-        name,
-        amount,
-        percentage: (amount / totalExpense) * 100
-      }))
+      .map(([categoryId, amount]) => {
+        const category = categoryMap.get(categoryId);
+        return {
+          categoryId,
+          name: category?.name || t('common.uncategorized'),
+          icon: category?.icon || '📦',
+          color: category?.color || '#94a3b8',
+          amount,
+          percentage: totalExpense > 0 ? (amount / totalExpense) * 100 : 0,
+          limit: categoryLimits[categoryId],
+          status: getBudgetStatus(amount, categoryLimits[categoryId])
+        };
+      })
       .sort((a, b) => b.amount - a.amount); 
-  }, [currentMonthTransactions]);
+  }, [currentMonthBaseTransactions, categoryMap, budgetConfig, locale]);
+
+  const overBudgetCategories = useMemo(() => {
+    return categoryStats.filter(cat => cat.status === 'over');
+  }, [categoryStats]);
 
 
   // --- Handlers ---
+  // Anything that leaves the list goes to the trash, so an undone addition can still be recovered
+  const applyTransactionChange = (from: Transaction[], to: Transaction[]) => {
+    setTransactions(prev => applyChange(prev, from, to));
+    setTrash(prev => removeFromTrash(moveToTrash(prev, getRemoved(from, to), Date.now()), to.map(t => t.id)));
+  };
+
+  const commitChange = (entry: HistoryEntry) => {
+    applyTransactionChange(entry.before, entry.after);
+    setHistory(prev => recordChange(prev, entry));
+  };
+
+  const undo = () => {
+    const entry = history.past[history.past.length - 1];
+    if (!entry) return;
+    applyTransactionChange(entry.after, entry.before);
+    setHistory({ past: history.past.slice(0, -1), future: [...history.future, entry] });
+    setToast({ message: t('app.undone', { label: entry.label }), action: 'redo' });
+  };
+
+  const redo = () => {
+    const entry = history.future[history.future.length - 1];
+    if (!entry) return;
+    applyTransactionChange(entry.before, entry.after);
+    setHistory({ past: [...history.past, entry], future: history.future.slice(0, -1) });
+    setToast({ message: t('app.redone', { label: entry.label }), action: 'undo' });
+  };
+
   const handleAddTransaction = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newTransTitle || !newTransAmount) return;
+    const transfer = newTransType === TransactionType.TRANSFER;
+    if ((!newTransTitle && !transfer) || !newTransAmount || !newTransAccount) return;
+    if (transfer && (!newTransToAccount || newTransToAccount.id === newTransAccount.id)) return;
 
     const amount = parseFloat(newTransAmount);
     if (isNaN(amount) || amount <= 0) return;
+    const toAmount = parseFloat(newTransToAmount);
+
+    // "#tag" words in the title become tags, joined by any a matching rule adds
+    const { title, tags } = extractTags(newTransTitle);
+    const auto = !transfer && !newTransCategoryId
+      ? categorize({ title, amount, type: newTransType }, categoryRules, transactions, categories)
+      : null;
 
-    // IMPORTANT: When adding, default to TODAY, but if user is viewing a past month, 
-    // we should probably warn them or switch back? 
-    // For simplicity: Simple expense trackers usually add to "Today" regardless of view, 
-    // OR add to the "Viewed Month". 
-    // Let's add to TODAY to prevent accidents, but if viewDate is different, maybe switch viewDate to today?
-    
-    const todayStr = new Date().toISOString().split('T')[0];
-    
-    // Check if user is trying to add to a past month context visually
-    // To keep it simple and safe: We always add transactions as TODAY's date.
-    // If the user is viewing last month, they won't see it immediately unless we switch view.
-    
     const newTransaction: Transaction = {
       id: crypto.randomUUID(),
-      title: newTransTitle,
+      title: title || (transfer ? t('type.transfer') : newTransTitle),
       amount,
+      // Transfers always leave in the source account's currency
+      currency: (!transfer && newTransCurrency) || newTransAccount.currency,
       type: newTransType,
-      date: todayStr, // Always log as today
-      timestamp: Date.now()
+      categoryId: transfer ? '' : newTransCategoryId || auto.categoryId,
+      accountId: newTransAccount.id,
+      toAccountId: transfer ? newTransToAccount.id : undefined,
+      toAmount: newTransIsCrossCurrency && toAmount > 0 ? toAmount : undefined,
+      date: newTransDate,
+      timestamp: Date.now(),
+      tags: mergeTags(tags, auto ? auto.tags : [])
     };
 
-    setTransactions(prev => [newTransaction, ...prev]);
+    commitChange({ label: t('history.add', { title: newTransaction.title }), before: [], after: [newTransaction] });
     setNewTransTitle('');
     setNewTransAmount('');
+    setNewTransToAmount('');
+    setNewTransCategoryId('');
     
-    // If not viewing current month, switch back so they see what they added
-    if (!isCurrentMonth) {
-      setViewDate(new Date());
+    // If the date was changed to another month, follow it so they see what they added
+    if (!newTransDate.startsWith(currentMonthStr)) {
+      const [year, month] = newTransDate.split('-').map(Number);
+      setViewDate(new Date(year, month - 1, 1));
     }
   };
 
+  // Confirmed quick-entry drafts go into the account the form would use
+  const handleQuickEntry = (drafts: QuickEntryDraft[], attachments: Attachment[]) => {
+    if (!newTransAccount) return;
+    attachments.forEach(attachment => {
+      repositoryRef.current?.saveAttachment(attachment).catch(error => {
+        console.error('Attachment save error:', error);
+        setStorageError(t('app.attachmentSaveFailed'));
+      });
+    });
+    const created: Transaction[] = drafts.map(({ categoryPicked, ...draft }) => {
+      const { title, tags } = extractTags(draft.title);
+      // Rules and past records decide as for a manual entry, unless a category was picked in the
+      // preview; the draft's own guess (keyword or AI) stands over the keyword fallback
+      const auto = categoryPicked
+        ? null
+        : categorize({ title: title || draft.title, amount: draft.amount, type: draft.type }, categoryRules, transactions, categories);
+      return {
+        ...draft,
+        id: crypto.randomUUID(),
+        title: title || draft.title,
+        // A receipt in another currency keeps it; typed entries use the account's
+        currency: draft.currency || newTransAccount.currency,
+        categoryId: auto && auto.source !== 'keyword' ? auto.categoryId : draft.categoryId,
+        accountId: newTransAccount.id,
+        timestamp: Date.now(),
+        tags: mergeTags(tags, auto ? auto.tags : [])
+      };
+    });
+    const label = created.length === 1
+      ? t('history.add', { title: created[0].title })
+      : t('history.addMany', { count: created.length });
+    commitChange({ label, before: [], after: created });
+  };
+
+  // Transfers have no direction overall, only relative to the account being viewed
+  const getAmountSign = (t: Transaction) => {
+    if (t.type === TransactionType.EXPENSE) return '-';
+    if (t.type === TransactionType.INCOME) return '+';
+    if (!accountFilter) return '';
+    return t.accountId === accountFilter ? '-' : '+';
+  };
+
+  const handleAccountsChange = (next: Account[]) => {
+    setAccounts(next);
+    if (accountFilter && !next.some(a => a.id === accountFilter && !a.archived)) {
+      setAccountFilter('');
+    }
+    if (newTransAccountId && !next.some(a => a.id === newTransAccountId && !a.archived)) {
+      setNewTransAccountId('');
+    }
+  };
+
+  const handleImport = (imported: Transaction[]) => {
+    if (imported.length > 0) {
+      commitChange({ label: t('history.addMany', { count: imported.length }), before: [], after: imported });
+    }
+    setIsImportOpen(false);
+  };
+
+  const appData = useMemo((): AppData => ({
+    transactions,
+    categories,
+    budgetHistory,
+    recurringRules,
+    categoryRules,
+    savingsGoals,
+    people,
+    accounts,
+    savedFilters,
+    settings,
+    exchangeRates,
+    trash
+  }), [transactions, categories, budgetHistory, recurringRules, categoryRules, savingsGoals, people, accounts, savedFilters, settings, exchangeRates, trash]);
+
+  const handleRestore = (backup: BackupFile, mode: RestoreMode) => {
+    const restored = applyRestore(appData, backup.data, mode);
+    // Replacing drops the current records, and with them the images only they used
+    const kept = new Set(getAttachmentIds(restored));
+    const orphaned = getAttachmentIds(appData).filter(id => !kept.has(id));
+    if (orphaned.length > 0) {
+      repositoryRef.current?.deleteAttachments(orphaned).catch(error => {
+        console.error('Attachment delete error:', error);
+      });
+    }
+    backup.attachments?.forEach(attachment => {
+      repositoryRef.current?.saveAttachment(attachment).catch(error => {
+        console.error('Attachment save error:', error);
+        setStorageError(t('app.restoreAttachmentFailed'));
+      });
+    });
+    setTransactions(restored.transactions);
+    setCategories(restored.categories);
+    setBudgetHistory(restored.budgetHistory);
+    setRecurringRules(restored.recurringRules);
+    setCategoryRules(restored.categoryRules);
+    setSavingsGoals(restored.savingsGoals);
+    setPeople(restored.people);
+    setLocale(restored.settings.locale);
+    setSettings(restored.settings);
+    setExchangeRates(restored.exchangeRates);
+    setAccounts(restored.accounts);
+    setSavedFilters(restored.savedFilters);
+    setTrash(restored.trash);
+    // The restored records may no longer match what the history entries expect
+    setHistory(EMPTY_HISTORY);
+    setAccountFilter('');
+    setIsDataManagerOpen(false);
+  };
+
+  const handleUpdateTransaction = (updated: Transaction, applyToSeries: boolean) => {
+    const original = transactions.find(t => t.id === updated.id);
+    if (!original) return;
+    const label = t('history.edit', { title: updated.title });
+    if (applyToSeries && original.recurringRuleId) {
+      // Undo restores the occurrences; the rule itself keeps the new values
+      const result = applyEditToSeries(transactions, recurringRules, original, updated);
+      const changed = result.transactions.filter((t, i) => t !== transactions[i]);
+      const changedIds = new Set(changed.map(t => t.id));
+      commitChange({ label, before: transactions.filter(t => changedIds.has(t.id)), after: changed });
+      setRecurringRules(result.rules);
+    } else {
+      commitChange({ label, before: [original], after: [updated] });
+    }
+    setEditingTransaction(null);
+  };
+
   const handleDelete = (id: string) => {
-    setTransactions(prev => prev.filter(t => t.id !== id));
+    const deleted = transactions.find(t => t.id === id);
+    setEditingTransaction(null);
+    if (!deleted) return;
+    commitChange({ label: t('history.delete', { title: deleted.title }), before: [deleted], after: [] });
+    setToast({ message: t('app.deletedToast', { title: deleted.title }), action: 'undo' });
   };
 
-  const saveBudget = () => {
-    const val = parseFloat(tempBudgetInput);
-    if (!isNaN(val) && val > 0) {
-      setMonthlyBudget(val);
-      setIsBudgetModalOpen(false);
+  const handleRestoreFromTrash = (ids: string[]) => {
+    const restored = trash.filter(t => ids.includes(t.id)).map(toTransaction);
+    if (restored.length === 0) return;
+    const label = restored.length === 1
+      ? t('history.restore', { title: restored[0].title })
+      : t('history.restoreMany', { count: restored.length });
+    commitChange({ label, before: [], after: restored });
+  };
+
+  // Permanent deletion is final, so undo entries must not bring the records back either
+  const handleDeleteForever = (ids: string[]) => {
+    const removed = new Set(ids);
+    deleteAttachmentsOf(trash.filter(t => removed.has(t.id)));
+    setTrash(prev => prev.filter(t => !removed.has(t.id)));
+    setHistory(EMPTY_HISTORY);
+  };
+
+  const handleMergeCategories = (sourceId: string, targetId: string) => {
+    const merged = mergeCategories({ transactions, categories, recurringRules, trash, savedFilters }, sourceId, targetId);
+    setTransactions(merged.transactions);
+    setCategories(merged.categories);
+    setRecurringRules(merged.recurringRules);
+    setTrash(merged.trash);
+    setSavedFilters(merged.savedFilters);
+    setCategoryRules(prev => moveRulesToCategory(prev, sourceId, targetId));
+    setBudgetHistory(prev => moveCategoryLimit(prev, sourceId, targetId));
+    // Undo entries hold whole records, which would bring back the merged-away category
+    setHistory(EMPTY_HISTORY);
+  };
+
+  const handleApplyCategoryRules = (changes: RuleChange[]) => {
+    if (changes.length > 0) {
+      commitChange({
+        label: t('history.applyRules', { count: changes.length }),
+        before: changes.map(change => change.before),
+        after: changes.map(change => change.after)
+      });
     }
+    setIsCategoryRuleManagerOpen(false);
   };
 
-  const handleGetAdvice = async () => {
-    setIsAiLoading(true);
-    setAiAdvice(null);
-    const advice = await getFinancialAdvice(transactions, monthlyBudget);
-    setAiAdvice(advice);
-    setIsAiLoading(false);
+  // Called from the split editor, which adds the new person to the bill straight away
+  const handleAddPerson = (name: string): Person => {
+    const person = { id: crypto.randomUUID(), name };
+    setPeople(prev => [...prev, person]);
+    return person;
+  };
+
+  const handleSettle = (personId: string, accountId: string) => {
+    const person = people.find(p => p.id === personId);
+    const balance = personBalances.get(personId);
+    if (!person || !balance) return;
+    const settlement = createSettlement(person, balance, accountId, baseCurrency, toDateKey(new Date()));
+    commitChange({ label: t('history.settle', { name: person.name }), before: [], after: [settlement] });
+  };
+
+  // Budgets and goals are kept in the base currency, so a new base converts them too
+  const saveCurrencySettings = (nextSettings: AppSettings, nextRates: ExchangeRate[], conversionRate: number) => {
+    setSettings(nextSettings);
+    setExchangeRates(nextRates);
+    setBudgetHistory(prev => convertBudgetHistory(prev, conversionRate));
+    setSavingsGoals(prev => convertSavingsGoals(prev, conversionRate));
+    setIsCurrencyManagerOpen(false);
   };
 
-  // --- Render Helpers ---
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('zh-CN', { style: 'currency', currency: 'CNY' }).format(amount);
+  const saveAISettings = (ai: AISettings) => {
+    setSettings({ ...settings, ai });
+    setIsAISettingsOpen(false);
+    setAiError(null);
   };
 
-  const formatMonth = (date: Date) => {
-    return `${date.getFullYear()}年${date.getMonth() + 1}月`;
+  const saveNotificationSettings = (notifications: NotificationSettings) => {
+    setSettings({ ...settings, notifications });
+    setIsNotificationSettingsOpen(false);
   };
 
+  const saveLocale = (next: Locale) => {
+    setLocale(next);
+    setSettings({ ...settings, locale: next });
+    setIsLanguageOpen(false);
+    // Advice already shown stays in the language it was written in
+    setAiError(null);
+  };
+
+  const saveBudget = (config: BudgetConfig, scope: BudgetScope) => {
+    setBudgetHistory(prev => setBudgetForMonth(prev, currentMonthStr, config, scope));
+    setIsBudgetModalOpen(false);
+  };
+
+  // The viewed month, compared with the month before it
+  const handleGetAdvice = async () => {
+    const toPeriod = (date: Date): InsightPeriod => {
+      const from = `${toMonthKey(date)}-01`;
+      return { from, to: getLastDayOfMonth(from), label: formatMonth(date) };
+    };
+    setIsAiLoading(true);
+    setAiInsight(null);
+    setAiError(null);
+    const result = await getFinancialAdvice(settings.ai, {
+      transactions: personal,
+      budget: budgetConfig,
+      categories,
+      currency: baseCurrency,
+      period: toPeriod(viewDate),
+      previousPeriod: toPeriod(new Date(viewDate.getFullYear(), viewDate.getMonth() - 1, 1)),
+    });
+    setAiInsight(result.insight);
+    setAiError(result.error);
+    setIsAiLoading(false);
+  };
+
+  if (!isLoaded) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <p className={`text-sm ${storageError ? 'text-rose-500' : 'text-slate-400'}`}>
+          {storageError || t('app.loading')}
+        </p>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-slate-50 text-slate-800 pb-20">
       
@@ -261,15 +1067,99 @@ function App() {
             <Wallet className="w-6 h-6" />
             <h1 className="text-xl font-bold tracking-tight text-slate-800">FreshFin</h1>
           </div>
-          <button 
-            onClick={() => {
-              setTempBudgetInput(monthlyBudget.toString());
-              setIsBudgetModalOpen(true);
-            }}
-            className="p-2 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors text-slate-600"
-          >
-            <Settings className="w-5 h-5" />
-          </button>
+          <div className="flex items-center gap-2">
+            <button 
+              onClick={() => setIsReportOpen(true)}
+              className="p-2 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors text-slate-600"
+              title={t('app.report')}
+            >
+              <BarChart3 className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={() => setIsDataManagerOpen(true)}
+              className="p-2 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors text-slate-600"
+              title={t('app.backup')}
+            >
+              <Database className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={() => setIsAISettingsOpen(true)}
+              className="p-2 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors text-slate-600"
+              title={t('app.aiSettings')}
+            >
+              <Bot className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={() => setIsCurrencyManagerOpen(true)}
+              className="p-2 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors text-slate-600"
+              title={t('app.currencies')}
+            >
+              <Coins className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={() => setIsImportOpen(true)}
+              className="p-2 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors text-slate-600"
+              title={t('app.import')}
+            >
+              <FileUp className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={() => setIsRecurringManagerOpen(true)}
+              className="p-2 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors text-slate-600"
+              title={t('app.recurring')}
+            >
+              <Repeat className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={() => setIsCategoryManagerOpen(true)}
+              className="p-2 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors text-slate-600"
+              title={t('app.categories')}
+            >
+              <FolderCog className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={() => setIsCategoryRuleManagerOpen(true)}
+              className="p-2 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors text-slate-600"
+              title={t('app.categoryRules')}
+            >
+              <Wand2 className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={() => setIsGoalManagerOpen(true)}
+              className="p-2 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors text-slate-600"
+              title={t('app.goals')}
+            >
+              <PiggyBank className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={() => setIsSplitBalancesOpen(true)}
+              className="p-2 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors text-slate-600"
+              title={t('app.split')}
+            >
+              <Users className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={() => setIsNotificationSettingsOpen(true)}
+              className="p-2 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors text-slate-600"
+              title={t('app.notifications')}
+            >
+              <Bell className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={() => setIsLanguageOpen(true)}
+              className="p-2 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors text-slate-600"
+              title={t('app.language')}
+            >
+              <Languages className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={() => setIsBudgetModalOpen(true)}
+              className="p-2 bg-slate-100 rounded-full hover:bg-slate-200 transition-colors text-slate-600"
+              title={t('app.budget')}
+            >
+              <Settings className="w-5 h-5" />
+            </button>
+          </div>
         </div>
 
         {/* Month Navigator */}
@@ -295,6 +1185,55 @@ function App() {
 
       <main className="max-w-4xl mx-auto p-4 md:p-6 space-y-6">
 
+        {storageError && (
+          <div className="bg-rose-50 border border-rose-100 text-rose-600 text-sm rounded-xl px-4 py-3">
+            {storageError}
+          </div>
+        )}
+
+        {converted.missingCurrencies.length > 0 && (
+          <button
+            onClick={() => setIsCurrencyManagerOpen(true)}
+            className="w-full text-left bg-amber-50 border border-amber-100 text-amber-700 text-sm rounded-xl px-4 py-3 hover:bg-amber-100 transition-colors"
+          >
+            {t('app.missingRates', { currencies: converted.missingCurrencies.map(getCurrencyName).join(t('common.listSeparator')) })}
+          </button>
+        )}
+
+        {/* Accounts - selecting one filters the dashboard */}
+        <section className="flex gap-2 overflow-x-auto pb-1">
+          <button
+            onClick={() => setAccountFilter('')}
+            className={`shrink-0 px-4 py-2 rounded-xl border text-left transition-all ${
+              accountFilter === '' ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-100 hover:border-slate-300'
+            }`}
+          >
+            <p className="text-xs opacity-70">{t('app.allAccounts')}</p>
+            <p className="text-sm font-mono font-semibold">{formatCurrency(netWorth, baseCurrency)}</p>
+          </button>
+          {activeAccounts.map(account => (
+            <button
+              key={account.id}
+              onClick={() => setAccountFilter(account.id)}
+              className={`shrink-0 px-4 py-2 rounded-xl border text-left transition-all ${
+                accountFilter === account.id ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-100 hover:border-slate-300'
+              }`}
+            >
+              <p className="text-xs opacity-70">{ACCOUNT_TYPE_ICONS[account.type]} {account.name}</p>
+              <p className={`text-sm font-mono font-semibold ${accountBalances[account.id] < 0 && accountFilter !== account.id ? 'text-rose-500' : ''}`}>
+                {formatCurrency(accountBalances[account.id], account.currency)}
+              </p>
+            </button>
+          ))}
+          <button
+            onClick={() => setIsAccountManagerOpen(true)}
+            className="shrink-0 px-3 rounded-xl border border-dashed border-slate-200 text-slate-400 hover:text-slate-600 hover:border-slate-300 transition-colors"
+            title={t('app.manageAccounts')}
+          >
+            <WalletCards className="w-5 h-5" />
+          </button>
+        </section>
+
         {/* 1. Dashboard Cards */}
         <section className="grid grid-cols-1 md:grid-cols-3 gap-4">
           {/* Hero Card - Dynamic based on whether it is current or past month */}
@@ -305,46 +1244,69 @@ function App() {
              <div className="relative z-10">
                 {isCurrentMonth ? (
                   <>
-                    <p className="text-emerald-100 text-sm font-medium mb-1">今日可用余额 (日均)</p>
+                    <p className="text-emerald-100 text-sm font-medium mb-1">{t('app.dailyAvailable')}</p>
                     <div className="text-5xl font-bold tracking-tight mb-4">
-                      {formatCurrency(stats.dailyAvailable)}
+                      {formatCurrency(stats.dailyAvailable, baseCurrency)}
                     </div>
                     <div className="flex gap-6 text-sm">
                       <div>
-                        <span className="opacity-70 block text-xs">本月预算剩余</span>
-                        <span className="font-semibold">{formatCurrency(stats.remainingBudget)}</span>
+                        <span className="opacity-70 block text-xs">{t('app.budgetLeft')}</span>
+                        <span className="font-semibold">{formatCurrency(stats.remainingBudget, baseCurrency)}</span>
                       </div>
                       <div>
-                        <span className="opacity-70 block text-xs">距离月底</span>
-                        <span className="font-semibold">{stats.daysRemaining} 天</span>
+                        <span className="opacity-70 block text-xs">{t('app.untilMonthEnd')}</span>
+                        <span className="font-semibold">{t('app.days', { count: stats.daysRemaining })}</span>
                       </div>
+                      {stats.goalReserve > 0 && (
+                        <div>
+                          <span className="opacity-70 block text-xs">{t('app.goalReserve')}</span>
+                          <span className="font-semibold">{formatCurrency(stats.goalReserve, baseCurrency)}</span>
+                        </div>
+                      )}
+                      {stats.upcomingRecurringExpense > 0 && (
+                        <div>
+                          <span className="opacity-70 block text-xs">{t('app.upcomingRecurring')}</span>
+                          <span className="font-semibold">{formatCurrency(stats.upcomingRecurringExpense, baseCurrency)}</span>
+                        </div>
+                      )}
                     </div>
                   </>
                 ) : (
                   <>
-                    <p className="text-slate-200 text-sm font-medium mb-1">本月最终结余</p>
+                    <p className="text-slate-200 text-sm font-medium mb-1">{t('app.monthResult')}</p>
                     <div className="text-5xl font-bold tracking-tight mb-4">
-                      {formatCurrency(stats.remainingBudget)}
+                      {formatCurrency(stats.remainingBudget, baseCurrency)}
                     </div>
                     <div className="flex gap-6 text-sm">
                       <div>
-                        <span className="opacity-70 block text-xs">月度总预算</span>
-                        <span className="font-semibold">{formatCurrency(monthlyBudget)}</span>
+                        <span className="opacity-70 block text-xs">{t('app.monthlyBudget')}</span>
+                        <span className="font-semibold">{formatCurrency(monthlyBudget, baseCurrency)}</span>
                       </div>
+                      {goalSavedInMonth > 0 && (
+                        <div>
+                          <span className="opacity-70 block text-xs">{t('app.goalSaved')}</span>
+                          <span className="font-semibold">{formatCurrency(goalSavedInMonth, baseCurrency)}</span>
+                        </div>
+                      )}
                       <div className="bg-white/20 px-2 py-0.5 rounded text-xs flex items-center">
-                        历史账单
+                        {t('app.pastMonth')}
                       </div>
                     </div>
                   </>
                 )}
+                {overBudgetCategories.length > 0 && (
+                  <div className="mt-4 text-xs bg-white/20 rounded-lg px-3 py-2">
+                    {t('app.overBudget', { categories: overBudgetCategories.map(cat => `${cat.icon} ${cat.name}`).join(t('common.listSeparator')) })}
+                  </div>
+                )}
              </div>
           </div>
 
           {/* Income & Expense Summaries */}
           <div className="bg-white p-5 rounded-xl border border-slate-100 shadow-sm flex items-center justify-between">
             <div>
-              <p className="text-xs text-slate-500 font-medium uppercase">本月支出</p>
-              <p className="text-2xl font-bold text-rose-500 mt-1">{formatCurrency(stats.totalSpentThisMonth)}</p>
+              <p className="text-xs text-slate-500 font-medium uppercase">{t('app.monthExpense')}</p>
+              <p className="text-2xl font-bold text-rose-500 mt-1">{formatCurrency(stats.totalSpentThisMonth, baseCurrency)}</p>
             </div>
             <div className="h-10 w-10 bg-rose-50 rounded-full flex items-center justify-center text-rose-500">
               <ArrowDown className="w-5 h-5" />
@@ -353,8 +1315,8 @@ function App() {
 
           <div className="bg-white p-5 rounded-xl border border-slate-100 shadow-sm flex items-center justify-between">
             <div>
-              <p className="text-xs text-slate-500 font-medium uppercase">本月收入</p>
-              <p className="text-2xl font-bold text-teal-600 mt-1">{formatCurrency(stats.totalIncomeThisMonth)}</p>
+              <p className="text-xs text-slate-500 font-medium uppercase">{t('app.monthIncome')}</p>
+              <p className="text-2xl font-bold text-teal-600 mt-1">{formatCurrency(stats.totalIncomeThisMonth, baseCurrency)}</p>
             </div>
             <div className="h-10 w-10 bg-teal-50 rounded-full flex items-center justify-center text-teal-600">
               <ArrowUp className="w-5 h-5" />
@@ -363,18 +1325,18 @@ function App() {
 
           {/* Budget Card */}
           <div 
-            onClick={() => {
-              setTempBudgetInput(monthlyBudget.toString());
-              setIsBudgetModalOpen(true);
-            }}
+            onClick={() => setIsBudgetModalOpen(true)}
             className="bg-white p-5 rounded-xl border border-slate-100 shadow-sm flex items-center justify-between cursor-pointer hover:shadow-md transition-all group"
           >
             <div>
               <div className="flex items-center gap-2 mb-1">
-                <p className="text-xs text-slate-500 font-medium uppercase">月度预算设置</p>
+                <p className="text-xs text-slate-500 font-medium uppercase">{t('app.budgetCard')}</p>
+                {hasBudgetOverride(budgetHistory, currentMonthStr) && (
+                  <span className="text-[10px] bg-blue-50 text-blue-500 px-1.5 py-0.5 rounded">{t('app.thisMonthOnly')}</span>
+                )}
                 <Edit className="w-3 h-3 text-slate-400 opacity-0 group-hover:opacity-100 transition-opacity" />
               </div>
-              <p className="text-2xl font-bold text-slate-700">{formatCurrency(monthlyBudget)}</p>
+              <p className="text-2xl font-bold text-slate-700">{formatCurrency(monthlyBudget, baseCurrency)}</p>
             </div>
              <div className="h-10 w-10 bg-blue-50 rounded-full flex items-center justify-center text-blue-500">
               <PieChart className="w-5 h-5" />
@@ -382,121 +1344,251 @@ function App() {
           </div>
         </section>
 
-        {/* 2. Add Transaction Form - Only show if viewing current month to avoid date confusion */}
-        {isCurrentMonth && (
-          <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-5">
-             <h3 className="text-sm font-semibold text-slate-600 mb-4 flex items-center gap-2">
-               <Plus className="w-4 h-4" /> 记一笔 (今日)
-             </h3>
-             <form onSubmit={handleAddTransaction} className="flex flex-col md:flex-row gap-3">
-               <div className="flex bg-slate-50 rounded-lg p-1 border border-slate-200 w-full md:w-auto shrink-0">
-                 <button
-                   type="button"
-                   onClick={() => setNewTransType(TransactionType.EXPENSE)}
-                   className={`flex-1 md:w-24 py-2 text-sm font-medium rounded-md transition-all ${
-                     newTransType === TransactionType.EXPENSE 
-                     ? 'bg-white text-rose-500 shadow-sm' 
-                     : 'text-slate-500 hover:text-slate-700'
-                   }`}
-                 >
-                   支出
-                 </button>
-                 <button
-                   type="button"
-                   onClick={() => setNewTransType(TransactionType.INCOME)}
-                   className={`flex-1 md:w-24 py-2 text-sm font-medium rounded-md transition-all ${
-                     newTransType === TransactionType.INCOME 
-                     ? 'bg-white text-teal-600 shadow-sm' 
-                     : 'text-slate-500 hover:text-slate-700'
-                   }`}
-                 >
-                   收入
-                 </button>
-               </div>
-               
-               <input
-                 type="text"
-                 placeholder="项目名称"
-                 value={newTransTitle}
-                 onChange={(e) => setNewTransTitle(e.target.value)}
-                 className="flex-1 px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 transition-all text-sm"
-                 required
-               />
-               
+        {/* 2. Savings Goals - required amounts count from the current month */}
+        {savingsGoals.length > 0 && (
+          <SavingsGoalsCard
+            goals={savingsGoals}
+            currency={baseCurrency}
+            currentMonth={toMonthKey(new Date())}
+            onManage={() => setIsGoalManagerOpen(true)}
+          />
+        )}
+
+        {/* 3. Add Transaction Form - Dates default into the viewed month */}
+        <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-5">
+           <h3 className="text-sm font-semibold text-slate-600 mb-4 flex items-center gap-2">
+             <Plus className="w-4 h-4" /> {t('app.addTitle')}
+           </h3>
+           <QuickEntry
+             categories={categories}
+             accountName={newTransAccount?.name || ''}
+             aiSettings={settings.ai}
+             onConfirm={handleQuickEntry}
+           />
+           <form onSubmit={handleAddTransaction} className="flex flex-col md:flex-row gap-3">
+             <div className="flex bg-slate-50 rounded-lg p-1 border border-slate-200 w-full md:w-auto shrink-0">
+               <button
+                 type="button"
+                 onClick={() => { setNewTransType(TransactionType.EXPENSE); setNewTransCategoryId(''); }}
+                 className={`flex-1 md:w-16 py-2 text-sm font-medium rounded-md transition-all ${
+                   newTransType === TransactionType.EXPENSE 
+                   ? 'bg-white text-rose-500 shadow-sm' 
+                   : 'text-slate-500 hover:text-slate-700'
+                 }`}
+               >
+                 {t('type.expense')}
+               </button>
+               <button
+                 type="button"
+                 onClick={() => { setNewTransType(TransactionType.INCOME); setNewTransCategoryId(''); }}
+                 className={`flex-1 md:w-16 py-2 text-sm font-medium rounded-md transition-all ${
+                   newTransType === TransactionType.INCOME 
+                   ? 'bg-white text-teal-600 shadow-sm' 
+                   : 'text-slate-500 hover:text-slate-700'
+                 }`}
+               >
+                 {t('type.income')}
+               </button>
+               <button
+                 type="button"
+                 onClick={() => { setNewTransType(TransactionType.TRANSFER); setNewTransCategoryId(''); }}
+                 className={`flex-1 md:w-16 py-2 text-sm font-medium rounded-md transition-all ${
+                   newTransType === TransactionType.TRANSFER 
+                   ? 'bg-white text-blue-500 shadow-sm' 
+                   : 'text-slate-500 hover:text-slate-700'
+                 }`}
+               >
+                 {t('type.transfer')}
+               </button>
+             </div>
+             
+             <input
+               type="text"
+               placeholder={newTransType === TransactionType.TRANSFER ? t('app.notePlaceholder') : t('app.titlePlaceholder')}
+               value={newTransTitle}
+               onChange={(e) => setNewTransTitle(e.target.value)}
+               className="flex-1 px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 transition-all text-sm"
+               required={newTransType !== TransactionType.TRANSFER}
+             />
+             
+             <div className="flex gap-1 w-full md:w-auto">
                <input
                  type="number"
-                 placeholder="金额"
+                 placeholder={t('app.amountPlaceholder')}
                  value={newTransAmount}
                  onChange={(e) => setNewTransAmount(e.target.value)}
                  step="0.01"
                  min="0"
-                 className="w-full md:w-32 px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 transition-all text-sm font-mono"
+                 className="flex-1 md:w-32 min-w-0 px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 transition-all text-sm font-mono"
                  required
                />
+               <CurrencySelect
+                 value={(newTransType !== TransactionType.TRANSFER && newTransCurrency) || newTransAccount?.currency || baseCurrency}
+                 onChange={(currency) => setNewTransCurrency(currency === newTransAccount?.currency ? '' : currency)}
+                 disabled={newTransType === TransactionType.TRANSFER}
+                 showNames={false}
+                 className="px-2 py-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 text-sm"
+               />
+             </div>
+
+             <input
+               type="date"
+               value={newTransDate}
+               onChange={(e) => setNewTransDate(e.target.value)}
+               className="w-full md:w-40 px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 transition-all text-sm"
+               required
+             />
 
-               <button 
-                 type="submit"
-                 className="w-full md:w-auto px-6 py-2.5 bg-slate-900 text-white font-medium rounded-lg hover:bg-slate-800 active:scale-95 transition-all text-sm flex items-center justify-center gap-2"
+             <button 
+               type="submit"
+               className="w-full md:w-auto px-6 py-2.5 bg-slate-900 text-white font-medium rounded-lg hover:bg-slate-800 active:scale-95 transition-all text-sm flex items-center justify-center gap-2"
+             >
+               <Plus className="w-4 h-4" /> {t('app.confirm')}
+             </button>
+           </form>
+
+           {/* Accounts - transfers pick both ends */}
+           <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+             <select
+               value={newTransAccount?.id || ''}
+               onChange={(e) => setNewTransAccountId(e.target.value)}
+               className="px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs focus:outline-none focus:border-teal-500"
+             >
+               {activeAccounts.map(a => (
+                 <option key={a.id} value={a.id}>{ACCOUNT_TYPE_ICONS[a.type]} {a.name}</option>
+               ))}
+             </select>
+             {newTransType === TransactionType.TRANSFER && (
+               <>
+                 <ArrowLeftRight className="w-4 h-4 text-slate-400" />
+                 <select
+                   value={newTransToAccountId}
+                   onChange={(e) => setNewTransToAccountId(e.target.value)}
+                   className="px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs focus:outline-none focus:border-teal-500"
+                   required
+                 >
+                   <option value="">{t('app.toAccount')}</option>
+                   {activeAccounts.filter(a => a.id !== newTransAccount?.id).map(a => (
+                     <option key={a.id} value={a.id}>{ACCOUNT_TYPE_ICONS[a.type]} {a.name}</option>
+                   ))}
+                 </select>
+                 {newTransIsCrossCurrency && (
+                   <input
+                     type="number"
+                     placeholder={t('app.toAmountPlaceholder', { currency: newTransToAccount.currency })}
+                     value={newTransToAmount}
+                     onChange={(e) => setNewTransToAmount(e.target.value)}
+                     step="0.01"
+                     min="0"
+                     className="w-44 px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-mono focus:outline-none focus:border-teal-500"
+                   />
+                 )}
+               </>
+             )}
+           </div>
+
+           {/* Category Picker - "auto" shows what rules or past records would pick */}
+           {newTransType !== TransactionType.TRANSFER && (
+             <div className="flex gap-2 mt-3 overflow-x-auto pb-1">
+               <button
+                 type="button"
+                 onClick={() => setNewTransCategoryId('')}
+                 className={`shrink-0 px-3 py-1 text-xs rounded-full border transition-all ${
+                   newTransCategoryId === '' ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'
+                 }`}
                >
-                 <Plus className="w-4 h-4" /> 确认
+                 {autoCategorization && categoryMap.has(autoCategorization.categoryId)
+                   ? t('app.autoCategoryGuess', {
+                       category: `${categoryMap.get(autoCategorization.categoryId).icon} ${categoryMap.get(autoCategorization.categoryId).name}`
+                     })
+                   : t('app.autoCategory')}
                </button>
-             </form>
-          </section>
-        )}
+               {pickerCategories.map(cat => (
+                 <button
+                   key={cat.id}
+                   type="button"
+                   onClick={() => setNewTransCategoryId(cat.id)}
+                   className={`shrink-0 px-3 py-1 text-xs rounded-full border transition-all ${
+                     newTransCategoryId === cat.id ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200 hover:border-slate-300'
+                   }`}
+                 >
+                   {cat.icon} {cat.name}
+                 </button>
+               ))}
+             </div>
+           )}
+        </section>
 
-        {/* 3. AI Insights - Only relevant for current context data */}
-        {currentMonthTransactions.length > 0 && (
+        {/* 4. AI Insights - the analysis covers the viewed month, the chat all records */}
+        {transactions.length > 0 && (
           <section className="bg-gradient-to-r from-violet-50 to-fuchsia-50 rounded-xl border border-violet-100 p-5">
             <div className="flex items-start justify-between">
                <div className="flex items-center gap-2 text-violet-700 font-semibold mb-2">
-                 <Sparkles className="w-4 h-4" /> AI 财务顾问 ({formatMonth(viewDate)})
+                 <Sparkles className="w-4 h-4" /> {t('app.aiAdvisor', { month: formatMonth(viewDate) })}
                </div>
-               {!aiAdvice && (
-                  <button 
-                    onClick={handleGetAdvice}
-                    disabled={isAiLoading}
-                    className="text-xs bg-white border border-violet-200 text-violet-600 px-3 py-1.5 rounded-full hover:bg-violet-50 transition-colors disabled:opacity-50"
+               <div className="flex gap-2">
+                 <button
+                    onClick={() => setIsAssistantOpen(true)}
+                    className="text-xs bg-white border border-violet-200 text-violet-600 px-3 py-1.5 rounded-full hover:bg-violet-50 transition-colors flex items-center gap-1"
                   >
-                    {isAiLoading ? '分析中...' : '分析本月支出'}
+                    <MessageCircle className="w-3.5 h-3.5" /> {t('app.askAI')}
                   </button>
-               )}
+                 {!aiInsight && currentMonthTransactions.length > 0 && (
+                    <button 
+                      onClick={handleGetAdvice}
+                      disabled={isAiLoading}
+                      className="text-xs bg-white border border-violet-200 text-violet-600 px-3 py-1.5 rounded-full hover:bg-violet-50 transition-colors disabled:opacity-50"
+                    >
+                      {isAiLoading ? t('app.analyzing') : t('app.analyzeMonth')}
+                    </button>
+                 )}
+               </div>
             </div>
             
-            {aiAdvice ? (
+            {aiInsight ? (
               <div className="mt-2 text-sm text-slate-700 leading-relaxed bg-white/60 p-3 rounded-lg border border-violet-100 animate-in fade-in duration-500">
-                 {aiAdvice}
+                 <InsightSections insight={aiInsight} currency={baseCurrency} />
                  <div className="mt-2 text-right">
-                    <button onClick={() => setAiAdvice(null)} className="text-xs text-violet-400 hover:text-violet-600 underline">收起</button>
+                    <button onClick={() => setAiInsight(null)} className="text-xs text-violet-400 hover:text-violet-600 underline">{t('app.collapse')}</button>
                  </div>
               </div>
+            ) : aiError ? (
+              <p className="text-xs text-rose-500 mt-1">{aiError}</p>
             ) : (
-              <p className="text-xs text-slate-500 mt-1">点击按钮，让 AI 分析您{formatMonth(viewDate)}的消费习惯。</p>
+              <p className="text-xs text-slate-500 mt-1">{t('app.aiHint', { month: formatMonth(viewDate) })}</p>
             )}
           </section>
         )}
 
-        {/* 4. Spending Breakdown */}
+        {/* 5. Spending Breakdown */}
         {categoryStats.length > 0 && (
           <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-5">
              <h3 className="text-sm font-semibold text-slate-600 mb-4 flex items-center gap-2">
-               <Tags className="w-4 h-4" /> 支出分类
+               <Tags className="w-4 h-4" /> {t('app.categoryBreakdown')}
              </h3>
              <div className="space-y-4">
-                {categoryStats.map((cat, index) => (
-                  <div key={index}>
+                {categoryStats.map(cat => (
+                  <div key={cat.categoryId}>
                     <div className="flex justify-between items-end mb-1">
                       <div className="flex items-center gap-2">
-                         <span className="text-sm font-medium text-slate-700">{cat.name}</span>
+                         <span className="text-sm font-medium text-slate-700">{cat.icon} {cat.name}</span>
                          <span className="text-xs text-slate-400 font-mono">{cat.percentage.toFixed(1)}%</span>
                       </div>
-                      <span className="text-sm font-mono font-semibold text-slate-700">
-                        {formatCurrency(cat.amount)}
+                      <span className={`text-sm font-mono font-semibold ${BUDGET_STATUS_TEXT[cat.status]}`}>
+                        {formatCurrency(cat.amount, baseCurrency)}
+                        {cat.limit !== undefined && (
+                          <span className="text-xs font-normal text-slate-400"> / {formatCurrency(cat.limit, baseCurrency)}</span>
+                        )}
                       </span>
                     </div>
                     <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden">
+                      {/* With a limit the bar shows spent vs. limit, otherwise the share of total spending */}
                       <div 
-                        className="bg-rose-400 h-2 rounded-full" 
-                        style={{ width: `${cat.percentage}%` }}
+                        className="h-2 rounded-full" 
+                        style={{
+                          width: `${cat.limit ? Math.min(100, (cat.amount / cat.limit) * 100) : cat.percentage}%`,
+                          backgroundColor: BUDGET_STATUS_COLOR[cat.status] || cat.color
+                        }}
                       ></div>
                     </div>
                   </div>
@@ -505,42 +1597,129 @@ function App() {
           </section>
         )}
 
-        {/* 5. Charts */}
+        {/* 6. Charts */}
         <section>
-          <TransactionChart data={chartData} />
+          <TransactionChart data={chartData} currency={baseCurrency} />
         </section>
 
-        {/* 6. Transaction List */}
+        {/* 7. Transaction List */}
         <section>
-          <h3 className="text-sm font-semibold text-slate-600 mb-4 ml-1">{formatMonth(viewDate)}明细</h3>
+          <div className="flex items-center justify-between mb-4 ml-1">
+            <h3 className="text-sm font-semibold text-slate-600">
+              {isSearching ? t('app.searchResults') : t('app.monthDetails', { month: formatMonth(viewDate) })}
+            </h3>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={undo}
+                disabled={history.past.length === 0}
+                className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 disabled:text-slate-200 disabled:hover:bg-transparent transition-colors"
+                title={t('app.undoShortcut')}
+              >
+                <Undo2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={redo}
+                disabled={history.future.length === 0}
+                className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 disabled:text-slate-200 disabled:hover:bg-transparent transition-colors"
+                title={t('app.redoShortcut')}
+              >
+                <Redo2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setIsTrashOpen(true)}
+                className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 transition-colors flex items-center gap-1 text-xs"
+                title={t('app.trash')}
+              >
+                <Trash2 className="w-4 h-4" />
+                {trash.length > 0 && trash.length}
+              </button>
+            </div>
+          </div>
+          <div className="mb-3">
+            <TransactionFilterPanel
+              filter={listFilter}
+              categories={categories}
+              tags={allTags}
+              savedFilters={savedFilters}
+              totals={searchResults?.totals || null}
+              currency={baseCurrency}
+              onChange={setListFilter}
+              onSavedFiltersChange={setSavedFilters}
+            />
+          </div>
           <div className="space-y-3">
-            {currentMonthTransactions.length === 0 ? (
+            {listedTransactions.length === 0 ? (
                <div className="text-center py-10 text-slate-400 bg-white rounded-xl border border-dashed border-slate-200">
-                 本月暂无收支记录
+                 {isSearching ? t('app.noMatches') : t('app.noRecords')}
                </div>
             ) : (
-              currentMonthTransactions.sort((a, b) => b.timestamp - a.timestamp).map(t => (
-                <div key={t.id} className="group bg-white p-4 rounded-xl border border-slate-100 shadow-sm hover:shadow-md transition-all flex items-center justify-between">
+              listedTransactions.map(transaction => (
+                <div 
+                  key={transaction.id} 
+                  onClick={() => setEditingTransaction(transaction)}
+                  className="group bg-white p-4 rounded-xl border border-slate-100 shadow-sm hover:shadow-md transition-all flex items-center justify-between cursor-pointer"
+                >
                   <div className="flex items-center gap-4">
-                     <div className={`w-10 h-10 rounded-full flex items-center justify-center shrink-0 ${
-                        t.type === TransactionType.EXPENSE ? 'bg-rose-50 text-rose-500' : 'bg-teal-50 text-teal-600'
-                     }`}>
-                        {t.type === TransactionType.EXPENSE ? <Minus className="w-5 h-5" /> : <Plus className="w-5 h-5" />}
+                     <div className={`w-10 h-10 rounded-full flex items-center justify-center shrink-0 ${TRANSACTION_TYPE_STYLE[transaction.type].badge}`}>
+                        {transaction.type === TransactionType.EXPENSE && <Minus className="w-5 h-5" />}
+                        {transaction.type === TransactionType.INCOME && <Plus className="w-5 h-5" />}
+                        {isTransfer(transaction) && <ArrowLeftRight className="w-5 h-5" />}
                      </div>
                      <div>
-                       <p className="font-medium text-slate-800">{t.title}</p>
-                       <p className="text-xs text-slate-400">{t.date}</p>
+                       <p className="font-medium text-slate-800 flex items-center gap-1">
+                         {transaction.title}
+                         {transaction.attachmentIds?.length > 0 && <Paperclip className="w-3.5 h-3.5 text-slate-400" />}
+                       </p>
+                       <p className="text-xs text-slate-400">
+                         {isTransfer(transaction)
+                           ? `${accountMap.get(transaction.accountId)?.name} → ${accountMap.get(transaction.toAccountId!)?.name}`
+                           : `${categoryMap.get(transaction.categoryId)?.icon} ${categoryMap.get(transaction.categoryId)?.name}`} · {formatDate(transaction.date)}
+                         {!isTransfer(transaction) && activeAccounts.length > 1 && !accountFilter && ` · ${accountMap.get(transaction.accountId)?.name}`}
+                         {transaction.recurringRuleId && ` · ${t('app.recurringBadge')}`}
+                         {transaction.split && ` · ${t('split.myShare', { amount: formatCurrency(getMyShare(transaction), transaction.currency) })}`}
+                         {transaction.settlesWith && ` · ${t('split.settlementBadge')}`}
+                       </p>
+                       {(transaction.note || transaction.tags?.length > 0) && (
+                         <div className="flex flex-wrap items-center gap-1 mt-1">
+                           {transaction.tags?.map(tag => (
+                             <button
+                               key={tag}
+                               onClick={(e) => {
+                                 e.stopPropagation();
+                                 setListFilter({ ...listFilter, tags: [...new Set([...listFilter.tags, tag])] });
+                               }}
+                               className="text-[11px] px-1.5 py-0.5 bg-slate-100 text-slate-500 rounded hover:bg-slate-200"
+                             >
+                               #{tag}
+                             </button>
+                           ))}
+                           {transaction.note && <span className="text-xs text-slate-400 truncate max-w-[14rem]">{transaction.note}</span>}
+                         </div>
+                       )}
                      </div>
                   </div>
                   <div className="flex items-center gap-4">
-                    <span className={`font-mono font-semibold ${
-                      t.type === TransactionType.EXPENSE ? 'text-rose-500' : 'text-teal-600'
-                    }`}>
-                      {t.type === TransactionType.EXPENSE ? '-' : '+'}{formatCurrency(t.amount)}
-                    </span>
+                    <div className="text-right">
+                      <span className={`font-mono font-semibold ${TRANSACTION_TYPE_STYLE[transaction.type].amount}`}>
+                        {getAmountSign(transaction)}{formatCurrency(transaction.amount, transaction.currency)}
+                      </span>
+                      {transaction.currency !== baseCurrency && !converted.missingCurrencies.includes(transaction.currency) && (
+                        <p className="text-xs text-slate-400 font-mono">≈ {formatCurrency(baseAmountById.get(transaction.id) ?? transaction.amount, baseCurrency)}</p>
+                      )}
+                      {runningBalances?.has(transaction.id) && (
+                        <p className="text-xs text-slate-400 font-mono">
+                          {t('app.balance', { amount: formatCurrency(runningBalances.get(transaction.id)!, accountMap.get(accountFilter)!.currency) })}
+                        </p>
+                      )}
+                    </div>
                     <button 
-                      onClick={() => handleDelete(t.id)}
-                      className="text-slate-300 hover:text-red-400 transition-colors opacity-0 group-hover:opacity-100"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(transaction.id);
+                      }}
+                      // Always visible on touch screens, which have no hover to reveal it
+                      className="text-slate-300 hover:text-red-400 transition-colors [@media(hover:hover)]:opacity-0 group-hover:opacity-100"
+                      title={t('app.delete')}
                     >
                       <Trash2 className="w-4 h-4" />
                     </button>
@@ -552,43 +1731,227 @@ function App() {
         </section>
       </main>
 
+      {/* Transaction Editor */}
+      {editingTransaction && (
+        <TransactionEditModal
+          transaction={editingTransaction}
+          categories={categories}
+          accounts={accounts}
+          people={people}
+          isRecurring={recurringRules.some(r => r.id === editingTransaction.recurringRuleId)}
+          onSave={handleUpdateTransaction}
+          onDelete={handleDelete}
+          onClose={() => setEditingTransaction(null)}
+          loadAttachment={loadAttachment}
+          onAddPerson={handleAddPerson}
+        />
+      )}
+
+      {/* CSV Import */}
+      {isImportOpen && (
+        <ImportWizard
+          transactions={transactions}
+          categories={categories}
+          rules={categoryRules}
+          accounts={accounts}
+          baseCurrency={baseCurrency}
+          onImport={handleImport}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+
+      {/* Backup & Export */}
+      {isDataManagerOpen && (
+        <DataManager
+          data={appData}
+          onRestore={handleRestore}
+          onClose={() => setIsDataManagerOpen(false)}
+          loadAttachment={loadAttachment}
+        />
+      )}
+
+      {/* Currencies & Exchange Rates */}
+      {isCurrencyManagerOpen && (
+        <CurrencyManager
+          settings={settings}
+          rates={exchangeRates}
+          missingCurrencies={converted.missingCurrencies}
+          onSave={saveCurrencySettings}
+          onClose={() => setIsCurrencyManagerOpen(false)}
+        />
+      )}
+
+      {/* AI Assistant */}
+      {isAssistantOpen && (
+        <AssistantPanel
+          settings={settings.ai}
+          context={assistantContext}
+          onOpenSettings={() => setIsAISettingsOpen(true)}
+          onClose={() => setIsAssistantOpen(false)}
+        />
+      )}
+
+      {/* AI Provider */}
+      {isAISettingsOpen && (
+        <AISettingsModal
+          settings={settings.ai}
+          onSave={saveAISettings}
+          onClose={() => setIsAISettingsOpen(false)}
+        />
+      )}
+
+      {/* Reminders */}
+      {isNotificationSettingsOpen && (
+        <NotificationSettingsModal
+          settings={settings.notifications}
+          onSave={saveNotificationSettings}
+          onClose={() => setIsNotificationSettingsOpen(false)}
+        />
+      )}
+
+      {/* Language */}
+      {isLanguageOpen && (
+        <LanguageModal
+          locale={locale}
+          onSave={saveLocale}
+          onClose={() => setIsLanguageOpen(false)}
+        />
+      )}
+
+      {/* Accounts */}
+      {isAccountManagerOpen && (
+        <AccountManager
+          accounts={accounts}
+          balances={accountBalances}
+          transactions={transactions}
+          baseCurrency={baseCurrency}
+          onChange={handleAccountsChange}
+          onClose={() => setIsAccountManagerOpen(false)}
+        />
+      )}
+
+      {/* Trash */}
+      {isTrashOpen && (
+        <TrashBin
+          trash={trash}
+          categories={categories}
+          onRestore={handleRestoreFromTrash}
+          onDeleteForever={handleDeleteForever}
+          onClose={() => setIsTrashOpen(false)}
+        />
+      )}
+
+      {/* Undo toast */}
+      {toast && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 bg-slate-900 text-white text-sm rounded-xl shadow-lg pl-4 pr-2 py-2 flex items-center gap-3 max-w-[90vw] animate-in fade-in slide-in-from-bottom-2 duration-200">
+          <span className="truncate">{toast.message}</span>
+          <button
+            onClick={toast.action === 'undo' ? undo : redo}
+            className="shrink-0 px-3 py-1 rounded-lg font-medium text-teal-300 hover:bg-white/10 transition-colors"
+          >
+            {toast.action === 'undo' ? t('app.undo') : t('app.redo')}
+          </button>
+        </div>
+      )}
+
+      {/* New version waiting */}
+      {applyUpdate && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-40 bg-slate-900 text-white text-sm rounded-xl shadow-lg pl-4 pr-2 py-2 flex items-center gap-3 max-w-[90vw] animate-in fade-in slide-in-from-top-2 duration-200">
+          <span className="truncate">{t('app.updateAvailable')}</span>
+          <button
+            onClick={applyUpdate}
+            className="shrink-0 px-3 py-1 rounded-lg font-medium text-teal-300 hover:bg-white/10 transition-colors flex items-center gap-1"
+          >
+            <RefreshCw className="w-3.5 h-3.5" /> {t('app.reload')}
+          </button>
+          <button onClick={() => setApplyUpdate(null)} className="shrink-0 p-1 text-slate-400 hover:text-white" title={t('app.later')}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Yearly / custom range report */}
+      {isReportOpen && (
+        <ReportView
+          transactions={personal}
+          categories={categories}
+          baseCurrency={baseCurrency}
+          initialYear={viewDate.getFullYear()}
+          onClose={() => setIsReportOpen(false)}
+        />
+      )}
+
+      {/* Recurring Rules */}
+      {isRecurringManagerOpen && (
+        <RecurringManager
+          rules={recurringRules}
+          categories={categories}
+          accounts={accounts}
+          baseCurrency={baseCurrency}
+          onChange={setRecurringRules}
+          onClose={() => setIsRecurringManagerOpen(false)}
+        />
+      )}
+
+      {/* Category Rules */}
+      {isCategoryRuleManagerOpen && (
+        <CategoryRuleManager
+          rules={categoryRules}
+          categories={categories}
+          transactions={transactions}
+          onChange={setCategoryRules}
+          onApply={handleApplyCategoryRules}
+          onClose={() => setIsCategoryRuleManagerOpen(false)}
+        />
+      )}
+
+      {/* Savings Goals */}
+      {isGoalManagerOpen && (
+        <GoalManager
+          goals={savingsGoals}
+          currency={baseCurrency}
+          currentMonth={toMonthKey(new Date())}
+          onChange={setSavingsGoals}
+          onClose={() => setIsGoalManagerOpen(false)}
+        />
+      )}
+
+      {/* Split Bills */}
+      {isSplitBalancesOpen && (
+        <SplitBalances
+          people={people}
+          balances={personBalances}
+          transactions={transactions}
+          accounts={accounts}
+          currency={baseCurrency}
+          onChangePeople={setPeople}
+          onSettle={handleSettle}
+          onClose={() => setIsSplitBalancesOpen(false)}
+        />
+      )}
+
+      {/* Category Manager */}
+      {isCategoryManagerOpen && (
+        <CategoryManager
+          categories={categories}
+          transactions={transactions}
+          onChange={setCategories}
+          onMerge={handleMergeCategories}
+          onClose={() => setIsCategoryManagerOpen(false)}
+        />
+      )}
+
       {/* Budget Modal */}
       {isBudgetModalOpen && (
-        <div className="fixed inset-0 bg-black/20 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-          <div className="bg-white rounded-2xl shadow-xl w-full max-w-sm overflow-hidden animate-in zoom-in-95 duration-200">
-            <div className="p-6">
-              <h3 className="text-lg font-bold text-slate-800 mb-2">设置月度预算</h3>
-              <p className="text-sm text-slate-500 mb-6">设置通用的月度预算标准。</p>
-              
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">本月限额 (CNY)</label>
-                  <input 
-                    type="number"
-                    value={tempBudgetInput}
-                    onChange={(e) => setTempBudgetInput(e.target.value)}
-                    className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-lg text-lg font-mono focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 outline-none"
-                    autoFocus
-                  />
-                </div>
-              </div>
-            </div>
-            <div className="bg-slate-50 px-6 py-4 flex gap-3 justify-end border-t border-slate-100">
-              <button 
-                onClick={() => setIsBudgetModalOpen(false)}
-                className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors"
-              >
-                取消
-              </button>
-              <button 
-                onClick={saveBudget}
-                className="px-4 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors"
-              >
-                保存设置
-              </button>
-            </div>
-          </div>
-        </div>
+        <BudgetModal
+          config={budgetConfig}
+          categories={categories}
+          monthLabel={formatMonth(viewDate)}
+          currency={baseCurrency}
+          isOverride={hasBudgetOverride(budgetHistory, currentMonthStr)}
+          onSave={saveBudget}
+          onClose={() => setIsBudgetModalOpen(false)}
+        />
       )}
     </div>
   );
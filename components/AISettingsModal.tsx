@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { AIProviderId, AISettings } from '../types';
+import { AI_PROVIDERS, normalizeAISettings } from '../services/advisorService';
+import { t } from '../utils/i18n';
+
+interface AISettingsModalProps {
+  settings: AISettings;
+  onSave: (settings: AISettings) => void;
+  onClose: () => void;
+}
+
+const MAX_RETRIES = 5;
+
+const inputClass = 'w-full mt-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500';
+
+const AISettingsModal: React.FC<AISettingsModalProps> = ({ settings, onSave, onClose }) => {
+  const [provider, setProvider] = useState<AIProviderId>(settings.provider);
+  const [model, setModel] = useState(settings.model);
+  const [baseUrl, setBaseUrl] = useState(settings.baseUrl);
+  // Edited in seconds, stored in milliseconds
+  const [timeout, setTimeoutSeconds] = useState(String(settings.timeoutMs / 1000));
+  const [retries, setRetries] = useState(String(settings.maxRetries));
+
+  const option = AI_PROVIDERS.find(p => p.id === provider);
+
+  const handleSave = () => {
+    onSave(normalizeAISettings({
+      provider,
+      model,
+      baseUrl,
+      timeoutMs: Math.round(parseFloat(timeout) * 1000),
+      maxRetries: Math.min(parseInt(retries, 10), MAX_RETRIES),
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6 pb-4 flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 mb-1">{t('aiSettings.title')}</h3>
+            <p className="text-sm text-slate-500">{t('aiSettings.description')}</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-4">
+          <div className="space-y-2">
+            {AI_PROVIDERS.map(p => (
+              <button
+                key={p.id}
+                type="button"
+                onClick={() => setProvider(p.id)}
+                className={`w-full text-left px-4 py-3 rounded-xl border transition-all ${
+                  provider === p.id ? 'border-teal-500 bg-teal-50/50' : 'border-slate-200 hover:border-slate-300'
+                }`}
+              >
+                <p className="text-sm font-medium text-slate-800">{t(p.name)}</p>
+                <p className="text-xs text-slate-500 mt-0.5">{t(p.description)}</p>
+              </button>
+            ))}
+          </div>
+
+          {provider === 'openai' && (
+            <label className="block text-xs font-semibold text-slate-500 uppercase">
+              {t('aiSettings.baseUrl')}
+              <input
+                type="url"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                placeholder="http://localhost:11434/v1"
+                className={inputClass}
+              />
+            </label>
+          )}
+
+          {option?.defaultModel && (
+            <label className="block text-xs font-semibold text-slate-500 uppercase">
+              {t('aiSettings.model')}
+              <input
+                type="text"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                placeholder={option.defaultModel}
+                className={inputClass}
+              />
+            </label>
+          )}
+
+          {provider !== 'rules' && (
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block text-xs font-semibold text-slate-500 uppercase">
+                {t('aiSettings.timeout')}
+                <input type="number" value={timeout} onChange={(e) => setTimeoutSeconds(e.target.value)} min="1" className={inputClass} />
+              </label>
+              <label className="block text-xs font-semibold text-slate-500 uppercase">
+                {t('aiSettings.retries')}
+                <input type="number" value={retries} onChange={(e) => setRetries(e.target.value)} min="0" max={MAX_RETRIES} className={inputClass} />
+              </label>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-slate-50 px-6 py-4 flex gap-3 justify-end border-t border-slate-100">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors"
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AISettingsModal;
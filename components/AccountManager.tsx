@@ -0,0 +1,219 @@
+import React, { useMemo, useState } from 'react';
+import { Archive, ArchiveRestore, Check, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Account, AccountType, Transaction } from '../types';
+import { involvesAccount } from '../services/accountService';
+import { formatCurrency } from '../utils/format';
+import { MessageKey, t } from '../utils/i18n';
+import CurrencySelect from './CurrencySelect';
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, MessageKey> = {
+  [AccountType.CASH]: 'accounts.cash',
+  [AccountType.DEBIT]: 'accounts.debit',
+  [AccountType.CREDIT]: 'accounts.credit',
+  [AccountType.EWALLET]: 'accounts.ewallet',
+};
+
+export const ACCOUNT_TYPE_ICONS: Record<AccountType, string> = {
+  [AccountType.CASH]: '💵',
+  [AccountType.DEBIT]: '💳',
+  [AccountType.CREDIT]: '🧾',
+  [AccountType.EWALLET]: '📱',
+};
+
+interface AccountManagerProps {
+  accounts: Account[];
+  balances: Record<string, number>;
+  transactions: Transaction[];
+  baseCurrency: string; // Default for new accounts
+  onChange: (accounts: Account[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500';
+
+const AccountManager: React.FC<AccountManagerProps> = ({ accounts, balances, transactions, baseCurrency, onChange, onClose }) => {
+  const [newName, setNewName] = useState('');
+  const [newType, setNewType] = useState<AccountType>(AccountType.DEBIT);
+  const [newCurrency, setNewCurrency] = useState(baseCurrency);
+  const [newOpening, setNewOpening] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [editingOpening, setEditingOpening] = useState('');
+
+  const usageCount = useMemo(() => {
+    const counts: Record<string, number> = {};
+    accounts.forEach(account => {
+      counts[account.id] = transactions.filter(t => involvesAccount(t, account.id)).length;
+    });
+    return counts;
+  }, [accounts, transactions]);
+
+  const activeCount = accounts.filter(a => !a.archived).length;
+  const sortedAccounts = [...accounts].sort((a, b) => Number(!!a.archived) - Number(!!b.archived));
+
+  const updateAccount = (id: string, patch: Partial<Account>) => {
+    onChange(accounts.map(a => a.id === id ? { ...a, ...patch } : a));
+  };
+
+  const startEditing = (account: Account) => {
+    setEditingId(account.id);
+    setEditingName(account.name);
+    setEditingOpening(account.openingBalance.toString());
+  };
+
+  const commitEdit = () => {
+    const name = editingName.trim();
+    const opening = parseFloat(editingOpening);
+    if (editingId && name && !isNaN(opening)) {
+      updateAccount(editingId, { name, openingBalance: opening });
+    }
+    setEditingId(null);
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    const opening = parseFloat(newOpening);
+    onChange([
+      ...accounts,
+      {
+        id: crypto.randomUUID(),
+        name,
+        type: newType,
+        currency: newCurrency,
+        openingBalance: isNaN(opening) ? 0 : opening,
+      }
+    ]);
+    setNewName('');
+    setNewOpening('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6 pb-4 flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 mb-1">{t('accounts.title')}</h3>
+            <p className="text-sm text-slate-500">{t('accounts.description')}</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-2">
+          {sortedAccounts.map(account => {
+            const balance = balances[account.id] ?? account.openingBalance;
+            const used = usageCount[account.id] > 0;
+            // The last active account cannot go away, there must be somewhere to record into
+            const canArchive = account.archived || activeCount > 1;
+            return (
+              <div key={account.id} className={`rounded-lg border border-slate-100 p-3 ${account.archived ? 'opacity-50' : ''}`}>
+                {editingId === account.id ? (
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      className={`${inputClass} flex-1 min-w-0`}
+                      autoFocus
+                    />
+                    <input
+                      type="number"
+                      value={editingOpening}
+                      onChange={(e) => setEditingOpening(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && commitEdit()}
+                      step="0.01"
+                      className={`${inputClass} w-28 font-mono`}
+                      title={t('accounts.openingBalance')}
+                    />
+                    <button onClick={commitEdit} className="p-1.5 bg-slate-900 text-white rounded">
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setEditingId(null)} className="p-1.5 text-slate-400 hover:text-slate-600">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="w-8 h-8 rounded-full bg-slate-50 flex items-center justify-center shrink-0">
+                        {ACCOUNT_TYPE_ICONS[account.type]}
+                      </span>
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-slate-700 truncate">{account.name}</p>
+                        <p className="text-xs text-slate-400">
+                          {t(ACCOUNT_TYPE_LABELS[account.type])} · {account.currency} · {t('accounts.usage', { count: usageCount[account.id] || 0 })}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <span className={`text-sm font-mono font-semibold mr-1 ${balance < 0 ? 'text-rose-500' : 'text-slate-700'}`}>
+                        {formatCurrency(balance, account.currency)}
+                      </span>
+                      <button onClick={() => startEditing(account)} className="p-1.5 text-slate-400 hover:text-slate-600 rounded" title={t('accounts.edit')}>
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      {canArchive && (
+                        <button
+                          onClick={() => updateAccount(account.id, { archived: !account.archived })}
+                          className="p-1.5 text-slate-400 hover:text-slate-600 rounded"
+                          title={account.archived ? t('accounts.restore') : t('accounts.archive')}
+                        >
+                          {account.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                        </button>
+                      )}
+                      {!used && canArchive && (
+                        <button
+                          onClick={() => onChange(accounts.filter(a => a.id !== account.id))}
+                          className="p-1.5 text-slate-400 hover:text-red-400 rounded"
+                          title={t('accounts.delete')}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <form onSubmit={handleCreate} className="bg-slate-50 px-6 py-4 border-t border-slate-100 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              placeholder={t('accounts.namePlaceholder')}
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              className={`${inputClass} col-span-2`}
+            />
+            <select value={newType} onChange={(e) => setNewType(e.target.value as AccountType)} className={inputClass}>
+              {Object.values(AccountType).map(type => (
+                <option key={type} value={type}>{ACCOUNT_TYPE_ICONS[type]} {t(ACCOUNT_TYPE_LABELS[type])}</option>
+              ))}
+            </select>
+            <CurrencySelect value={newCurrency} onChange={setNewCurrency} className={inputClass} />
+            <input
+              type="number"
+              placeholder={t('accounts.openingBalance')}
+              value={newOpening}
+              onChange={(e) => setNewOpening(e.target.value)}
+              step="0.01"
+              className={`${inputClass} font-mono`}
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors flex items-center justify-center gap-1"
+            >
+              <Plus className="w-4 h-4" /> {t('accounts.add')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AccountManager;
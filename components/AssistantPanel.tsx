@@ -0,0 +1,152 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2, MessageCircle, RotateCcw, Send, X } from 'lucide-react';
+import { AISettings } from '../types';
+import { ChatMessage, canChat } from '../services/advisorService';
+import { AssistantContext, askAssistant, loadAssistantSession, saveAssistantSession } from '../services/assistantService';
+import { MessageKey, t } from '../utils/i18n';
+
+interface AssistantPanelProps {
+  settings: AISettings;
+  context: AssistantContext;
+  onOpenSettings: () => void;
+  onClose: () => void;
+}
+
+const SUGGESTIONS: MessageKey[] = ['assistant.suggestion1', 'assistant.suggestion2', 'assistant.suggestion3'];
+
+const AssistantPanel: React.FC<AssistantPanelProps> = ({ settings, context, onOpenSettings, onClose }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>(loadAssistantSession);
+  const [input, setInput] = useState('');
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null); // Shown while it is answered
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const available = canChat(settings);
+  // Tool calls and their results stay in the history for the model, but are not shown
+  const visible = messages.filter(m => m.role === 'user' || (m.role === 'assistant' && m.text && !m.toolCalls?.length));
+
+  useEffect(() => {
+    saveAssistantSession(messages);
+  }, [messages]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [visible.length, pendingQuestion]);
+
+  const ask = async (question: string) => {
+    if (!question.trim() || pendingQuestion) return;
+    setInput('');
+    setError(null);
+    setPendingQuestion(question.trim());
+    const result = await askAssistant(settings, messages, question.trim(), context);
+    setPendingQuestion(null);
+    if (result.messages) {
+      setMessages(result.messages);
+    } else {
+      // Nothing is recorded, so the question can simply be sent again
+      setInput(question);
+      setError(result.error);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    ask(input);
+  };
+
+  const startOver = () => {
+    setMessages([]);
+    setError(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm z-50 flex justify-end" onClick={onClose}>
+      <div
+        className="bg-white shadow-xl w-full max-w-md h-full flex flex-col animate-in slide-in-from-right duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 py-4 flex items-center justify-between border-b border-slate-100">
+          <div className="flex items-center gap-2 text-violet-700 font-semibold">
+            <MessageCircle className="w-4 h-4" /> {t('assistant.title')}
+          </div>
+          <div className="flex items-center gap-1">
+            {messages.length > 0 && (
+              <button onClick={startOver} className="p-1.5 text-slate-400 hover:text-slate-600 rounded" title={t('assistant.newChat')}>
+                <RotateCcw className="w-4 h-4" />
+              </button>
+            )}
+            <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-3">
+          {visible.length === 0 && !pendingQuestion && (
+            <div className="text-sm text-slate-500 space-y-3">
+              <p>{t('assistant.intro')}</p>
+              {available && (
+                <div className="flex flex-wrap gap-2">
+                  {SUGGESTIONS.map(key => t(key)).map(suggestion => (
+                    <button
+                      key={suggestion}
+                      onClick={() => ask(suggestion)}
+                      className="px-3 py-1.5 text-xs rounded-full border border-violet-200 text-violet-600 hover:bg-violet-50 transition-colors text-left"
+                    >
+                      {suggestion}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {[...visible, ...(pendingQuestion ? [{ role: 'user', text: pendingQuestion }] : [])].map((message, index) => (
+            <div key={index} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[85%] px-3 py-2 rounded-2xl text-sm whitespace-pre-wrap leading-relaxed ${
+                message.role === 'user' ? 'bg-slate-900 text-white rounded-br-sm' : 'bg-slate-100 text-slate-700 rounded-bl-sm'
+              }`}>
+                {message.text}
+              </div>
+            </div>
+          ))}
+
+          {pendingQuestion && (
+            <div className="flex items-center gap-2 text-xs text-slate-400">
+              <Loader2 className="w-3.5 h-3.5 animate-spin" /> {t('assistant.thinking')}
+            </div>
+          )}
+          {error && <p className="text-xs text-rose-500">{error}</p>}
+          <div ref={bottomRef} />
+        </div>
+
+        {available ? (
+          <form onSubmit={handleSubmit} className="px-5 py-4 border-t border-slate-100 flex gap-2">
+            <input
+              type="text"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder={t('assistant.placeholder')}
+              className="flex-1 min-w-0 px-4 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-violet-500/20 focus:border-violet-500"
+            />
+            <button
+              type="submit"
+              disabled={!!pendingQuestion || !input.trim()}
+              className="px-3 py-2 bg-violet-600 text-white rounded-lg hover:bg-violet-700 transition-colors disabled:opacity-50"
+              title={t('assistant.send')}
+            >
+              <Send className="w-4 h-4" />
+            </button>
+          </form>
+        ) : (
+          <div className="px-5 py-4 border-t border-slate-100 text-xs text-slate-500">
+            {t('assistant.unavailable')}
+            <button onClick={onOpenSettings} className="text-violet-600 hover:underline ml-1">{t('assistant.openSettings')}</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AssistantPanel;
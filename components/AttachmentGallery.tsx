@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { ImageOff, X } from 'lucide-react';
+import { Attachment } from '../types';
+import { t } from '../utils/i18n';
+
+interface AttachmentGalleryProps {
+  attachmentIds: string[];
+  loadAttachment: (id: string) => Promise<Attachment | undefined>;
+}
+
+// Attachments are read only when shown, since they are kept out of the main data
+const AttachmentGallery: React.FC<AttachmentGalleryProps> = ({ attachmentIds, loadAttachment }) => {
+  const [loaded, setLoaded] = useState<Record<string, Attachment | null>>({});
+  const [viewing, setViewing] = useState<Attachment | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(attachmentIds.map(id => loadAttachment(id).catch(() => undefined)))
+      .then(results => {
+        if (cancelled) return;
+        const next: Record<string, Attachment | null> = {};
+        attachmentIds.forEach((id, i) => { next[id] = results[i] || null; });
+        setLoaded(next);
+      });
+    return () => { cancelled = true; };
+  }, [attachmentIds, loadAttachment]);
+
+  return (
+    <>
+      <div className="flex gap-2 flex-wrap">
+        {attachmentIds.map(id => {
+          const attachment = loaded[id];
+          if (attachment === undefined) {
+            return <div key={id} className="w-16 h-16 rounded-lg bg-slate-100 animate-pulse" />;
+          }
+          if (attachment === null) {
+            return (
+              <div key={id} className="w-16 h-16 rounded-lg bg-slate-50 border border-slate-200 flex items-center justify-center text-slate-300" title={t('attachments.missing')}>
+                <ImageOff className="w-5 h-5" />
+              </div>
+            );
+          }
+          return (
+            <button key={id} type="button" onClick={() => setViewing(attachment)} title={attachment.name}>
+              <img src={attachment.dataUrl} alt={attachment.name} className="w-16 h-16 object-cover rounded-lg border border-slate-200 hover:opacity-80 transition-opacity" />
+            </button>
+          );
+        })}
+      </div>
+
+      {viewing && (
+        <div className="fixed inset-0 bg-black/70 z-[60] flex items-center justify-center p-4" onClick={() => setViewing(null)}>
+          <button type="button" className="absolute top-4 right-4 p-2 text-white/80 hover:text-white" title={t('attachments.close')}>
+            <X className="w-6 h-6" />
+          </button>
+          <img src={viewing.dataUrl} alt={viewing.name} className="max-w-full max-h-full rounded-lg shadow-xl" />
+        </div>
+      )}
+    </>
+  );
+};
+
+export default AttachmentGallery;
@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from 'react';
+import { BudgetConfig, BudgetScope, Category, TransactionType } from '../types';
+import { formatCurrency } from '../utils/format';
+import { MessageKey, t } from '../utils/i18n';
+
+interface BudgetModalProps {
+  config: BudgetConfig;
+  categories: Category[];
+  monthLabel: string;
+  currency: string; // Base currency the limits are in
+  isOverride: boolean; // Whether the month currently has a "this month only" budget
+  onSave: (config: BudgetConfig, scope: BudgetScope) => void;
+  onClose: () => void;
+}
+
+const toInput = (value: number | undefined) => (value ? value.toString() : '');
+
+const BudgetModal: React.FC<BudgetModalProps> = ({ config, categories, monthLabel, currency, isOverride, onSave, onClose }) => {
+  const [scope, setScope] = useState<BudgetScope>(isOverride ? 'month' : 'onward');
+  const [capInput, setCapInput] = useState(toInput(config.monthlyLimit));
+  const [limitInputs, setLimitInputs] = useState<Record<string, string>>(() => {
+    const inputs: Record<string, string> = {};
+    Object.entries<number>(config.categoryLimits).forEach(([id, limit]) => {
+      inputs[id] = toInput(limit);
+    });
+    return inputs;
+  });
+
+  // Archived categories stay listed while they still carry a limit so it can be cleared
+  const expenseCategories = categories.filter(
+    c => c.kind === TransactionType.EXPENSE && (!c.archived || config.categoryLimits[c.id])
+  );
+
+  const categoryTotal = useMemo((): number => {
+    return Object.values<string>(limitInputs).reduce((sum, value) => {
+      const parsed = parseFloat(value);
+      return sum + (isNaN(parsed) || parsed <= 0 ? 0 : parsed);
+    }, 0);
+  }, [limitInputs]);
+
+  const cap = parseFloat(capInput);
+  const hasCap = !isNaN(cap) && cap > 0;
+  const capTooLow = hasCap && cap < categoryTotal;
+  const effectiveTotal = hasCap ? Math.max(cap, categoryTotal) : categoryTotal;
+
+  const handleSave = () => {
+    if (capTooLow || effectiveTotal <= 0) return;
+    const categoryLimits: Record<string, number> = {};
+    Object.entries<string>(limitInputs).forEach(([id, value]) => {
+      const parsed = parseFloat(value);
+      if (!isNaN(parsed) && parsed > 0) {
+        categoryLimits[id] = parsed;
+      }
+    });
+    onSave({ monthlyLimit: hasCap ? cap : 0, categoryLimits }, scope);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-sm max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6 overflow-y-auto">
+          <h3 className="text-lg font-bold text-slate-800 mb-2">{t('budget.title', { month: monthLabel })}</h3>
+          <p className="text-sm text-slate-500 mb-6">{t('budget.description')}</p>
+
+          <div className="space-y-4">
+            <div className="flex bg-slate-50 rounded-lg p-1 border border-slate-200">
+              {([['month', 'budget.scopeMonth'], ['onward', 'budget.scopeOnward']] as [BudgetScope, MessageKey][]).map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setScope(value)}
+                  className={`flex-1 py-1.5 text-sm font-medium rounded-md transition-all ${
+                    scope === value ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  {t(label)}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400 -mt-2">
+              {scope === 'month'
+                ? t('budget.scopeMonthHint', { month: monthLabel })
+                : t('budget.scopeOnwardHint', { month: monthLabel })}
+            </p>
+
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{t('budget.cap', { currency })}</label>
+              <input
+                type="number"
+                value={capInput}
+                onChange={(e) => setCapInput(e.target.value)}
+                placeholder={categoryTotal > 0 ? categoryTotal.toString() : '0'}
+                className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-lg text-lg font-mono focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 outline-none"
+                autoFocus
+              />
+              {capTooLow && (
+                <p className="text-xs text-rose-500 mt-1">{t('budget.capTooLow', { amount: formatCurrency(categoryTotal, currency) })}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase mb-2">{t('budget.categoryLimits')}</label>
+              <div className="space-y-2">
+                {expenseCategories.map(cat => (
+                  <div key={cat.id} className="flex items-center gap-3">
+                    <span className="flex-1 text-sm text-slate-700 truncate">{cat.icon} {cat.name}</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={limitInputs[cat.id] || ''}
+                      onChange={(e) => setLimitInputs(prev => ({ ...prev, [cat.id]: e.target.value }))}
+                      placeholder={t('budget.noLimit')}
+                      className="w-28 px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm font-mono focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 outline-none"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-between text-sm bg-slate-50 rounded-lg px-3 py-2">
+              <span className="text-slate-500">{t('budget.total')}</span>
+              <span className="font-mono font-semibold text-slate-700">{formatCurrency(effectiveTotal, currency)}</span>
+            </div>
+          </div>
+        </div>
+        <div className="bg-slate-50 px-6 py-4 flex gap-3 justify-end border-t border-slate-100">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={capTooLow || effectiveTotal <= 0}
+            className="px-4 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors disabled:opacity-40"
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BudgetModal;
@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import { Archive, ArchiveRestore, Check, GitMerge, Plus, X } from 'lucide-react';
+import { Category, Transaction, TransactionType } from '../types';
+import { isFallbackCategory } from '../services/categoryService';
+import { t } from '../utils/i18n';
+
+const ICON_OPTIONS = ['🍜', '☕', '🚕', '🛍️', '🏠', '🎮', '💊', '📚', '✈️', '🐱', '👶', '📱', '💼', '🎁', '📈', '📦', '💰'];
+const COLOR_OPTIONS = ['#f97316', '#f59e0b', '#10b981', '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899', '#ef4444', '#64748b'];
+
+interface CategoryManagerProps {
+  categories: Category[];
+  transactions: Transaction[];
+  onChange: (categories: Category[]) => void;
+  onMerge: (sourceId: string, targetId: string) => void;
+  onClose: () => void;
+}
+
+const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, transactions, onChange, onMerge, onClose }) => {
+  const [kind, setKind] = useState<TransactionType>(TransactionType.EXPENSE);
+  const [newName, setNewName] = useState('');
+  const [newIcon, setNewIcon] = useState(ICON_OPTIONS[0]);
+  const [newColor, setNewColor] = useState(COLOR_OPTIONS[0]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+
+  const usageCount = useMemo(() => {
+    const counts: Record<string, number> = {};
+    transactions.forEach(t => {
+      counts[t.categoryId] = (counts[t.categoryId] || 0) + 1;
+    });
+    return counts;
+  }, [transactions]);
+
+  const visibleCategories = categories
+    .filter(c => c.kind === kind)
+    .sort((a, b) => Number(!!a.archived) - Number(!!b.archived));
+
+  const updateCategory = (id: string, patch: Partial<Category>) => {
+    onChange(categories.map(c => c.id === id ? { ...c, ...patch } : c));
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    onChange([
+      ...categories,
+      { id: crypto.randomUUID(), name, icon: newIcon, color: newColor, kind }
+    ]);
+    setNewName('');
+  };
+
+  const commitRename = () => {
+    const name = editingName.trim();
+    if (editingId && name) {
+      updateCategory(editingId, { name });
+    }
+    setEditingId(null);
+  };
+
+  const confirmMerge = () => {
+    if (mergingId && mergeTargetId) {
+      onMerge(mergingId, mergeTargetId);
+    }
+    setMergingId(null);
+    setMergeTargetId('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6 pb-4 flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 mb-1">{t('categories.title')}</h3>
+            <p className="text-sm text-slate-500">{t('categories.description')}</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6">
+          <div className="flex bg-slate-50 rounded-lg p-1 border border-slate-200">
+            {[TransactionType.EXPENSE, TransactionType.INCOME].map(k => (
+              <button
+                key={k}
+                type="button"
+                onClick={() => { setKind(k); setMergingId(null); }}
+                className={`flex-1 py-1.5 text-sm font-medium rounded-md transition-all ${
+                  kind === k ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {k === TransactionType.EXPENSE ? t('categories.expense') : t('categories.income')}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-2">
+          {visibleCategories.map(cat => (
+            <div key={cat.id} className={`rounded-lg border border-slate-100 p-3 ${cat.archived ? 'opacity-50' : ''}`}>
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span
+                    className="w-8 h-8 rounded-full flex items-center justify-center shrink-0"
+                    style={{ backgroundColor: `${cat.color}22` }}
+                  >
+                    {cat.icon}
+                  </span>
+                  {editingId === cat.id ? (
+                    <input
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => e.key === 'Enter' && commitRename()}
+                      className="px-2 py-1 text-sm border border-slate-200 rounded focus:outline-none focus:border-teal-500"
+                      autoFocus
+                    />
+                  ) : (
+                    <button
+                      onClick={() => { setEditingId(cat.id); setEditingName(cat.name); }}
+                      className="text-sm font-medium text-slate-700 truncate hover:underline"
+                      title={t('categories.rename')}
+                    >
+                      {cat.name}
+                    </button>
+                  )}
+                  <span className="text-xs text-slate-400 shrink-0">{t('categories.usage', { count: usageCount[cat.id] || 0 })}</span>
+                </div>
+                {!isFallbackCategory(cat.id) && (
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      onClick={() => { setMergingId(cat.id); setMergeTargetId(''); }}
+                      className="p-1.5 text-slate-400 hover:text-slate-600 rounded"
+                      title={t('categories.merge')}
+                    >
+                      <GitMerge className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => updateCategory(cat.id, { archived: !cat.archived })}
+                      className="p-1.5 text-slate-400 hover:text-slate-600 rounded"
+                      title={cat.archived ? t('categories.restore') : t('categories.archive')}
+                    >
+                      {cat.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {mergingId === cat.id && (
+                <div className="mt-3 flex items-center gap-2">
+                  <select
+                    value={mergeTargetId}
+                    onChange={(e) => setMergeTargetId(e.target.value)}
+                    className="flex-1 px-2 py-1.5 text-sm bg-slate-50 border border-slate-200 rounded focus:outline-none"
+                  >
+                    <option value="">{t('categories.mergeInto')}</option>
+                    {categories
+                      .filter(c => c.kind === kind && c.id !== cat.id && !c.archived)
+                      .map(c => (
+                        <option key={c.id} value={c.id}>{c.icon} {c.name}</option>
+                      ))}
+                  </select>
+                  <button
+                    onClick={confirmMerge}
+                    disabled={!mergeTargetId}
+                    className="p-1.5 bg-slate-900 text-white rounded disabled:opacity-40"
+                  >
+                    <Check className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => setMergingId(null)} className="p-1.5 text-slate-400 hover:text-slate-600">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleCreate} className="bg-slate-50 px-6 py-4 border-t border-slate-100 space-y-3">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              placeholder={t('categories.newName')}
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              className="flex-1 px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500"
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" /> {t('categories.add')}
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {ICON_OPTIONS.map(icon => (
+              <button
+                key={icon}
+                type="button"
+                onClick={() => setNewIcon(icon)}
+                className={`w-8 h-8 rounded-lg text-base ${newIcon === icon ? 'bg-white ring-2 ring-teal-500' : 'hover:bg-white'}`}
+              >
+                {icon}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            {COLOR_OPTIONS.map(color => (
+              <button
+                key={color}
+                type="button"
+                onClick={() => setNewColor(color)}
+                className={`w-6 h-6 rounded-full ${newColor === color ? 'ring-2 ring-offset-2 ring-slate-400' : ''}`}
+                style={{ backgroundColor: color }}
+              />
+            ))}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryManager;
@@ -0,0 +1,390 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowLeft, ArrowUp, Pencil, Plus, RefreshCw, Trash2, X } from 'lucide-react';
+import { Category, CategoryRule, RuleMatchMode, Transaction, TransactionType } from '../types';
+import {
+  RuleChange,
+  createCategoryRule,
+  isValidPattern,
+  matchesRule,
+  previewRuleChanges
+} from '../services/categoryRuleService';
+import { getFallbackCategoryId } from '../services/categoryService';
+import { parseTagInput } from '../services/searchService';
+import { formatDate } from '../utils/format';
+import { t } from '../utils/i18n';
+import { toDateKey } from '../utils/date';
+
+interface CategoryRuleManagerProps {
+  rules: CategoryRule[];
+  categories: Category[];
+  transactions: Transaction[];
+  onChange: (rules: CategoryRule[]) => void;
+  onApply: (changes: RuleChange[]) => void;
+  onClose: () => void;
+}
+
+type View = 'rules' | 'apply';
+
+const REAPPLY_MONTHS = [1, 3, 6, 12];
+
+const inputClass = 'w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500';
+
+const parseAmount = (value: string) => {
+  const amount = parseFloat(value);
+  return isNaN(amount) || amount < 0 ? undefined : amount;
+};
+
+const describeAmount = (rule: CategoryRule) => {
+  if (rule.minAmount !== undefined && rule.maxAmount !== undefined) return `${rule.minAmount} – ${rule.maxAmount}`;
+  if (rule.minAmount !== undefined) return `≥ ${rule.minAmount}`;
+  if (rule.maxAmount !== undefined) return `≤ ${rule.maxAmount}`;
+  return '';
+};
+
+const CategoryRuleManager: React.FC<CategoryRuleManagerProps> = ({ rules, categories, transactions, onChange, onApply, onClose }) => {
+  const [view, setView] = useState<View>('rules');
+  // The rule in the form; its id is already in `rules` while editing
+  const [draft, setDraft] = useState<CategoryRule>(() => createCategoryRule(getFallbackCategoryId(TransactionType.EXPENSE), TransactionType.EXPENSE));
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [tagInput, setTagInput] = useState('');
+  const [months, setMonths] = useState(3);
+  const [changes, setChanges] = useState<RuleChange[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const categoryMap = new Map<string, Category>(categories.map(c => [c.id, c]));
+  const isEditing = rules.some(r => r.id === draft.id);
+  const patternValid = isValidPattern(draft);
+
+  const draftRule: CategoryRule = {
+    ...draft,
+    minAmount: parseAmount(minAmount),
+    maxAmount: parseAmount(maxAmount),
+    tags: parseTagInput(tagInput),
+  };
+
+  // A live check of what the rule would catch among existing records
+  const matchCount = useMemo(() => {
+    if (!patternValid) return 0;
+    return transactions.filter(tx => matchesRule({ ...draftRule, enabled: true }, tx)).length;
+  }, [transactions, patternValid, draft, minAmount, maxAmount]);
+
+  const resetForm = (type = draft.type) => {
+    setDraft(createCategoryRule(getFallbackCategoryId(type), type));
+    setMinAmount('');
+    setMaxAmount('');
+    setTagInput('');
+  };
+
+  const startEdit = (rule: CategoryRule) => {
+    setDraft(rule);
+    setMinAmount(rule.minAmount !== undefined ? String(rule.minAmount) : '');
+    setMaxAmount(rule.maxAmount !== undefined ? String(rule.maxAmount) : '');
+    setTagInput(rule.tags.join(' '));
+  };
+
+  const changeType = (type: TransactionType) => {
+    setDraft({ ...draft, type, categoryId: getFallbackCategoryId(type) });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!patternValid) return;
+    const rule = { ...draftRule, pattern: draftRule.pattern.trim() };
+    onChange(isEditing ? rules.map(r => r.id === rule.id ? rule : r) : [...rules, rule]);
+    resetForm();
+  };
+
+  const updateRule = (id: string, patch: Partial<CategoryRule>) => {
+    onChange(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const next = [...rules];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const deleteRule = (id: string) => {
+    onChange(rules.filter(r => r.id !== id));
+    if (draft.id === id) resetForm();
+  };
+
+  const preview = (monthCount: number) => {
+    const from = new Date();
+    from.setMonth(from.getMonth() - monthCount);
+    const found = previewRuleChanges(transactions, rules, categories, toDateKey(from));
+    setMonths(monthCount);
+    setChanges(found);
+    setSelected(new Set(found.map(c => c.before.id)));
+    setView('apply');
+  };
+
+  const toggleChange = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const categoryLabel = (id: string) => {
+    const category = categoryMap.get(id);
+    return category ? `${category.icon} ${category.name}` : t('common.uncategorized');
+  };
+
+  const selectedChanges = changes.filter(c => selected.has(c.before.id));
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6 pb-4 flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 mb-1">
+              {view === 'rules' ? t('categoryRules.title') : t('categoryRules.reapplyTitle')}
+            </h3>
+            <p className="text-sm text-slate-500">
+              {view === 'rules'
+                ? t('categoryRules.description')
+                : t('categoryRules.reapplyDescription', { count: months })}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {view === 'rules' ? (
+          <>
+            <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-2">
+              {rules.length === 0 && (
+                <div className="text-center py-6 text-sm text-slate-400 border border-dashed border-slate-200 rounded-lg">
+                  {t('categoryRules.empty')}
+                </div>
+              )}
+              {rules.map((rule, index) => (
+                <div
+                  key={rule.id}
+                  className={`rounded-lg border p-3 ${draft.id === rule.id ? 'border-teal-500' : 'border-slate-100'} ${rule.enabled ? '' : 'opacity-50'}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <label className="flex items-center gap-2 min-w-0">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                        title={t('categoryRules.enabled')}
+                      />
+                      <span className="min-w-0">
+                        <span className="block text-sm text-slate-700 truncate">
+                          {rule.matchMode === 'regex' ? t('categoryRules.regex') : t('categoryRules.contains')}{' '}
+                          <span className="font-mono font-medium">{rule.pattern}</span>
+                          {' → '}{categoryLabel(rule.categoryId)}
+                        </span>
+                        <span className="block text-xs text-slate-400 truncate">
+                          {[
+                            rule.type === TransactionType.INCOME ? t('type.income') : t('type.expense'),
+                            describeAmount(rule),
+                            rule.tags.map(tag => `#${tag}`).join(' '),
+                          ].filter(Boolean).join(' · ')}
+                        </span>
+                      </span>
+                    </label>
+                    <div className="flex items-center shrink-0">
+                      <button
+                        onClick={() => moveRule(index, -1)}
+                        disabled={index === 0}
+                        className="p-1 text-slate-400 hover:text-slate-600 disabled:text-slate-200"
+                        title={t('categoryRules.moveUp')}
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => moveRule(index, 1)}
+                        disabled={index === rules.length - 1}
+                        className="p-1 text-slate-400 hover:text-slate-600 disabled:text-slate-200"
+                        title={t('categoryRules.moveDown')}
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => startEdit(rule)} className="p-1 text-slate-400 hover:text-slate-600" title={t('categoryRules.edit')}>
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => deleteRule(rule.id)} className="p-1 text-slate-400 hover:text-red-400" title={t('categoryRules.delete')}>
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+
+              {rules.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 pt-2 text-xs text-slate-500">
+                  <RefreshCw className="w-3.5 h-3.5" /> {t('categoryRules.reapply')}
+                  {REAPPLY_MONTHS.map(count => (
+                    <button
+                      key={count}
+                      onClick={() => preview(count)}
+                      className="shrink-0 px-3 py-1 text-xs rounded-full border border-slate-200 text-slate-600 hover:border-slate-300"
+                    >
+                      {t('categoryRules.months', { count })}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <form onSubmit={handleSubmit} className="bg-slate-50 px-6 py-4 border-t border-slate-100 space-y-3">
+              <div className="flex bg-white rounded-lg p-1 border border-slate-200">
+                <button
+                  type="button"
+                  onClick={() => changeType(TransactionType.EXPENSE)}
+                  className={`flex-1 py-1.5 text-sm font-medium rounded-md transition-all ${
+                    draft.type === TransactionType.EXPENSE ? 'bg-rose-50 text-rose-500' : 'text-slate-500'
+                  }`}
+                >
+                  {t('type.expense')}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => changeType(TransactionType.INCOME)}
+                  className={`flex-1 py-1.5 text-sm font-medium rounded-md transition-all ${
+                    draft.type === TransactionType.INCOME ? 'bg-teal-50 text-teal-600' : 'text-slate-500'
+                  }`}
+                >
+                  {t('type.income')}
+                </button>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="col-span-2 flex gap-2">
+                  <select
+                    value={draft.matchMode}
+                    onChange={(e) => setDraft({ ...draft, matchMode: e.target.value as RuleMatchMode })}
+                    className="px-2 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none"
+                  >
+                    <option value="contains">{t('categoryRules.contains')}</option>
+                    <option value="regex">{t('categoryRules.regex')}</option>
+                  </select>
+                  <input
+                    type="text"
+                    value={draft.pattern}
+                    onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+                    placeholder={draft.matchMode === 'regex' ? t('categoryRules.regexPlaceholder') : t('categoryRules.patternPlaceholder')}
+                    className={`${inputClass} font-mono`}
+                    required
+                  />
+                </div>
+                <input
+                  type="number"
+                  placeholder={t('categoryRules.minAmount')}
+                  value={minAmount}
+                  onChange={(e) => setMinAmount(e.target.value)}
+                  step="0.01"
+                  min="0"
+                  className={`${inputClass} font-mono`}
+                />
+                <input
+                  type="number"
+                  placeholder={t('categoryRules.maxAmount')}
+                  value={maxAmount}
+                  onChange={(e) => setMaxAmount(e.target.value)}
+                  step="0.01"
+                  min="0"
+                  className={`${inputClass} font-mono`}
+                />
+                <select value={draft.categoryId} onChange={(e) => setDraft({ ...draft, categoryId: e.target.value })} className={inputClass}>
+                  {categories.filter(c => c.kind === draft.type && !c.archived).map(c => (
+                    <option key={c.id} value={c.id}>{c.icon} {c.name}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  placeholder={t('categoryRules.tagsPlaceholder')}
+                  value={tagInput}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              {draft.pattern.trim() && (
+                <p className={`text-xs ${patternValid ? 'text-slate-500' : 'text-rose-500'}`}>
+                  {patternValid ? t('categoryRules.matchCount', { count: matchCount }) : t('categoryRules.invalidRegex')}
+                </p>
+              )}
+              <div className="flex gap-2">
+                {isEditing && (
+                  <button
+                    type="button"
+                    onClick={() => resetForm()}
+                    className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors"
+                  >
+                    {t('common.cancel')}
+                  </button>
+                )}
+                <button
+                  type="submit"
+                  disabled={!patternValid}
+                  className="flex-1 px-4 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors flex items-center justify-center gap-1 disabled:opacity-40"
+                >
+                  {isEditing ? t('categoryRules.update') : <><Plus className="w-4 h-4" /> {t('categoryRules.add')}</>}
+                </button>
+              </div>
+            </form>
+          </>
+        ) : (
+          <>
+            <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-2">
+              {changes.length === 0 ? (
+                <div className="text-center py-6 text-sm text-slate-400 border border-dashed border-slate-200 rounded-lg">
+                  {t('categoryRules.noChanges')}
+                </div>
+              ) : (
+                changes.map(change => {
+                  const addedTags = (change.after.tags || []).filter(tag => !(change.before.tags || []).includes(tag));
+                  return (
+                    <label key={change.before.id} className="flex items-start gap-2 rounded-lg border border-slate-100 p-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(change.before.id)}
+                        onChange={() => toggleChange(change.before.id)}
+                        className="mt-1"
+                      />
+                      <span className="min-w-0 text-sm">
+                        <span className="block text-slate-700 truncate">{change.before.title}</span>
+                        <span className="block text-xs text-slate-400">
+                          {formatDate(change.before.date)}
+                          {change.before.categoryId !== change.after.categoryId && (
+                            <> · {categoryLabel(change.before.categoryId)} → <span className="text-teal-600">{categoryLabel(change.after.categoryId)}</span></>
+                          )}
+                          {addedTags.length > 0 && <> · <span className="text-teal-600">{addedTags.map(tag => `+#${tag}`).join(' ')}</span></>}
+                        </span>
+                      </span>
+                    </label>
+                  );
+                })
+              )}
+            </div>
+
+            <div className="bg-slate-50 px-6 py-4 flex gap-3 justify-between border-t border-slate-100">
+              <button
+                onClick={() => setView('rules')}
+                className="px-3 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors flex items-center gap-1"
+              >
+                <ArrowLeft className="w-4 h-4" /> {t('categoryRules.back')}
+              </button>
+              <button
+                onClick={() => onApply(selectedChanges)}
+                disabled={selectedChanges.length === 0}
+                className="px-4 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors disabled:opacity-40"
+              >
+                {t('categoryRules.apply', { count: selectedChanges.length })}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CategoryRuleManager;
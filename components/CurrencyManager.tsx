@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { AppSettings, ExchangeRate } from '../types';
+import { getCurrencyName, rebaseExchangeRates } from '../services/currencyService';
+import { t } from '../utils/i18n';
+import CurrencySelect from './CurrencySelect';
+
+interface CurrencyManagerProps {
+  settings: AppSettings;
+  rates: ExchangeRate[];
+  missingCurrencies: string[]; // Used in transactions but without any rate
+  // `conversionRate` is what one unit of the previous base is worth in the new one, 1 when unchanged
+  onSave: (settings: AppSettings, rates: ExchangeRate[], conversionRate: number) => void;
+  onClose: () => void;
+}
+
+// Rates are edited as text so a half-typed number does not jump around
+interface RateDraft {
+  id: string;
+  currency: string;
+  rate: string;
+  date: string;
+}
+
+const inputClass = 'px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500';
+
+const toDrafts = (rates: ExchangeRate[]): RateDraft[] => rates.map(r => ({
+  id: r.id,
+  currency: r.currency,
+  rate: r.rate.toString(),
+  date: r.date || '',
+}));
+
+const CurrencyManager: React.FC<CurrencyManagerProps> = ({ settings, rates, missingCurrencies, onSave, onClose }) => {
+  const [baseCurrency, setBaseCurrency] = useState(settings.baseCurrency);
+  const [drafts, setDrafts] = useState<RateDraft[]>(() => {
+    const existing = toDrafts(rates);
+    // Pre-fill rows for currencies that still need a rate
+    const prefilled = missingCurrencies
+      .filter(code => !existing.some(d => d.currency === code))
+      .map(code => ({ id: crypto.randomUUID(), currency: code, rate: '', date: '' }));
+    return [...existing, ...prefilled];
+  });
+  const [error, setError] = useState<string | null>(null);
+  // Builds up across several switches, so stored amounts are converted once on save
+  const [conversionRate, setConversionRate] = useState(1);
+
+  const parseDrafts = (): ExchangeRate[] => drafts
+    .map(d => ({ id: d.id, currency: d.currency, rate: parseFloat(d.rate), date: d.date || undefined }))
+    .filter(r => r.currency !== baseCurrency && !isNaN(r.rate) && r.rate > 0);
+
+  const updateDraft = (id: string, patch: Partial<RateDraft>) => {
+    setDrafts(prev => prev.map(d => d.id === id ? { ...d, ...patch } : d));
+  };
+
+  const addDraft = () => {
+    const used = new Set(drafts.map(d => d.currency));
+    const currency = ['USD', 'EUR', 'JPY', 'HKD'].find(code => code !== baseCurrency && !used.has(code)) || 'USD';
+    setDrafts(prev => [...prev, { id: crypto.randomUUID(), currency, rate: '', date: '' }]);
+  };
+
+  // Switching the base re-expresses every rate, so the new base needs a default rate first
+  const changeBase = (next: string) => {
+    const rebased = rebaseExchangeRates(parseDrafts(), baseCurrency, next);
+    if (!rebased) {
+      setError(t('currency.missingDefaultRate', { currency: next }));
+      return;
+    }
+    setError(null);
+    setConversionRate(prev => next === settings.baseCurrency ? 1 : prev * rebased.find(r => r.currency === baseCurrency && !r.date)!.rate);
+    setBaseCurrency(next);
+    setDrafts(toDrafts(rebased));
+  };
+
+  const handleSave = () => {
+    onSave({ ...settings, baseCurrency }, parseDrafts(), conversionRate);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6 pb-4 flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 mb-1">{t('currency.title')}</h3>
+            <p className="text-sm text-slate-500">{t('currency.description')}</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-4">
+          <label className="block text-xs font-semibold text-slate-500 uppercase">
+            {t('currency.base')}
+            <CurrencySelect value={baseCurrency} onChange={changeBase} className={`${inputClass} w-full mt-1`} />
+          </label>
+          {error && <p className="text-xs text-rose-500 -mt-2">{error}</p>}
+
+          <div>
+            <h4 className="text-xs font-semibold text-slate-500 uppercase mb-2">{t('currency.rates')}</h4>
+            <p className="text-xs text-slate-400 mb-2">{t('currency.ratesHint')}</p>
+            <div className="space-y-2">
+              {drafts.filter(d => d.currency !== baseCurrency).map(draft => (
+                <div key={draft.id} className="flex items-center gap-1.5 text-sm">
+                  <span className="text-slate-400 shrink-0">1</span>
+                  <CurrencySelect
+                    value={draft.currency}
+                    onChange={(currency) => updateDraft(draft.id, { currency })}
+                    showNames={false}
+                    className={inputClass}
+                  />
+                  <span className="text-slate-400 shrink-0">=</span>
+                  <input
+                    type="number"
+                    value={draft.rate}
+                    onChange={(e) => updateDraft(draft.id, { rate: e.target.value })}
+                    step="any"
+                    min="0"
+                    placeholder={t('currency.rate')}
+                    className={`${inputClass} w-24 font-mono ${draft.rate ? '' : 'border-amber-300'}`}
+                  />
+                  <span className="text-slate-500 shrink-0">{baseCurrency}</span>
+                  <input
+                    type="date"
+                    value={draft.date}
+                    onChange={(e) => updateDraft(draft.id, { date: e.target.value })}
+                    className={`${inputClass} flex-1 min-w-0`}
+                  />
+                  <button
+                    onClick={() => setDrafts(prev => prev.filter(d => d.id !== draft.id))}
+                    className="p-1.5 text-slate-400 hover:text-red-400 rounded shrink-0"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={addDraft}
+              className="mt-2 text-sm text-teal-600 hover:text-teal-700 flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" /> {t('currency.addRate')}
+            </button>
+          </div>
+
+          {missingCurrencies.length > 0 && (
+            <p className="text-xs text-amber-600">
+              {t('currency.missingRates', { currencies: missingCurrencies.map(getCurrencyName).join(t('common.listSeparator')) })}
+            </p>
+          )}
+        </div>
+
+        <div className="bg-slate-50 px-6 py-4 flex gap-3 justify-end border-t border-slate-100">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors"
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CurrencyManager;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { SUPPORTED_CURRENCIES, getCurrencyName } from '../services/currencyService';
+
+interface CurrencySelectProps {
+  value: string;
+  onChange: (currency: string) => void;
+  className?: string;
+  showNames?: boolean; // Compact pickers show only the code
+  disabled?: boolean;
+}
+
+const CurrencySelect: React.FC<CurrencySelectProps> = ({ value, onChange, className, showNames = true, disabled }) => {
+  // Keep a currency from imported or restored data selectable even if it is not in the list
+  const codes = [...SUPPORTED_CURRENCIES];
+  if (value && !codes.includes(value)) codes.push(value);
+
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={className} disabled={disabled}>
+      {codes.map(code => (
+        <option key={code} value={code}>{showNames ? `${code} · ${getCurrencyName(code)}` : code}</option>
+      ))}
+    </select>
+  );
+};
+
+export default CurrencySelect;
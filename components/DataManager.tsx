@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { Download, FileSpreadsheet, Upload, X } from 'lucide-react';
+import { AppData, Attachment, BackupFile } from '../types';
+import {
+  EntityChangeSummary,
+  RestoreMode,
+  createBackup,
+  getAttachmentIds,
+  summarizeRestore,
+  validateBackup
+} from '../services/backupService';
+import { filterByDateRange, transactionsToCsv, transactionsToSpreadsheetXml } from '../services/exportService';
+import { downloadFile } from '../utils/download';
+import { toDateKey } from '../utils/date';
+import { formatDateTime } from '../utils/format';
+import { MessageKey, t } from '../utils/i18n';
+
+type ExportFormat = 'csv' | 'xls';
+
+interface DataManagerProps {
+  data: AppData;
+  onRestore: (backup: BackupFile, mode: RestoreMode) => void;
+  onClose: () => void;
+  loadAttachment: (id: string) => Promise<Attachment | undefined>;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500';
+
+type SummaryKey = 'transactions' | 'categories' | 'recurringRules' | 'categoryRules' | 'savingsGoals' | 'people' | 'accounts' | 'savedFilters' | 'exchangeRates' | 'trash';
+
+const SUMMARY_ROWS: { key: SummaryKey; label: MessageKey }[] = [
+  { key: 'transactions', label: 'data.transactions' },
+  { key: 'categories', label: 'data.categories' },
+  { key: 'recurringRules', label: 'data.recurringRules' },
+  { key: 'categoryRules', label: 'data.categoryRules' },
+  { key: 'savingsGoals', label: 'data.savingsGoals' },
+  { key: 'people', label: 'data.people' },
+  { key: 'accounts', label: 'data.accounts' },
+  { key: 'savedFilters', label: 'data.savedFilters' },
+  { key: 'exchangeRates', label: 'data.exchangeRates' },
+  { key: 'trash', label: 'data.trash' },
+];
+
+const formatChange = (summary: EntityChangeSummary) => {
+  const parts = [
+    summary.added && t('data.added', { count: summary.added }),
+    summary.updated && t('data.updated', { count: summary.updated }),
+    summary.removed && t('data.removed', { count: summary.removed }),
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(t('common.listSeparator')) : t('data.unchanged');
+};
+
+const DataManager: React.FC<DataManagerProps> = ({ data, onRestore, onClose, loadAttachment }) => {
+  const today = toDateKey(new Date());
+  const [rangeStart, setRangeStart] = useState(`${today.slice(0, 4)}-01-01`);
+  const [rangeEnd, setRangeEnd] = useState(today);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [pendingBackup, setPendingBackup] = useState<BackupFile | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+
+  // Receipt images go into the file too, so a restore elsewhere keeps them
+  const handleBackup = async () => {
+    setIsBackingUp(true);
+    try {
+      const loaded = await Promise.all(getAttachmentIds(data).map(id => loadAttachment(id)));
+      const backup = createBackup(data, loaded.filter((a): a is Attachment => !!a));
+      downloadFile(`freshfin-backup-${today}.json`, JSON.stringify(backup, null, 2), 'application/json');
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleExport = () => {
+    const selected = filterByDateRange(data.transactions, rangeStart, rangeEnd);
+    const filename = `freshfin-${rangeStart}-${rangeEnd}`;
+    if (exportFormat === 'csv') {
+      downloadFile(`${filename}.csv`, transactionsToCsv(selected, data.categories, data.accounts), 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(`${filename}.xls`, transactionsToSpreadsheetXml(selected, data.categories, data.accounts), 'application/vnd.ms-excel');
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setPendingBackup(null);
+    try {
+      const result = validateBackup(JSON.parse(await file.text()));
+      setErrors(result.errors);
+      setPendingBackup(result.backup);
+    } catch {
+      setErrors([t('data.invalidJson')]);
+    }
+  };
+
+  const summary = pendingBackup ? summarizeRestore(data, pendingBackup, restoreMode) : null;
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6 pb-4 flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 mb-1">{t('data.title')}</h3>
+            <p className="text-sm text-slate-500">{t('data.description')}</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-6 space-y-6">
+          {/* Full Backup */}
+          <section>
+            <h4 className="text-xs font-semibold text-slate-500 uppercase mb-2">{t('data.backup')}</h4>
+            <button
+              onClick={handleBackup}
+              disabled={isBackingUp}
+              className="w-full px-4 py-2.5 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" /> {t('data.downloadBackup')}
+            </button>
+          </section>
+
+          {/* Range Export */}
+          <section>
+            <h4 className="text-xs font-semibold text-slate-500 uppercase mb-2">{t('data.export')}</h4>
+            <div className="grid grid-cols-2 gap-2 mb-2">
+              <input type="date" value={rangeStart} max={rangeEnd} onChange={(e) => setRangeStart(e.target.value)} className={inputClass} />
+              <input type="date" value={rangeEnd} min={rangeStart} onChange={(e) => setRangeEnd(e.target.value)} className={inputClass} />
+            </div>
+            <div className="flex gap-2">
+              <select value={exportFormat} onChange={(e) => setExportFormat(e.target.value as ExportFormat)} className={inputClass}>
+                <option value="csv">CSV</option>
+                <option value="xls">Excel (.xls)</option>
+              </select>
+              <button
+                onClick={handleExport}
+                className="shrink-0 px-4 py-2 text-sm font-medium bg-white border border-slate-200 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors flex items-center gap-2"
+              >
+                <FileSpreadsheet className="w-4 h-4" /> {t('data.exportButton')}
+              </button>
+            </div>
+          </section>
+
+          {/* Restore */}
+          <section>
+            <h4 className="text-xs font-semibold text-slate-500 uppercase mb-2">{t('data.restore')}</h4>
+            <label className="w-full px-4 py-2.5 text-sm font-medium bg-white border border-dashed border-slate-300 text-slate-600 rounded-lg hover:border-teal-400 hover:text-teal-600 transition-colors flex items-center justify-center gap-2 cursor-pointer">
+              <Upload className="w-4 h-4" /> {t('data.chooseFile')}
+              <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+            </label>
+
+            {errors.length > 0 && (
+              <ul className="mt-3 text-xs text-rose-500 space-y-1">
+                {errors.map((error, index) => <li key={index}>{error}</li>)}
+              </ul>
+            )}
+
+            {pendingBackup && summary && (
+              <div className="mt-3 space-y-3">
+                <p className="text-xs text-slate-400">
+                  {t('data.exportedAt', { time: formatDateTime(new Date(pendingBackup.exportedAt)) })}
+                </p>
+                <div className="flex bg-slate-50 rounded-lg p-1 border border-slate-200">
+                  {([['merge', 'data.merge'], ['replace', 'data.replace']] as [RestoreMode, MessageKey][]).map(([mode, label]) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => setRestoreMode(mode)}
+                      className={`flex-1 py-1.5 text-sm font-medium rounded-md transition-all ${
+                        restoreMode === mode ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                      }`}
+                    >
+                      {t(label)}
+                    </button>
+                  ))}
+                </div>
+                <div className="bg-slate-50 rounded-lg px-3 py-2 text-sm space-y-1">
+                  {SUMMARY_ROWS.map(row => (
+                    <div key={row.key} className="flex justify-between">
+                      <span className="text-slate-500">{t(row.label)}</span>
+                      <span className={summary[row.key].removed > 0 ? 'text-rose-500' : 'text-slate-700'}>
+                        {formatChange(summary[row.key])}
+                      </span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between">
+                    <span className="text-slate-500">{t('data.budget')}</span>
+                    <span className="text-slate-700">{summary.budgetChanged ? t(restoreMode === 'replace' ? 'data.budgetReplaced' : 'data.budgetMerged') : t('data.unchanged')}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-500">{t('data.attachments')}</span>
+                    <span className="text-slate-700">{summary.attachments}</span>
+                  </div>
+                </div>
+                {summary.missingAttachments > 0 && (
+                  <p className="text-xs text-amber-600 bg-amber-50 rounded-lg px-3 py-2">
+                    {t('data.missingAttachments', { count: summary.missingAttachments })}
+                  </p>
+                )}
+                <button
+                  onClick={() => onRestore(pendingBackup, restoreMode)}
+                  className={`w-full px-4 py-2.5 text-sm font-medium text-white rounded-lg transition-colors ${
+                    restoreMode === 'replace' ? 'bg-rose-500 hover:bg-rose-600' : 'bg-slate-900 hover:bg-slate-800'
+                  }`}
+                >
+                  {restoreMode === 'replace' ? t('data.replaceConfirm') : t('data.mergeConfirm')}
+                </button>
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataManager;
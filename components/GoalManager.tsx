@@ -0,0 +1,289 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Pencil, Plus, Trash2, Wallet, X } from 'lucide-react';
+import { SavingsGoal } from '../types';
+import { createContribution, getGoalProgress } from '../services/goalService';
+import { formatCurrency, formatDate } from '../utils/format';
+import { t } from '../utils/i18n';
+import { addMonths, getLastDayOfMonth } from '../utils/date';
+import ProgressRing from './ProgressRing';
+
+const ICON_OPTIONS = ['🎯', '✈️', '🏠', '🚗', '💻', '🎓', '💍', '👶', '🏥', '🎁'];
+
+interface GoalManagerProps {
+  goals: SavingsGoal[];
+  currency: string; // Goals are kept in the base currency
+  currentMonth: string; // YYYY-MM; new goals start contributing here
+  onChange: (goals: SavingsGoal[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500';
+
+const GoalManager: React.FC<GoalManagerProps> = ({ goals, currency, currentMonth, onChange, onClose }) => {
+  const defaultDeadline = getLastDayOfMonth(`${addMonths(currentMonth, 11)}-01`);
+  // Set while the form edits an existing goal
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [icon, setIcon] = useState(ICON_OPTIONS[0]);
+  const [name, setName] = useState('');
+  const [targetAmount, setTargetAmount] = useState('');
+  const [deadline, setDeadline] = useState(defaultDeadline);
+  const [monthlyContribution, setMonthlyContribution] = useState('');
+  const [allocateLeftover, setAllocateLeftover] = useState(false);
+  // The goal whose saved amount is being adjusted by hand
+  const [adjustingId, setAdjustingId] = useState<string | null>(null);
+  const [adjustAmount, setAdjustAmount] = useState('');
+
+  const resetForm = () => {
+    setEditingId(null);
+    setIcon(ICON_OPTIONS[0]);
+    setName('');
+    setTargetAmount('');
+    setDeadline(defaultDeadline);
+    setMonthlyContribution('');
+    setAllocateLeftover(false);
+  };
+
+  const startEdit = (goal: SavingsGoal) => {
+    setEditingId(goal.id);
+    setIcon(goal.icon);
+    setName(goal.name);
+    setTargetAmount(String(goal.targetAmount));
+    setDeadline(goal.deadline);
+    setMonthlyContribution(goal.monthlyContribution ? String(goal.monthlyContribution) : '');
+    setAllocateLeftover(goal.allocateLeftover);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const target = parseFloat(targetAmount);
+    if (!name.trim() || isNaN(target) || target <= 0 || !deadline) return;
+    const monthly = parseFloat(monthlyContribution);
+    const fields = {
+      name: name.trim(),
+      icon,
+      targetAmount: target,
+      deadline,
+      monthlyContribution: monthly > 0 ? monthly : undefined,
+      allocateLeftover,
+    };
+    if (editingId) {
+      onChange(goals.map(g => g.id === editingId ? { ...g, ...fields } : g));
+    } else {
+      onChange([...goals, { id: crypto.randomUUID(), ...fields, startMonth: currentMonth, contributions: [] }]);
+    }
+    resetForm();
+  };
+
+  const moveGoal = (index: number, offset: number) => {
+    const next = [...goals];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const deleteGoal = (id: string) => {
+    onChange(goals.filter(g => g.id !== id));
+    if (editingId === id) resetForm();
+  };
+
+  // Withdrawals are capped at what the goal holds
+  const adjust = (goal: SavingsGoal, sign: number) => {
+    const amount = parseFloat(adjustAmount);
+    if (isNaN(amount) || amount <= 0) return;
+    const saved = getGoalProgress(goal, currentMonth).saved;
+    const change = sign > 0 ? amount : -Math.min(amount, saved);
+    if (change === 0) return;
+    onChange(goals.map(g => g.id === goal.id
+      ? { ...g, contributions: [...g.contributions, createContribution(currentMonth, change, 'manual')] }
+      : g));
+    setAdjustingId(null);
+    setAdjustAmount('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6 pb-4 flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 mb-1">{t('goals.title')}</h3>
+            <p className="text-sm text-slate-500">{t('goals.description')}</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-2">
+          {goals.length === 0 && (
+            <div className="text-center py-6 text-sm text-slate-400 border border-dashed border-slate-200 rounded-lg">
+              {t('goals.empty')}
+            </div>
+          )}
+          {goals.map((goal, index) => {
+            const progress = getGoalProgress(goal, currentMonth);
+            return (
+              <div key={goal.id} className={`rounded-lg border p-3 ${editingId === goal.id ? 'border-teal-500' : 'border-slate-100'}`}>
+                <div className="flex items-center gap-3">
+                  <ProgressRing ratio={progress.ratio} size={40} strokeWidth={5} className={progress.isComplete ? 'text-emerald-500' : 'text-teal-500'}>
+                    <span className="text-sm">{goal.icon}</span>
+                  </ProgressRing>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-slate-700 truncate">{goal.name}</p>
+                    <p className="text-xs text-slate-400 truncate">
+                      {[
+                        t('goals.saved', { saved: formatCurrency(progress.saved, currency), target: formatCurrency(goal.targetAmount, currency) }),
+                        t('goals.deadline', { date: formatDate(goal.deadline) }),
+                        goal.monthlyContribution ? t('goals.monthlyBadge', { amount: formatCurrency(goal.monthlyContribution, currency) }) : '',
+                        goal.allocateLeftover ? t('goals.leftoverBadge') : '',
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                  <div className="flex items-center shrink-0">
+                    <button
+                      onClick={() => moveGoal(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-slate-400 hover:text-slate-600 disabled:text-slate-200"
+                      title={t('goals.moveUp')}
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveGoal(index, 1)}
+                      disabled={index === goals.length - 1}
+                      className="p-1 text-slate-400 hover:text-slate-600 disabled:text-slate-200"
+                      title={t('goals.moveDown')}
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setAdjustingId(adjustingId === goal.id ? null : goal.id)}
+                      className="p-1 text-slate-400 hover:text-slate-600"
+                      title={t('goals.adjust')}
+                    >
+                      <Wallet className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => startEdit(goal)} className="p-1 text-slate-400 hover:text-slate-600" title={t('goals.edit')}>
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => deleteGoal(goal.id)} className="p-1 text-slate-400 hover:text-red-400" title={t('goals.delete')}>
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                {adjustingId === goal.id && (
+                  <div className="flex gap-2 mt-3">
+                    <input
+                      type="number"
+                      placeholder={t('goals.adjustPlaceholder')}
+                      value={adjustAmount}
+                      onChange={(e) => setAdjustAmount(e.target.value)}
+                      step="0.01"
+                      min="0"
+                      className={`${inputClass} font-mono`}
+                      autoFocus
+                    />
+                    <button
+                      onClick={() => adjust(goal, 1)}
+                      className="shrink-0 px-3 py-2 text-sm font-medium bg-teal-50 text-teal-600 rounded-lg hover:bg-teal-100"
+                    >
+                      {t('goals.deposit')}
+                    </button>
+                    <button
+                      onClick={() => adjust(goal, -1)}
+                      className="shrink-0 px-3 py-2 text-sm font-medium bg-rose-50 text-rose-500 rounded-lg hover:bg-rose-100"
+                    >
+                      {t('goals.withdraw')}
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-slate-50 px-6 py-4 border-t border-slate-100 space-y-3">
+          <div className="flex gap-1 flex-wrap">
+            {ICON_OPTIONS.map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setIcon(option)}
+                className={`w-8 h-8 rounded-lg text-base ${icon === option ? 'bg-white ring-2 ring-teal-500' : 'hover:bg-white'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              placeholder={t('goals.namePlaceholder')}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={`${inputClass} col-span-2`}
+              required
+            />
+            <input
+              type="number"
+              placeholder={t('goals.targetPlaceholder', { currency })}
+              value={targetAmount}
+              onChange={(e) => setTargetAmount(e.target.value)}
+              step="0.01"
+              min="0.01"
+              className={`${inputClass} font-mono`}
+              required
+            />
+            <input
+              type="date"
+              value={deadline}
+              min={`${currentMonth}-01`}
+              onChange={(e) => setDeadline(e.target.value)}
+              className={inputClass}
+              title={t('goals.deadlineLabel')}
+              required
+            />
+            <input
+              type="number"
+              placeholder={t('goals.monthlyPlaceholder')}
+              value={monthlyContribution}
+              onChange={(e) => setMonthlyContribution(e.target.value)}
+              step="0.01"
+              min="0"
+              className={`${inputClass} font-mono col-span-2`}
+            />
+          </div>
+          <label className="flex items-start gap-2 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={allocateLeftover}
+              onChange={(e) => setAllocateLeftover(e.target.checked)}
+              className="mt-1"
+            />
+            <span>
+              {t('goals.allocateLeftover')}
+              <span className="block text-xs text-slate-400">{t('goals.leftoverHint')}</span>
+            </span>
+          </label>
+          <div className="flex gap-2">
+            {editingId && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+            )}
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors flex items-center justify-center gap-1"
+            >
+              {editingId ? t('goals.update') : <><Plus className="w-4 h-4" /> {t('goals.add')}</>}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default GoalManager;
@@ -0,0 +1,323 @@
+import React, { useState } from 'react';
+import { ArrowLeft, FileUp, X } from 'lucide-react';
+import { Account, Category, CategoryRule, Transaction, TransactionType } from '../types';
+import {
+  ColumnMapping,
+  ImportCandidate,
+  ImportFormat,
+  ParsedStatement,
+  SignConvention,
+  buildImportCandidates,
+  decodeStatement,
+  detectStatement,
+  markDuplicates,
+  parseCsv
+} from '../services/csvImportService';
+import { Categorization, categorize, mergeTags } from '../services/categoryRuleService';
+import { formatCurrency } from '../utils/format';
+import { MessageKey, t } from '../utils/i18n';
+import CurrencySelect from './CurrencySelect';
+
+type WizardStep = 'upload' | 'mapping' | 'preview';
+
+const FORMAT_LABELS: Record<ImportFormat, MessageKey> = {
+  generic: 'import.formatGeneric',
+  alipay: 'import.formatAlipay',
+  wechat: 'import.formatWechat',
+};
+
+const MAPPING_FIELDS: { key: keyof ColumnMapping; label: MessageKey; emptyLabel?: MessageKey }[] = [
+  { key: 'date', label: 'import.fieldDate' },
+  { key: 'title', label: 'import.fieldTitle' },
+  { key: 'amount', label: 'import.fieldAmount' },
+  { key: 'type', label: 'import.fieldType', emptyLabel: 'import.typeBySign' },
+  { key: 'note', label: 'import.fieldNote', emptyLabel: 'import.skipColumn' },
+];
+
+interface ImportWizardProps {
+  transactions: Transaction[];
+  categories: Category[];
+  rules: CategoryRule[];
+  accounts: Account[];
+  baseCurrency: string;
+  onImport: (transactions: Transaction[]) => void;
+  onClose: () => void;
+}
+
+const selectClass = 'w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500';
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ transactions, categories, rules, accounts, baseCurrency, onImport, onClose }) => {
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [statement, setStatement] = useState<ParsedStatement | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({ date: -1, title: -1, amount: -1, type: -1, note: -1 });
+  const [signConvention, setSignConvention] = useState<SignConvention>('positive-income');
+  const activeAccounts = accounts.filter(a => !a.archived);
+  const [accountId, setAccountId] = useState(activeAccounts[0]?.id || '');
+  const [currency, setCurrency] = useState(activeAccounts[0]?.currency || baseCurrency);
+  const [candidates, setCandidates] = useState<ImportCandidate[]>([]);
+  // Keyed by row number; rows with errors have none
+  const [categorizations, setCategorizations] = useState<Map<number, Categorization>>(new Map());
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    try {
+      const rows = parseCsv(decodeStatement(await file.arrayBuffer()));
+      if (rows.length < 2) {
+        setError(t('import.noRows'));
+        return;
+      }
+      const detected = detectStatement(rows);
+      setFileName(file.name);
+      setStatement(detected);
+      setMapping(detected.mapping);
+      // Alipay and WeChat Pay statements are always in CNY
+      if (detected.format !== 'generic') setCurrency('CNY');
+      setStep('mapping');
+    } catch (err) {
+      console.error('CSV import error:', err);
+      setError(t('import.unreadable'));
+    }
+  };
+
+  const goToPreview = () => {
+    if (!statement) return;
+    const sameCurrency = transactions.filter(t => t.currency === currency);
+    const built = markDuplicates(buildImportCandidates(statement, mapping, signConvention), sameCurrency);
+    setCandidates(built);
+    // Rules first, then how similar records were filed before
+    setCategorizations(new Map(built.filter(c => !c.error).map(c => [c.rowNumber, categorize(c, rules, transactions, categories)])));
+    // Rows with errors and likely duplicates start unchecked
+    setSelected(new Set(built.filter(c => !c.error && !c.duplicateOfId).map(c => c.rowNumber)));
+    setStep('preview');
+  };
+
+  const toggleRow = (rowNumber: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(rowNumber)) next.delete(rowNumber);
+      else next.add(rowNumber);
+      return next;
+    });
+  };
+
+  const handleConfirm = () => {
+    const now = Date.now();
+    const imported: Transaction[] = candidates
+      .filter(c => selected.has(c.rowNumber) && !c.error)
+      .map((c, index) => {
+        const { categoryId, tags } = categorizations.get(c.rowNumber);
+        return {
+          id: crypto.randomUUID(),
+          title: c.title,
+          amount: c.amount,
+          currency,
+          type: c.type,
+          categoryId,
+          accountId,
+          note: c.note,
+          date: c.date,
+          timestamp: now + index,
+          tags: mergeTags(undefined, tags),
+        };
+      });
+    onImport(imported);
+  };
+
+  const getCategoryLabel = (rowNumber: number) => {
+    const category = categories.find(c => c.id === categorizations.get(rowNumber)?.categoryId);
+    return category ? `${category.icon} ${category.name}` : '—';
+  };
+
+  const mappingComplete = mapping.date !== -1 && mapping.title !== -1 && mapping.amount !== -1;
+  const duplicateCount = candidates.filter(c => c.duplicateOfId).length;
+  const selectedCount = candidates.filter(c => selected.has(c.rowNumber) && !c.error).length;
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6 pb-4 flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 mb-1">{t('import.title')}</h3>
+            <p className="text-sm text-slate-500">
+              {step === 'upload' && t('import.uploadHint')}
+              {step === 'mapping' && statement && t('import.mappingHint', { file: fileName, format: t(FORMAT_LABELS[statement.format]) })}
+              {step === 'preview' && t('import.previewHint', { total: candidates.length, selected: selectedCount, duplicates: duplicateCount })}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4">
+          {step === 'upload' && (
+            <label className="flex flex-col items-center justify-center gap-2 py-12 border-2 border-dashed border-slate-200 rounded-xl text-slate-400 hover:border-teal-400 hover:text-teal-600 cursor-pointer transition-colors">
+              <FileUp className="w-8 h-8" />
+              <span className="text-sm">{t('import.chooseFile')}</span>
+              <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+              {error && <span className="text-xs text-rose-500">{error}</span>}
+            </label>
+          )}
+
+          {step === 'mapping' && statement && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                {MAPPING_FIELDS.map(field => (
+                  <label key={field.key} className="text-xs font-semibold text-slate-500">
+                    {t(field.label)}
+                    <select
+                      value={mapping[field.key]}
+                      onChange={(e) => setMapping(prev => ({ ...prev, [field.key]: Number(e.target.value) }))}
+                      className={`${selectClass} mt-1`}
+                    >
+                      <option value={-1}>{t(field.emptyLabel || 'import.choose')}</option>
+                      {statement.headers.map((header, index) => (
+                        <option key={index} value={index}>{header || t('import.column', { index: index + 1 })}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <label className="text-xs font-semibold text-slate-500">
+                  {t('import.account')}
+                  <select
+                    value={accountId}
+                    onChange={(e) => {
+                      setAccountId(e.target.value);
+                      setCurrency(accounts.find(a => a.id === e.target.value)?.currency || currency);
+                    }}
+                    className={`${selectClass} mt-1`}
+                  >
+                    {activeAccounts.map(a => (
+                      <option key={a.id} value={a.id}>{a.name}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-xs font-semibold text-slate-500">
+                  {t('import.currency')}
+                  <CurrencySelect value={currency} onChange={setCurrency} className={`${selectClass} mt-1`} />
+                </label>
+              </div>
+
+              {mapping.type === -1 && (
+                <label className="block text-xs font-semibold text-slate-500">
+                  {t('import.sign')}
+                  <select
+                    value={signConvention}
+                    onChange={(e) => setSignConvention(e.target.value as SignConvention)}
+                    className={`${selectClass} mt-1`}
+                  >
+                    <option value="positive-income">{t('import.positiveIncome')}</option>
+                    <option value="positive-expense">{t('import.positiveExpense')}</option>
+                  </select>
+                </label>
+              )}
+
+              <div className="overflow-x-auto border border-slate-100 rounded-lg">
+                <table className="w-full text-xs">
+                  <thead className="bg-slate-50 text-slate-500">
+                    <tr>
+                      {statement.headers.map((header, index) => (
+                        <th key={index} className="px-2 py-1.5 text-left font-medium whitespace-nowrap">{header}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {statement.rows.slice(0, 3).map((row, rowIndex) => (
+                      <tr key={rowIndex} className="border-t border-slate-100">
+                        {statement.headers.map((_, index) => (
+                          <td key={index} className="px-2 py-1.5 text-slate-600 whitespace-nowrap">{row[index]}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <table className="w-full text-sm">
+              <thead className="text-xs text-slate-500 sticky top-0 bg-white">
+                <tr>
+                  <th className="py-1.5 w-8"></th>
+                  <th className="py-1.5 text-left font-medium">{t('import.fieldDate')}</th>
+                  <th className="py-1.5 text-left font-medium">{t('import.columnTitle')}</th>
+                  <th className="py-1.5 text-left font-medium">{t('import.columnCategory')}</th>
+                  <th className="py-1.5 text-right font-medium">{t('import.fieldAmount')}</th>
+                  <th className="py-1.5 text-right font-medium">{t('import.columnStatus')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {candidates.map(c => (
+                  <tr key={c.rowNumber} className={`border-t border-slate-100 ${c.error || c.duplicateOfId ? 'text-slate-400' : 'text-slate-700'}`}>
+                    <td className="py-1.5">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(c.rowNumber)}
+                        disabled={!!c.error}
+                        onChange={() => toggleRow(c.rowNumber)}
+                      />
+                    </td>
+                    <td className="py-1.5 font-mono text-xs whitespace-nowrap">{c.date || '—'}</td>
+                    <td className="py-1.5 truncate max-w-[12rem]">{c.title}</td>
+                    <td className="py-1.5 text-xs whitespace-nowrap">
+                      {getCategoryLabel(c.rowNumber)}
+                    </td>
+                    <td className={`py-1.5 text-right font-mono whitespace-nowrap ${
+                      c.type === TransactionType.EXPENSE ? 'text-rose-500' : 'text-teal-600'
+                    }`}>
+                      {c.type === TransactionType.EXPENSE ? '-' : '+'}{formatCurrency(c.amount, currency)}
+                    </td>
+                    <td className="py-1.5 text-right text-xs whitespace-nowrap">
+                      {c.error
+                        ? <span className="text-rose-500">{c.error}</span>
+                        : c.duplicateOfId ? <span className="text-amber-600">{t('import.duplicate')}</span> : t('import.new')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {step !== 'upload' && (
+          <div className="bg-slate-50 px-6 py-4 flex gap-3 justify-between border-t border-slate-100">
+            <button
+              onClick={() => setStep(step === 'preview' ? 'mapping' : 'upload')}
+              className="px-3 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors flex items-center gap-1"
+            >
+              <ArrowLeft className="w-4 h-4" /> {t('import.back')}
+            </button>
+            {step === 'mapping' ? (
+              <button
+                onClick={goToPreview}
+                disabled={!mappingComplete}
+                className="px-4 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors disabled:opacity-40"
+              >
+                {t('import.preview')}
+              </button>
+            ) : (
+              <button
+                onClick={handleConfirm}
+                disabled={selectedCount === 0}
+                className="px-4 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors disabled:opacity-40"
+              >
+                {t('import.confirm', { count: selectedCount })}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportWizard;
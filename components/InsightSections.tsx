@@ -0,0 +1,85 @@
+import React from 'react';
+import { AlertTriangle, Lightbulb, Minus, TrendingDown, TrendingUp } from 'lucide-react';
+import { FinancialInsight, InsightTrend } from '../types';
+import { formatCurrency } from '../utils/format';
+import { MessageKey, t } from '../utils/i18n';
+
+interface InsightSectionsProps {
+  insight: FinancialInsight;
+  currency: string;
+}
+
+const TREND_STYLE: Record<InsightTrend, { label: MessageKey; className: string; icon: React.ReactNode }> = {
+  better: { label: 'insight.better', className: 'bg-teal-50 text-teal-600', icon: <TrendingDown className="w-3 h-3" /> },
+  worse: { label: 'insight.worse', className: 'bg-rose-50 text-rose-500', icon: <TrendingUp className="w-3 h-3" /> },
+  similar: { label: 'insight.similar', className: 'bg-slate-100 text-slate-500', icon: <Minus className="w-3 h-3" /> },
+};
+
+const sectionTitleClass = 'text-xs font-semibold text-violet-700 mb-1.5 flex items-center gap-1';
+
+const InsightSections: React.FC<InsightSectionsProps> = ({ insight, currency }) => {
+  const trend = TREND_STYLE[insight.comparison.trend];
+  const { expenseChange } = insight.comparison;
+
+  return (
+    <div className="space-y-4">
+      <p className="font-medium text-slate-800">{insight.summary}</p>
+
+      {insight.overspentCategories.length > 0 && (
+        <div>
+          <h4 className={sectionTitleClass}>
+            <AlertTriangle className="w-3.5 h-3.5" /> {t('insight.overspent')}
+          </h4>
+          <ul className="space-y-1">
+            {insight.overspentCategories.map(item => (
+              <li key={item.category}>
+                <span className="font-medium text-rose-500">{item.category}</span>
+                <span className="text-slate-600">{t('insight.reason', { reason: item.reason })}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {insight.savingsOpportunities.length > 0 && (
+        <div>
+          <h4 className={sectionTitleClass}>
+            <Lightbulb className="w-3.5 h-3.5" /> {t('insight.savings')}
+          </h4>
+          <ul className="space-y-2">
+            {insight.savingsOpportunities.map(item => (
+              <li key={item.title} className="bg-white/60 rounded-lg px-3 py-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-slate-700">{item.title}</span>
+                  {item.estimatedSaving !== undefined && (
+                    <span className="shrink-0 text-xs font-mono text-teal-600">
+                      {t('insight.monthlySaving', { amount: formatCurrency(item.estimatedSaving, currency) })}
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-slate-500 mt-0.5">{item.detail}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div>
+        <h4 className={sectionTitleClass}>{t('insight.comparison')}</h4>
+        <div className="flex flex-wrap items-center gap-2 mb-1">
+          <span className={`inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded-full ${trend.className}`}>
+            {trend.icon} {t(trend.label)}
+          </span>
+          {expenseChange !== null && (
+            <span className="text-xs text-slate-400">
+              {t('insight.expenseChange', { change: `${expenseChange >= 0 ? '+' : ''}${(expenseChange * 100).toFixed(1)}%` })}
+            </span>
+          )}
+        </div>
+        {insight.comparison.summary && <p className="text-slate-600">{insight.comparison.summary}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default InsightSections;
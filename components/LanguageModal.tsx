@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { Locale } from '../types';
+import { LOCALES, t } from '../utils/i18n';
+
+interface LanguageModalProps {
+  locale: Locale;
+  onSave: (locale: Locale) => void;
+  onClose: () => void;
+}
+
+const LanguageModal: React.FC<LanguageModalProps> = ({ locale, onSave, onClose }) => {
+  const [selected, setSelected] = useState<Locale>(locale);
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6 pb-4 flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 mb-1">{t('language.title')}</h3>
+            <p className="text-sm text-slate-500">{t('language.description')}</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-2">
+          {LOCALES.map(option => (
+            <button
+              key={option.id}
+              type="button"
+              lang={option.id}
+              onClick={() => setSelected(option.id)}
+              className={`w-full text-left px-4 py-3 rounded-xl border transition-all ${
+                selected === option.id ? 'border-teal-500 bg-teal-50/50' : 'border-slate-200 hover:border-slate-300'
+              }`}
+            >
+              <p className="text-sm font-medium text-slate-800">{option.name}</p>
+              <p className="text-xs text-slate-500 mt-0.5">{option.id}</p>
+            </button>
+          ))}
+        </div>
+
+        <div className="bg-slate-50 px-6 py-4 flex gap-3 justify-end border-t border-slate-100">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => onSave(selected)}
+            className="px-4 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors"
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LanguageModal;
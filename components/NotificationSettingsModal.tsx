@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { NotificationSettings } from '../types';
+import { BUDGET_THRESHOLD_OPTIONS, normalizeNotificationSettings } from '../services/notificationService';
+import { NotificationAccess, getNotificationAccess, requestNotificationAccess } from '../utils/notifications';
+import { t } from '../utils/i18n';
+
+interface NotificationSettingsModalProps {
+  settings: NotificationSettings;
+  onSave: (settings: NotificationSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'mt-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500';
+
+const NotificationSettingsModal: React.FC<NotificationSettingsModalProps> = ({ settings, onSave, onClose }) => {
+  const [access, setAccess] = useState<NotificationAccess>(getNotificationAccess);
+  // Stays off while the browser refuses, whatever was saved
+  const [enabled, setEnabled] = useState(settings.enabled && access === 'granted');
+  const [thresholds, setThresholds] = useState<number[]>(settings.budgetThresholds);
+  const [dailyOverspend, setDailyOverspend] = useState(settings.dailyOverspend);
+  const [eveningReminder, setEveningReminder] = useState(settings.eveningReminder);
+  const [reminderTime, setReminderTime] = useState(settings.reminderTime);
+
+  // Permission can only be asked for in response to a click
+  const toggleEnabled = async () => {
+    if (enabled) {
+      setEnabled(false);
+      return;
+    }
+    const result = await requestNotificationAccess();
+    setAccess(result);
+    setEnabled(result === 'granted');
+  };
+
+  const toggleThreshold = (percent: number) => {
+    setThresholds(prev => prev.includes(percent) ? prev.filter(p => p !== percent) : [...prev, percent]);
+  };
+
+  const handleSave = () => {
+    onSave(normalizeNotificationSettings({
+      ...settings,
+      enabled,
+      budgetThresholds: thresholds,
+      dailyOverspend,
+      eveningReminder,
+      reminderTime,
+    }));
+  };
+
+  const accessMessage = access === 'unsupported'
+    ? t('notifications.unsupported')
+    : access === 'denied' ? t('notifications.denied') : null;
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6 pb-4 flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 mb-1">{t('notifications.title')}</h3>
+            <p className="text-sm text-slate-500">{t('notifications.description')}</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-4">
+          <button
+            type="button"
+            onClick={toggleEnabled}
+            disabled={access === 'unsupported' || access === 'denied'}
+            className={`w-full text-left px-4 py-3 rounded-xl border transition-all disabled:opacity-50 ${
+              enabled ? 'border-teal-500 bg-teal-50/50' : 'border-slate-200 hover:border-slate-300'
+            }`}
+          >
+            <p className="text-sm font-medium text-slate-800">{enabled ? t('notifications.on') : t('notifications.off')}</p>
+            <p className="text-xs text-slate-500 mt-0.5">{t('notifications.toggleHint')}</p>
+          </button>
+          {accessMessage && (
+            <p className="text-xs text-amber-600 bg-amber-50 rounded-lg px-3 py-2">{accessMessage}</p>
+          )}
+
+          <div className={`space-y-4 ${enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+            <div>
+              <p className="text-xs font-semibold text-slate-500 uppercase mb-2">{t('notifications.thresholds')}</p>
+              <div className="flex gap-2">
+                {BUDGET_THRESHOLD_OPTIONS.map(percent => (
+                  <button
+                    key={percent}
+                    type="button"
+                    onClick={() => toggleThreshold(percent)}
+                    className={`shrink-0 px-3 py-1 text-xs rounded-full border transition-all ${
+                      thresholds.includes(percent) ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'
+                    }`}
+                  >
+                    {percent}%
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <label className="flex items-start gap-2 text-sm text-slate-600">
+              <input
+                type="checkbox"
+                checked={dailyOverspend}
+                onChange={(e) => setDailyOverspend(e.target.checked)}
+                className="mt-1"
+              />
+              <span>
+                {t('notifications.dailyOverspend')}
+                <span className="block text-xs text-slate-400">{t('notifications.dailyOverspendHint')}</span>
+              </span>
+            </label>
+
+            <div>
+              <label className="flex items-start gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={eveningReminder}
+                  onChange={(e) => setEveningReminder(e.target.checked)}
+                  className="mt-1"
+                />
+                <span>
+                  {t('notifications.eveningReminder')}
+                  <span className="block text-xs text-slate-400">{t('notifications.eveningReminderHint')}</span>
+                </span>
+              </label>
+              {eveningReminder && (
+                <input
+                  type="time"
+                  value={reminderTime}
+                  onChange={(e) => setReminderTime(e.target.value)}
+                  className={`${inputClass} ml-6`}
+                />
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-slate-50 px-6 py-4 flex gap-3 justify-end border-t border-slate-100">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors"
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationSettingsModal;
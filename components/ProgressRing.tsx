@@ -0,0 +1,37 @@
+import React from 'react';
+
+interface ProgressRingProps {
+  ratio: number; // 0 to 1
+  size?: number;
+  strokeWidth?: number;
+  className?: string; // Sets the ring's color through `text-*`
+  children?: React.ReactNode;
+}
+
+const ProgressRing: React.FC<ProgressRingProps> = ({ ratio, size = 56, strokeWidth = 6, className = 'text-teal-500', children }) => {
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+
+  return (
+    <div className="relative shrink-0" style={{ width: size, height: size }}>
+      <svg width={size} height={size} className="-rotate-90">
+        <circle cx={size / 2} cy={size / 2} r={radius} fill="none" strokeWidth={strokeWidth} className="stroke-slate-100" />
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - Math.min(1, Math.max(0, ratio)))}
+          className={`${className} transition-all duration-500`}
+        />
+      </svg>
+      <div className="absolute inset-0 flex items-center justify-center">{children}</div>
+    </div>
+  );
+};
+
+export default ProgressRing;
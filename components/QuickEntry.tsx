@@ -0,0 +1,265 @@
+import React, { useRef, useState } from 'react';
+import { Camera, Check, Loader2, Paperclip, Wand2, X } from 'lucide-react';
+import { AISettings, Attachment, Category, QuickEntryDraft, TransactionType } from '../types';
+import { canSplitReceipt, parseQuickEntry, receiptToDrafts } from '../services/quickEntryService';
+import { ReceiptData, canParseQuickEntry, extractReceipt, parseQuickEntryWithAI } from '../services/advisorService';
+import { getFallbackCategoryId, guessCategoryId } from '../services/categoryService';
+import { toDateKey } from '../utils/date';
+import { readImageAsDataUrl } from '../utils/image';
+import { t } from '../utils/i18n';
+
+interface QuickEntryProps {
+  categories: Category[];
+  accountName: string; // Where confirmed drafts are recorded
+  aiSettings: AISettings;
+  onConfirm: (drafts: QuickEntryDraft[], attachments: Attachment[]) => void;
+}
+
+interface ReceiptState {
+  attachment: Attachment;
+  data: ReceiptData | null; // Null when it could not be read; the image is still attached
+  split: boolean;
+}
+
+const inputClass = 'px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500';
+
+const QuickEntry: React.FC<QuickEntryProps> = ({ categories, accountName, aiSettings, onConfirm }) => {
+  const [text, setText] = useState('');
+  const [drafts, setDrafts] = useState<QuickEntryDraft[]>([]);
+  const [unparsed, setUnparsed] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [receipts, setReceipts] = useState<ReceiptState[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateDraft = (index: number, patch: Partial<QuickEntryDraft>) => {
+    setDrafts(drafts.map((d, i) => i === index ? { ...d, ...patch } : d));
+  };
+
+  // Switching type also switches to a category of that type
+  const toggleType = (index: number) => {
+    const draft = drafts[index];
+    const type = draft.type === TransactionType.EXPENSE ? TransactionType.INCOME : TransactionType.EXPENSE;
+    updateDraft(index, { type, categoryId: guessCategoryId(draft.title, type, categories), categoryPicked: undefined });
+  };
+
+  const reset = () => {
+    setDrafts([]);
+    setUnparsed([]);
+    setError(null);
+    setReceipts([]);
+  };
+
+  const isFromReceipt = (draft: QuickEntryDraft, attachmentId: string) => !!draft.attachmentIds?.includes(attachmentId);
+
+  const handleImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file || isParsing) return;
+    const today = toDateKey(new Date());
+    setError(null);
+    setIsParsing(true);
+    try {
+      const dataUrl = await readImageAsDataUrl(file);
+      const attachment: Attachment = {
+        id: crypto.randomUUID(),
+        name: file.name,
+        mimeType: 'image/jpeg',
+        dataUrl,
+        createdAt: Date.now(),
+      };
+      const result = await extractReceipt(aiSettings, dataUrl, today, categories);
+      const receiptDrafts = result.receipt
+        ? receiptToDrafts(result.receipt, false, today, categories, attachment.id)
+        : [{
+            title: '',
+            amount: 0,
+            type: TransactionType.EXPENSE,
+            date: today,
+            categoryId: getFallbackCategoryId(TransactionType.EXPENSE),
+            attachmentIds: [attachment.id],
+          }];
+      setReceipts([...receipts, { attachment, data: result.receipt, split: false }]);
+      setDrafts([...drafts, ...receiptDrafts]);
+      setError(result.error);
+    } catch (err) {
+      console.error('Receipt image error:', err);
+      setError(t('quickEntry.imageError'));
+    }
+    setIsParsing(false);
+  };
+
+  // Rebuilds that receipt's drafts, replacing any edits made to them
+  const toggleSplit = (receipt: ReceiptState) => {
+    const split = !receipt.split;
+    const id = receipt.attachment.id;
+    const rebuilt = receiptToDrafts(receipt.data, split, toDateKey(new Date()), categories, id);
+    const firstIndex = drafts.findIndex(d => isFromReceipt(d, id));
+    const others = drafts.filter(d => !isFromReceipt(d, id));
+    const at = firstIndex < 0 ? others.length : firstIndex;
+    setDrafts([...others.slice(0, at), ...rebuilt, ...others.slice(at)]);
+    setReceipts(receipts.map(r => r.attachment.id === id ? { ...r, split } : r));
+  };
+
+  const handleParse = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim() || isParsing) return;
+    const today = toDateKey(new Date());
+    const local = parseQuickEntry(text, today, categories);
+    setError(null);
+
+    // Only what the local parser could not read goes to the AI
+    if (local.unparsed.length > 0 && canParseQuickEntry(aiSettings)) {
+      setIsParsing(true);
+      const ai = await parseQuickEntryWithAI(aiSettings, local.unparsed, today, categories);
+      setIsParsing(false);
+      setDrafts([...drafts, ...local.drafts, ...ai.drafts]);
+      setUnparsed(ai.error || ai.drafts.length === 0 ? local.unparsed : []);
+      setError(ai.error);
+    } else {
+      setDrafts([...drafts, ...local.drafts]);
+      setUnparsed(local.unparsed);
+    }
+    setText('');
+  };
+
+  const handleConfirm = () => {
+    const valid = drafts.filter(d => d.title.trim() && d.amount > 0);
+    if (valid.length === 0) return;
+    const attachments = receipts
+      .map(r => r.attachment)
+      .filter(a => valid.some(d => isFromReceipt(d, a.id)));
+    onConfirm(valid.map(d => ({ ...d, title: d.title.trim() })), attachments);
+    reset();
+  };
+
+  return (
+    <div className="mb-4 space-y-2">
+      <form onSubmit={handleParse} className="flex gap-2">
+        <input
+          type="text"
+          placeholder={t('quickEntry.placeholder')}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="flex-1 min-w-0 px-4 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500"
+        />
+        <input ref={fileInputRef} type="file" accept="image/*" capture="environment" onChange={handleImage} className="hidden" />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isParsing}
+          className="p-2 rounded-lg border border-slate-200 text-slate-500 hover:border-slate-300 transition-colors disabled:opacity-50"
+          title={t('quickEntry.photo')}
+        >
+          <Camera className="w-4 h-4" />
+        </button>
+        <button
+          type="submit"
+          disabled={isParsing || !text.trim()}
+          className="px-3 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors flex items-center gap-1 disabled:opacity-50"
+        >
+          {isParsing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />} {t('quickEntry.parse')}
+        </button>
+      </form>
+
+      {(unparsed.length > 0 || error) && (
+        <p className="text-xs text-amber-600">
+          {error || t('quickEntry.unparsed')}{unparsed.length > 0 && t('quickEntry.unparsedList', { items: unparsed.join(t('common.listSeparator')) })}
+        </p>
+      )}
+
+      {drafts.length > 0 && (
+        <div className="bg-slate-50 rounded-lg border border-slate-100 p-3 space-y-2">
+          <p className="text-xs text-slate-500">{t('quickEntry.confirm', { account: accountName })}</p>
+          {receipts.length > 0 && (
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {receipts.map(receipt => (
+                <div key={receipt.attachment.id} className="shrink-0 flex items-center gap-2 bg-white rounded-lg border border-slate-100 p-1.5 pr-3">
+                  <img src={receipt.attachment.dataUrl} alt={t('quickEntry.receipt')} className="w-10 h-10 object-cover rounded" />
+                  <div className="text-xs">
+                    <p className="text-slate-600 max-w-[8rem] truncate">{receipt.data?.merchant || t('quickEntry.unknownMerchant')}</p>
+                    {receipt.data && canSplitReceipt(receipt.data) && (
+                      <button type="button" onClick={() => toggleSplit(receipt)} className="text-teal-600 hover:underline">
+                        {receipt.split ? t('quickEntry.merge') : t('quickEntry.split')}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {drafts.map((draft, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <button
+                type="button"
+                onClick={() => toggleType(index)}
+                className={`shrink-0 w-10 py-1.5 text-xs font-medium rounded-lg border ${
+                  draft.type === TransactionType.INCOME ? 'bg-teal-50 text-teal-600 border-teal-100' : 'bg-rose-50 text-rose-500 border-rose-100'
+                }`}
+                title={t('quickEntry.toggleType')}
+              >
+                {draft.type === TransactionType.INCOME ? t('type.income') : t('type.expense')}
+              </button>
+              {draft.attachmentIds && <Paperclip className="w-3.5 h-3.5 text-slate-400 shrink-0" />}
+              <input
+                value={draft.title}
+                onChange={(e) => updateDraft(index, { title: e.target.value })}
+                placeholder={t('quickEntry.name')}
+                className={`${inputClass} flex-1 min-w-[6rem]`}
+              />
+              <input
+                type="number"
+                value={draft.amount}
+                onChange={(e) => updateDraft(index, { amount: parseFloat(e.target.value) || 0 })}
+                step="0.01"
+                min="0"
+                className={`${inputClass} w-24 font-mono`}
+              />
+              <input
+                type="date"
+                value={draft.date}
+                onChange={(e) => e.target.value && updateDraft(index, { date: e.target.value })}
+                className={inputClass}
+              />
+              <select
+                value={draft.categoryId}
+                onChange={(e) => updateDraft(index, { categoryId: e.target.value, categoryPicked: true })}
+                className={inputClass}
+              >
+                {categories
+                  .filter(c => c.kind === draft.type && (!c.archived || c.id === draft.categoryId))
+                  .map(c => <option key={c.id} value={c.id}>{c.icon} {c.name}</option>)}
+              </select>
+              <button
+                type="button"
+                onClick={() => setDrafts(drafts.filter((_, i) => i !== index))}
+                className="p-1 text-slate-400 hover:text-red-400"
+                title={t('quickEntry.remove')}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <div className="flex justify-end gap-2 pt-1">
+            <button
+              type="button"
+              onClick={reset}
+              className="px-3 py-1.5 text-sm font-medium text-slate-600 hover:bg-white rounded-lg transition-colors"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="button"
+              onClick={handleConfirm}
+              className="px-3 py-1.5 text-sm font-medium bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors flex items-center gap-1"
+            >
+              <Check className="w-4 h-4" /> {t('quickEntry.save', { count: drafts.length })}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuickEntry;
@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { CalendarX, Plus, SkipForward, Trash2, X } from 'lucide-react';
+import { Account, Category, RecurrenceFrequency, RecurringRule, TransactionType } from '../types';
+import { getNextOccurrence } from '../services/recurringService';
+import { getFallbackCategoryId } from '../services/categoryService';
+import { formatCurrency } from '../utils/format';
+import { addDays, toDateKey } from '../utils/date';
+import { MessageKey, t } from '../utils/i18n';
+import CurrencySelect from './CurrencySelect';
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, MessageKey> = {
+  [RecurrenceFrequency.DAILY]: 'recurring.daily',
+  [RecurrenceFrequency.WEEKLY]: 'recurring.weekly',
+  [RecurrenceFrequency.MONTHLY]: 'recurring.monthly',
+  [RecurrenceFrequency.YEARLY]: 'recurring.yearly',
+};
+
+interface RecurringManagerProps {
+  rules: RecurringRule[];
+  categories: Category[];
+  accounts: Account[];
+  baseCurrency: string; // Default for new rules
+  onChange: (rules: RecurringRule[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500';
+
+const RecurringManager: React.FC<RecurringManagerProps> = ({ rules, categories, accounts, baseCurrency, onChange, onClose }) => {
+  const today = toDateKey(new Date());
+  const [title, setTitle] = useState('');
+  const [amount, setAmount] = useState('');
+  const activeAccounts = accounts.filter(a => !a.archived);
+  const [accountId, setAccountId] = useState(activeAccounts[0]?.id || '');
+  const [currency, setCurrency] = useState(activeAccounts[0]?.currency || baseCurrency);
+  const [type, setType] = useState<TransactionType>(TransactionType.EXPENSE);
+  const [categoryId, setCategoryId] = useState(getFallbackCategoryId(TransactionType.EXPENSE));
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>(RecurrenceFrequency.MONTHLY);
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState('');
+
+  const categoryMap = new Map<string, Category>(categories.map(c => [c.id, c]));
+
+  // Occurrences after this date have not been generated as transactions yet
+  const getPendingAfter = (rule: RecurringRule) => rule.lastMaterializedDate || addDays(today, -1);
+
+  const updateRule = (id: string, patch: Partial<RecurringRule>) => {
+    onChange(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  // Skips only affect occurrences that have not been generated yet
+  const skipNext = (rule: RecurringRule) => {
+    const next = getNextOccurrence(rule, getPendingAfter(rule));
+    if (next) {
+      updateRule(rule.id, { skippedDates: [...rule.skippedDates, next] });
+    }
+  };
+
+  const unskip = (rule: RecurringRule, date: string) => {
+    updateRule(rule.id, { skippedDates: rule.skippedDates.filter(d => d !== date) });
+  };
+
+  const changeType = (next: TransactionType) => {
+    setType(next);
+    setCategoryId(getFallbackCategoryId(next));
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = parseFloat(amount);
+    if (!title.trim() || isNaN(parsed) || parsed <= 0 || !startDate) return;
+    if (endDate && endDate < startDate) return;
+    onChange([
+      ...rules,
+      {
+        id: crypto.randomUUID(),
+        title: title.trim(),
+        amount: parsed,
+        currency,
+        type,
+        categoryId,
+        accountId,
+        frequency,
+        startDate,
+        endDate: endDate || undefined,
+        skippedDates: [],
+      }
+    ]);
+    setTitle('');
+    setAmount('');
+    setEndDate('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6 pb-4 flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 mb-1">{t('recurring.title')}</h3>
+            <p className="text-sm text-slate-500">{t('recurring.description')}</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-2">
+          {rules.length === 0 && (
+            <div className="text-center py-6 text-sm text-slate-400 border border-dashed border-slate-200 rounded-lg">
+              {t('recurring.empty')}
+            </div>
+          )}
+          {rules.map(rule => {
+            const category = categoryMap.get(rule.categoryId);
+            const next = getNextOccurrence(rule, getPendingAfter(rule));
+            const ended = !!rule.endDate && rule.endDate < today;
+            const pendingSkips = rule.skippedDates.filter(d => d > getPendingAfter(rule)).sort();
+            return (
+              <div key={rule.id} className={`rounded-lg border border-slate-100 p-3 ${ended ? 'opacity-50' : ''}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-700 truncate">
+                      {category?.icon} {rule.title}
+                    </p>
+                    <p className="text-xs text-slate-400">
+                      {t(FREQUENCY_LABELS[rule.frequency])} · {next ? t('recurring.next', { date: next }) : t('recurring.ended')}
+                      {rule.endDate && ` · ${t('recurring.until', { date: rule.endDate })}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <span className={`text-sm font-mono font-semibold mr-1 ${
+                      rule.type === TransactionType.EXPENSE ? 'text-rose-500' : 'text-teal-600'
+                    }`}>
+                      {rule.type === TransactionType.EXPENSE ? '-' : '+'}{formatCurrency(rule.amount, rule.currency)}
+                    </span>
+                    {next && (
+                      <button onClick={() => skipNext(rule)} className="p-1.5 text-slate-400 hover:text-slate-600 rounded" title={t('recurring.skipNext')}>
+                        <SkipForward className="w-4 h-4" />
+                      </button>
+                    )}
+                    {!ended && (
+                      <button onClick={() => updateRule(rule.id, { endDate: today })} className="p-1.5 text-slate-400 hover:text-slate-600 rounded" title={t('recurring.endToday')}>
+                        <CalendarX className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+                      className="p-1.5 text-slate-400 hover:text-red-400 rounded"
+                      title={t('recurring.delete')}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                {pendingSkips.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {pendingSkips.map(date => (
+                      <button
+                        key={date}
+                        onClick={() => unskip(rule, date)}
+                        className="text-[11px] px-2 py-0.5 bg-slate-100 text-slate-500 rounded-full hover:bg-slate-200"
+                        title={t('recurring.unskip')}
+                      >
+                        {t('recurring.skipped', { date })} ×
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <form onSubmit={handleCreate} className="bg-slate-50 px-6 py-4 border-t border-slate-100 space-y-3">
+          <div className="flex bg-white rounded-lg p-1 border border-slate-200">
+            <button
+              type="button"
+              onClick={() => changeType(TransactionType.EXPENSE)}
+              className={`flex-1 py-1.5 text-sm font-medium rounded-md transition-all ${
+                type === TransactionType.EXPENSE ? 'bg-rose-50 text-rose-500' : 'text-slate-500'
+              }`}
+            >
+              {t('type.expense')}
+            </button>
+            <button
+              type="button"
+              onClick={() => changeType(TransactionType.INCOME)}
+              className={`flex-1 py-1.5 text-sm font-medium rounded-md transition-all ${
+                type === TransactionType.INCOME ? 'bg-teal-50 text-teal-600' : 'text-slate-500'
+              }`}
+            >
+              {t('type.income')}
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <input type="text" placeholder={t('recurring.titlePlaceholder')} value={title} onChange={(e) => setTitle(e.target.value)} className={inputClass} required />
+            <div className="flex gap-1">
+              <input type="number" placeholder={t('recurring.amount')} value={amount} onChange={(e) => setAmount(e.target.value)} step="0.01" min="0" className={`${inputClass} font-mono min-w-0`} required />
+              <CurrencySelect value={currency} onChange={setCurrency} showNames={false} className="px-1 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none" />
+            </div>
+            <select value={frequency} onChange={(e) => setFrequency(e.target.value as RecurrenceFrequency)} className={inputClass}>
+              {Object.values(RecurrenceFrequency).map(f => (
+                <option key={f} value={f}>{t(FREQUENCY_LABELS[f])}</option>
+              ))}
+            </select>
+            <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)} className={inputClass}>
+              {categories.filter(c => c.kind === type && !c.archived).map(c => (
+                <option key={c.id} value={c.id}>{c.icon} {c.name}</option>
+              ))}
+            </select>
+            <select
+              value={accountId}
+              onChange={(e) => {
+                setAccountId(e.target.value);
+                setCurrency(accounts.find(a => a.id === e.target.value)?.currency || currency);
+              }}
+              className={`${inputClass} col-span-2`}
+            >
+              {activeAccounts.map(a => (
+                <option key={a.id} value={a.id}>{a.name}</option>
+              ))}
+            </select>
+            <label className="text-xs text-slate-500">
+              {t('recurring.startDate')}
+              <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={`${inputClass} mt-1`} required />
+            </label>
+            <label className="text-xs text-slate-500">
+              {t('recurring.endDate')}
+              <input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} className={`${inputClass} mt-1`} />
+            </label>
+          </div>
+          <button
+            type="submit"
+            className="w-full px-4 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors flex items-center justify-center gap-1"
+          >
+            <Plus className="w-4 h-4" /> {t('recurring.add')}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default RecurringManager;
@@ -0,0 +1,252 @@
+import React, { useMemo, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { Category, Transaction } from '../types';
+import {
+  OTHER_CATEGORY_ID,
+  ReportRange,
+  buildReport,
+  getChange,
+  getYearRange,
+  shiftMonth,
+} from '../services/reportService';
+import { formatCurrency, formatMonthName } from '../utils/format';
+import { t } from '../utils/i18n';
+
+interface ReportViewProps {
+  transactions: Transaction[]; // Already converted into the base currency
+  categories: Category[];
+  baseCurrency: string;
+  initialYear: number;
+  onClose: () => void;
+}
+
+const inputClass = 'px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500';
+
+const chipClass = (active: boolean) => `shrink-0 px-3 py-1 text-xs rounded-full border transition-all ${
+  active ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200 hover:border-slate-300'
+}`;
+
+const tooltipStyle = { borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' };
+
+const formatRate = (rate: number | null) => rate === null ? '—' : `${(rate * 100).toFixed(1)}%`;
+
+// Shows a relative change; `upIsGood` decides whether a rise is green (income) or red (expense)
+const Delta: React.FC<{ current: number; previous: number; upIsGood: boolean }> = ({ current, previous, upIsGood }) => {
+  const change = getChange(current, previous);
+  if (change === null) return <span className="text-slate-300">—</span>;
+  const good = upIsGood ? change >= 0 : change <= 0;
+  return (
+    <span className={good ? 'text-teal-600' : 'text-rose-500'}>
+      {change >= 0 ? '+' : ''}{(change * 100).toFixed(1)}%
+    </span>
+  );
+};
+
+const ReportView: React.FC<ReportViewProps> = ({ transactions, categories, baseCurrency, initialYear, onClose }) => {
+  const [mode, setMode] = useState<'year' | 'custom'>('year');
+  const [year, setYear] = useState(initialYear);
+  const [customRange, setCustomRange] = useState<ReportRange>(() => {
+    const range = getYearRange(initialYear);
+    return { from: shiftMonth(range.to, -11), to: range.to };
+  });
+
+  const range = mode === 'year' ? getYearRange(year) : customRange;
+  const isRangeValid = !!range.from && !!range.to && range.from <= range.to;
+
+  const report = useMemo(() => {
+    return isRangeValid ? buildReport(transactions, categories, range) : null;
+  }, [transactions, categories, range.from, range.to, isRangeValid]);
+
+  // Month names alone are ambiguous once the range crosses a year
+  const spansYears = range.from.slice(0, 4) !== range.to.slice(0, 4);
+  const monthLabel = (month: string) => spansYears ? month : formatMonthName(month);
+
+  const barData = report?.months.map(m => ({ label: monthLabel(m.month), income: m.income, expense: m.expense })) || [];
+  const shareData = report?.categorySeries.map(point => ({ ...point, label: monthLabel(point.month) })) || [];
+  const chartedShares = report?.chartedShares || [];
+  const hasOther = shareData.some(point => (point[OTHER_CATEGORY_ID] as number) > 0);
+  const hasData = !!report && report.months.some(m => m.income > 0 || m.expense > 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6 pb-4 flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 mb-1">{t('report.title')}</h3>
+            <p className="text-sm text-slate-500">{t('report.description', { currency: baseCurrency })}</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 pb-4 flex flex-wrap items-center gap-2 border-b border-slate-100">
+          <button onClick={() => setMode('year')} className={chipClass(mode === 'year')}>{t('report.year')}</button>
+          <button onClick={() => setMode('custom')} className={chipClass(mode === 'custom')}>{t('report.custom')}</button>
+          {mode === 'year' ? (
+            <div className="flex items-center gap-1 ml-auto">
+              <button onClick={() => setYear(year - 1)} className="p-1 text-slate-400 hover:text-slate-600 hover:bg-slate-50 rounded-full">
+                <ChevronLeft className="w-5 h-5" />
+              </button>
+              <span className="text-sm font-semibold text-slate-700 w-16 text-center select-none">{t('report.yearLabel', { year })}</span>
+              <button onClick={() => setYear(year + 1)} className="p-1 text-slate-400 hover:text-slate-600 hover:bg-slate-50 rounded-full">
+                <ChevronRight className="w-5 h-5" />
+              </button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 ml-auto">
+              <input
+                type="month"
+                value={customRange.from}
+                max={customRange.to}
+                onChange={(e) => setCustomRange({ ...customRange, from: e.target.value })}
+                className={inputClass}
+              />
+              <span className="text-slate-400">{t('report.rangeTo')}</span>
+              <input
+                type="month"
+                value={customRange.to}
+                min={customRange.from}
+                onChange={(e) => setCustomRange({ ...customRange, to: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {!hasData ? (
+            <div className="flex items-center justify-center h-48 text-slate-400 text-sm">
+              {isRangeValid ? t('report.noData') : t('report.invalidRange')}
+            </div>
+          ) : (
+            <>
+              {/* Totals with the change against the same period a year earlier */}
+              <section className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {[
+                  { label: t('type.income'), value: formatCurrency(report.totals.income, baseCurrency), className: 'text-teal-600', delta: <Delta current={report.totals.income} previous={report.lastYearTotals.income} upIsGood /> },
+                  { label: t('type.expense'), value: formatCurrency(report.totals.expense, baseCurrency), className: 'text-rose-500', delta: <Delta current={report.totals.expense} previous={report.lastYearTotals.expense} upIsGood={false} /> },
+                  { label: t('report.net'), value: formatCurrency(report.totals.net, baseCurrency), className: report.totals.net < 0 ? 'text-rose-500' : 'text-slate-700', delta: <Delta current={report.totals.net} previous={report.lastYearTotals.net} upIsGood /> },
+                  { label: t('report.savingsRate'), value: formatRate(report.totals.savingsRate), className: 'text-slate-700', delta: <span className="text-slate-400">{t('report.lastYear', { rate: formatRate(report.lastYearTotals.savingsRate) })}</span> },
+                ].map(card => (
+                  <div key={card.label} className="bg-slate-50 rounded-xl p-3">
+                    <p className="text-xs text-slate-400">{card.label}</p>
+                    <p className={`text-base font-mono font-semibold ${card.className}`}>{card.value}</p>
+                    <p className="text-[11px] mt-1">{t('report.yearOverYear')} {card.delta}</p>
+                  </div>
+                ))}
+              </section>
+
+              <section className="h-72">
+                <h4 className="text-sm font-semibold text-slate-600 mb-2">{t('report.monthly')}</h4>
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={barData} margin={{ top: 10, right: 10, left: -10, bottom: 20 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                    <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fill: '#94a3b8', fontSize: 12 }} />
+                    <YAxis axisLine={false} tickLine={false} tick={{ fill: '#94a3b8', fontSize: 12 }} />
+                    <Tooltip
+                      contentStyle={tooltipStyle}
+                      labelStyle={{ color: '#64748b' }}
+                      formatter={(value: number) => formatCurrency(value, baseCurrency)}
+                    />
+                    <Bar dataKey="income" name={t('type.income')} fill="#10b981" radius={[4, 4, 0, 0]} />
+                    <Bar dataKey="expense" name={t('type.expense')} fill="#f43f5e" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </section>
+
+              {/* Each bar is one month's spending split into 100% by category */}
+              {chartedShares.length > 0 && (
+                <section className="h-80">
+                  <h4 className="text-sm font-semibold text-slate-600 mb-2">{t('report.categoryShare')}</h4>
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={shareData} stackOffset="expand" margin={{ top: 10, right: 10, left: -10, bottom: 40 }}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                      <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fill: '#94a3b8', fontSize: 12 }} />
+                      <YAxis
+                        axisLine={false}
+                        tickLine={false}
+                        tick={{ fill: '#94a3b8', fontSize: 12 }}
+                        tickFormatter={(value: number) => `${Math.round(value * 100)}%`}
+                      />
+                      <Tooltip
+                        contentStyle={tooltipStyle}
+                        labelStyle={{ color: '#64748b' }}
+                        formatter={(value: number) => formatCurrency(value, baseCurrency)}
+                      />
+                      <Legend wrapperStyle={{ fontSize: 12 }} />
+                      {chartedShares.map(share => (
+                        <Bar key={share.categoryId} dataKey={share.categoryId} name={`${share.icon} ${share.name}`} stackId="share" fill={share.color} />
+                      ))}
+                      {hasOther && <Bar dataKey={OTHER_CATEGORY_ID} name={t('report.other')} stackId="share" fill="#cbd5e1" />}
+                    </BarChart>
+                  </ResponsiveContainer>
+                </section>
+              )}
+
+              <section>
+                <h4 className="text-sm font-semibold text-slate-600 mb-2">{t('report.categoryTotals')}</h4>
+                <div className="space-y-3">
+                  {report.categoryShares.map(share => (
+                    <div key={share.categoryId}>
+                      <div className="flex justify-between items-end mb-1">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium text-slate-700">{share.icon} {share.name}</span>
+                          <span className="text-xs text-slate-400 font-mono">{share.percentage.toFixed(1)}%</span>
+                        </div>
+                        <span className="text-sm font-mono font-semibold text-slate-700">{formatCurrency(share.amount, baseCurrency)}</span>
+                      </div>
+                      <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden">
+                        <div className="h-2 rounded-full" style={{ width: `${share.percentage}%`, backgroundColor: share.color }}></div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </section>
+
+              <section className="overflow-x-auto">
+                <h4 className="text-sm font-semibold text-slate-600 mb-2">{t('report.monthDetails')}</h4>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-slate-400 text-right">
+                      <th className="text-left font-medium py-2">{t('report.month')}</th>
+                      <th className="font-medium">{t('type.income')}</th>
+                      <th className="font-medium">{t('type.expense')}</th>
+                      <th className="font-medium">{t('report.savingsRate')}</th>
+                      <th className="font-medium">{t('report.expenseMoM')}</th>
+                      <th className="font-medium">{t('report.expenseYoY')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {report.months.map(m => (
+                      <tr key={m.month} className="text-right font-mono">
+                        <td className="text-left font-sans text-slate-600 py-2">{monthLabel(m.month)}</td>
+                        <td className="text-teal-600">{formatCurrency(m.income, baseCurrency)}</td>
+                        <td className="text-rose-500">{formatCurrency(m.expense, baseCurrency)}</td>
+                        <td className="text-slate-600">{formatRate(m.savingsRate)}</td>
+                        <td><Delta current={m.expense} previous={m.previousMonth.expense} upIsGood={false} /></td>
+                        <td><Delta current={m.expense} previous={m.lastYear.expense} upIsGood={false} /></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportView;
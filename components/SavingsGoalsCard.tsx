@@ -0,0 +1,59 @@
+import React from 'react';
+import { PiggyBank } from 'lucide-react';
+import { SavingsGoal } from '../types';
+import { getGoalProgress } from '../services/goalService';
+import { formatCurrency, formatDate } from '../utils/format';
+import { t } from '../utils/i18n';
+import ProgressRing from './ProgressRing';
+
+interface SavingsGoalsCardProps {
+  goals: SavingsGoal[];
+  currency: string;
+  currentMonth: string; // YYYY-MM the required amounts are counted from
+  onManage: () => void;
+}
+
+const SavingsGoalsCard: React.FC<SavingsGoalsCardProps> = ({ goals, currency, currentMonth, onManage }) => {
+  return (
+    <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-5">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-slate-600 flex items-center gap-2">
+          <PiggyBank className="w-4 h-4" /> {t('goals.title')}
+        </h3>
+        <button onClick={onManage} className="text-xs text-slate-500 hover:text-slate-700">
+          {t('goals.manage')}
+        </button>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {goals.map(goal => {
+          const progress = getGoalProgress(goal, currentMonth);
+          return (
+            <div key={goal.id} className="flex items-center gap-3">
+              <ProgressRing
+                ratio={progress.ratio}
+                className={progress.isComplete ? 'text-emerald-500' : progress.isOverdue ? 'text-rose-400' : 'text-teal-500'}
+              >
+                <span className="text-xs font-semibold text-slate-600">{Math.round(progress.ratio * 100)}%</span>
+              </ProgressRing>
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-slate-800 truncate">{goal.icon} {goal.name}</p>
+                <p className="text-xs text-slate-500">
+                  {t('goals.saved', { saved: formatCurrency(progress.saved, currency), target: formatCurrency(goal.targetAmount, currency) })}
+                </p>
+                <p className={`text-xs ${progress.isOverdue ? 'text-rose-500' : 'text-slate-400'}`}>
+                  {progress.isComplete
+                    ? t('goals.complete')
+                    : progress.isOverdue
+                      ? t('goals.overdue', { amount: formatCurrency(progress.remaining, currency) })
+                      : `${t('goals.required', { amount: formatCurrency(progress.requiredPerMonth, currency) })} · ${t('goals.deadline', { date: formatDate(goal.deadline) })}`}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
+export default SavingsGoalsCard;
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Archive, ArchiveRestore, HandCoins, Plus, Trash2, X } from 'lucide-react';
+import { Account, Person, Transaction } from '../types';
+import { isPersonReferenced } from '../services/splitService';
+import { formatCurrency } from '../utils/format';
+import { t } from '../utils/i18n';
+
+interface SplitBalancesProps {
+  people: Person[];
+  balances: Map<string, number>; // In the base currency; positive when they owe me
+  transactions: Transaction[];
+  accounts: Account[];
+  currency: string;
+  onChangePeople: (people: Person[]) => void;
+  onSettle: (personId: string, accountId: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500';
+
+const SplitBalances: React.FC<SplitBalancesProps> = ({ people, balances, transactions, accounts, currency, onChangePeople, onSettle, onClose }) => {
+  const activeAccounts = accounts.filter(a => !a.archived);
+  const [settlingId, setSettlingId] = useState<string | null>(null);
+  const [settleAccountId, setSettleAccountId] = useState(activeAccounts[0]?.id || '');
+  const [newName, setNewName] = useState('');
+
+  const owing = people.filter(p => balances.has(p.id));
+
+  const addPerson = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    onChangePeople([...people, { id: crypto.randomUUID(), name }]);
+    setNewName('');
+  };
+
+  const removePerson = (person: Person) => {
+    if (isPersonReferenced(person.id, transactions)) {
+      onChangePeople(people.map(p => p.id === person.id ? { ...p, archived: true } : p));
+    } else {
+      onChangePeople(people.filter(p => p.id !== person.id));
+    }
+  };
+
+  const restorePerson = (person: Person) => {
+    onChangePeople(people.map(p => p.id === person.id ? { ...p, archived: undefined } : p));
+  };
+
+  const settle = (personId: string) => {
+    if (!settleAccountId) return;
+    onSettle(personId, settleAccountId);
+    setSettlingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6 pb-4 flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 mb-1">{t('split.balancesTitle')}</h3>
+            <p className="text-sm text-slate-500">{t('split.balancesDescription', { currency })}</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-4">
+          <div className="space-y-2">
+            {owing.length === 0 && (
+              <div className="text-center py-6 text-sm text-slate-400 border border-dashed border-slate-200 rounded-lg">
+                {t('split.allSettled')}
+              </div>
+            )}
+            {owing.map(person => {
+              const balance = balances.get(person.id) || 0;
+              return (
+                <div key={person.id} className="rounded-lg border border-slate-100 p-3">
+                  <div className="flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-slate-500 truncate">
+                        {balance > 0 ? t('split.owesYou', { name: person.name }) : t('split.youOwe', { name: person.name })}
+                      </p>
+                      <p className={`text-base font-bold font-mono ${balance > 0 ? 'text-emerald-600' : 'text-rose-500'}`}>
+                        {formatCurrency(Math.abs(balance), currency)}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => setSettlingId(settlingId === person.id ? null : person.id)}
+                      className="shrink-0 px-3 py-1.5 text-xs font-medium bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 flex items-center gap-1"
+                    >
+                      <HandCoins className="w-3.5 h-3.5" /> {t('split.settleUp')}
+                    </button>
+                  </div>
+                  {settlingId === person.id && (
+                    <div className="flex items-center gap-2 mt-3">
+                      <label className="shrink-0 text-xs text-slate-500">{t('split.settleAccount')}</label>
+                      <select
+                        value={settleAccountId}
+                        onChange={(e) => setSettleAccountId(e.target.value)}
+                        className={inputClass}
+                      >
+                        {activeAccounts.map(account => (
+                          <option key={account.id} value={account.id}>{account.name}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => settle(person.id)}
+                        disabled={!settleAccountId}
+                        className="shrink-0 px-3 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 disabled:opacity-50"
+                      >
+                        {t('split.settleConfirm')}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div>
+            <p className="text-xs font-semibold text-slate-500 uppercase mb-2">{t('split.people')}</p>
+            {people.length === 0 && <p className="text-sm text-slate-400">{t('split.noPeople')}</p>}
+            <div className="space-y-1">
+              {people.map(person => (
+                <div key={person.id} className="flex items-center gap-2 py-1">
+                  <span className={`flex-1 min-w-0 truncate text-sm ${person.archived ? 'text-slate-400' : 'text-slate-700'}`}>{person.name}</span>
+                  {person.archived ? (
+                    <button onClick={() => restorePerson(person)} className="p-1 text-slate-400 hover:text-slate-600" title={t('split.restorePerson')}>
+                      <ArchiveRestore className="w-4 h-4" />
+                    </button>
+                  ) : isPersonReferenced(person.id, transactions) ? (
+                    <button onClick={() => removePerson(person)} className="p-1 text-slate-400 hover:text-slate-600" title={`${t('split.archive')} · ${t('split.archiveHint')}`}>
+                      <Archive className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button onClick={() => removePerson(person)} className="p-1 text-slate-400 hover:text-red-400" title={t('split.delete')}>
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <form onSubmit={addPerson} className="bg-slate-50 px-6 py-4 border-t border-slate-100 flex gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder={t('split.newPerson')}
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            className="shrink-0 px-4 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors flex items-center gap-1"
+          >
+            <Plus className="w-4 h-4" /> {t('split.addPerson')}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SplitBalances;
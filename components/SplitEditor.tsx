@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { UserPlus } from 'lucide-react';
+import { Person, SplitMode } from '../types';
+import { SELF_PERSON_ID, SplitDraft, buildSplit, createSplitDraft } from '../services/splitService';
+import { formatCurrency } from '../utils/format';
+import { MessageKey, t } from '../utils/i18n';
+
+interface SplitEditorProps {
+  amount: number; // The whole bill, NaN while the amount field is invalid
+  currency: string;
+  draft: SplitDraft | null; // Null when the bill is not shared
+  people: Person[];
+  onChange: (draft: SplitDraft | null) => void;
+  onAddPerson: (name: string) => Person;
+}
+
+const MODE_LABELS: Record<SplitMode, MessageKey> = {
+  equal: 'split.modeEqual',
+  amount: 'split.modeAmount',
+  percent: 'split.modePercent',
+};
+
+const inputClass = 'px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500';
+
+const SplitEditor: React.FC<SplitEditorProps> = ({ amount, currency, draft, people, onChange, onAddPerson }) => {
+  const [newName, setNewName] = useState('');
+
+  if (!draft) {
+    return (
+      <button
+        type="button"
+        onClick={() => onChange(createSplitDraft())}
+        className="text-xs font-medium text-teal-600 hover:text-teal-700"
+      >
+        + {t('split.start')}
+      </button>
+    );
+  }
+
+  const involved = new Set([draft.paidBy, ...draft.participants.map(p => p.personId)]);
+  // Archived people only show up on bills they are already part of
+  const visiblePeople = people.filter(p => !p.archived || involved.has(p.id));
+  const everyone = [{ id: SELF_PERSON_ID, name: t('split.me') }, ...visiblePeople];
+  const preview = isNaN(amount) ? null : buildSplit(amount, draft);
+  const shareOf = (personId: string) => preview?.split?.shares.find(s => s.personId === personId)?.amount;
+
+  const setParticipants = (participants: SplitDraft['participants']) => {
+    // Kept in the order people are listed in
+    const order = everyone.map(p => p.id);
+    onChange({ ...draft, participants: [...participants].sort((a, b) => order.indexOf(a.personId) - order.indexOf(b.personId)) });
+  };
+
+  const toggleParticipant = (personId: string) => {
+    const included = draft.participants.some(p => p.personId === personId);
+    setParticipants(included
+      ? draft.participants.filter(p => p.personId !== personId)
+      : [...draft.participants, { personId, value: '' }]);
+  };
+
+  const setValue = (personId: string, value: string) => {
+    onChange({ ...draft, participants: draft.participants.map(p => p.personId === personId ? { ...p, value } : p) });
+  };
+
+  const addPerson = () => {
+    const name = newName.trim();
+    if (!name) return;
+    const person = onAddPerson(name);
+    setNewName('');
+    onChange({ ...draft, participants: [...draft.participants, { personId: person.id, value: '' }] });
+  };
+
+  return (
+    <div className="rounded-lg border border-slate-200 p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold text-slate-500 uppercase">{t('split.title')}</span>
+        <button type="button" onClick={() => onChange(null)} className="text-xs text-slate-400 hover:text-slate-600">
+          {t('split.stop')}
+        </button>
+      </div>
+
+      <div className="flex bg-slate-50 rounded-lg p-1 border border-slate-200">
+        {(Object.keys(MODE_LABELS) as SplitMode[]).map(mode => (
+          <button
+            key={mode}
+            type="button"
+            onClick={() => onChange({ ...draft, mode })}
+            className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${
+              draft.mode === mode ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+            }`}
+          >
+            {t(MODE_LABELS[mode])}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-slate-500">
+        {t('split.paidBy')}
+        <select
+          value={draft.paidBy}
+          onChange={(e) => onChange({ ...draft, paidBy: e.target.value })}
+          className={`${inputClass} flex-1 py-1.5`}
+        >
+          {everyone.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="space-y-1.5">
+        {everyone.map(person => {
+          const participant = draft.participants.find(p => p.personId === person.id);
+          const share = shareOf(person.id);
+          return (
+            <div key={person.id} className="flex items-center gap-2 text-sm">
+              <label className="flex items-center gap-2 flex-1 min-w-0 text-slate-700">
+                <input type="checkbox" checked={!!participant} onChange={() => toggleParticipant(person.id)} />
+                <span className="truncate">{person.name}</span>
+              </label>
+              {participant && draft.mode !== 'equal' && (
+                <input
+                  type="number"
+                  value={participant.value}
+                  onChange={(e) => setValue(person.id, e.target.value)}
+                  placeholder={draft.mode === 'percent' ? '%' : currency}
+                  step="0.01"
+                  min="0"
+                  className={`${inputClass} w-24 py-1 font-mono`}
+                />
+              )}
+              {participant && share !== undefined && (
+                <span className="w-24 text-right text-xs font-mono text-slate-500">{formatCurrency(share, currency)}</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addPerson();
+            }
+          }}
+          placeholder={t('split.newPerson')}
+          className={`${inputClass} flex-1 min-w-0 py-1.5`}
+        />
+        <button
+          type="button"
+          onClick={addPerson}
+          className="shrink-0 p-2 text-slate-500 hover:text-slate-700"
+          title={t('split.addPerson')}
+        >
+          <UserPlus className="w-4 h-4" />
+        </button>
+      </div>
+
+      {preview?.error && <p className="text-xs text-rose-500">{preview.error}</p>}
+    </div>
+  );
+};
+
+export default SplitEditor;
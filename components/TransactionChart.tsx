@@ -1,7 +1,9 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   AreaChart,
   Area,
+  ComposedChart,
+  Line,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -9,78 +11,162 @@ import {
   ResponsiveContainer,
 } from 'recharts';
 import { ChartDataPoint } from '../types';
+import { formatCurrency } from '../utils/format';
+import { MessageKey, t } from '../utils/i18n';
 
 interface TransactionChartProps {
   data: ChartDataPoint[];
+  currency: string;
 }
 
-const TransactionChart: React.FC<TransactionChartProps> = ({ data }) => {
+type ChartMode = 'daily' | 'cumulative';
+
+const axisProps = {
+  axisLine: false,
+  tickLine: false,
+  tick: { fill: '#94a3b8', fontSize: 12 },
+};
+
+const tooltipProps = {
+  contentStyle: { borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' },
+  labelStyle: { color: '#64748b' },
+};
+
+const TransactionChart: React.FC<TransactionChartProps> = ({ data, currency }) => {
+  const [mode, setMode] = useState<ChartMode>('daily');
+
   if (data.length === 0) {
     return (
       <div className="flex items-center justify-center h-64 bg-white/50 rounded-xl border border-slate-100 text-slate-400">
-        暂无本月数据
+        {t('chart.noData')}
       </div>
     );
   }
 
+  // Days still to come only carry the budget and projection lines
+  const dailyData = data.filter(point => point.expense !== undefined);
+  const last = data[data.length - 1];
+  const monthEndSpend = last.projected ?? last.cumulativeExpense ?? 0;
+
+  const formatAmount = (value: number) => formatCurrency(value, currency);
+
   return (
-    <div className="h-72 w-full bg-white rounded-xl p-4 shadow-sm border border-slate-100">
-      <h3 className="text-sm font-semibold text-slate-600 mb-4">收支趋势</h3>
+    <div className="h-80 w-full bg-white rounded-xl p-4 pb-10 shadow-sm border border-slate-100">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-slate-600">{mode === 'daily' ? t('chart.trend') : t('chart.cumulative')}</h3>
+        <div className="flex bg-slate-100 rounded-lg p-0.5 text-xs">
+          {([['daily', 'chart.daily'], ['cumulative', 'chart.cumulativeMode']] as [ChartMode, MessageKey][]).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              className={`px-2.5 py-1 rounded-md transition-all ${mode === value ? 'bg-white shadow-sm text-slate-700' : 'text-slate-500'}`}
+            >
+              {t(label)}
+            </button>
+          ))}
+        </div>
+      </div>
+      {mode === 'cumulative' && (
+        <p className="text-xs text-slate-500 -mt-2 mb-2">
+          {last.projected !== undefined ? t('chart.projected') : t('chart.spent')}{' '}
+          <span className={`font-mono font-semibold ${last.budget !== undefined && monthEndSpend > last.budget ? 'text-rose-500' : 'text-slate-700'}`}>
+            {formatAmount(monthEndSpend)}
+          </span>
+          {last.budget !== undefined && <> / {t('chart.budget')} <span className="font-mono">{formatAmount(last.budget)}</span></>}
+        </p>
+      )}
       <ResponsiveContainer width="100%" height="100%">
-        <AreaChart
-          data={data}
-          margin={{
-            top: 10,
-            right: 10,
-            left: -20,
-            bottom: 0,
-          }}
-        >
-          <defs>
-            <linearGradient id="colorIncome" x1="0" y1="0" x2="0" y2="1">
-              <stop offset="5%" stopColor="#10b981" stopOpacity={0.2} />
-              <stop offset="95%" stopColor="#10b981" stopOpacity={0} />
-            </linearGradient>
-            <linearGradient id="colorExpense" x1="0" y1="0" x2="0" y2="1">
-              <stop offset="5%" stopColor="#f43f5e" stopOpacity={0.2} />
-              <stop offset="95%" stopColor="#f43f5e" stopOpacity={0} />
-            </linearGradient>
-          </defs>
-          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-          <XAxis 
-            dataKey="date" 
-            axisLine={false} 
-            tickLine={false} 
-            tick={{ fill: '#94a3b8', fontSize: 12 }} 
-          />
-          <YAxis 
-            axisLine={false} 
-            tickLine={false} 
-            tick={{ fill: '#94a3b8', fontSize: 12 }} 
-          />
-          <Tooltip 
-            contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
-            labelStyle={{ color: '#64748b' }}
-          />
-          <Area
-            type="monotone"
-            dataKey="income"
-            stroke="#10b981"
-            fillOpacity={1}
-            fill="url(#colorIncome)"
-            name="收入"
-            strokeWidth={2}
-          />
-          <Area
-            type="monotone"
-            dataKey="expense"
-            stroke="#f43f5e"
-            fillOpacity={1}
-            fill="url(#colorExpense)"
-            name="支出"
-            strokeWidth={2}
-          />
-        </AreaChart>
+        {mode === 'daily' ? (
+          <AreaChart
+            data={dailyData}
+            margin={{
+              top: 10,
+              right: 10,
+              left: -20,
+              bottom: 0,
+            }}
+          >
+            <defs>
+              <linearGradient id="colorIncome" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="#10b981" stopOpacity={0.2} />
+                <stop offset="95%" stopColor="#10b981" stopOpacity={0} />
+              </linearGradient>
+              <linearGradient id="colorExpense" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="#f43f5e" stopOpacity={0.2} />
+                <stop offset="95%" stopColor="#f43f5e" stopOpacity={0} />
+              </linearGradient>
+            </defs>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis dataKey="date" {...axisProps} />
+            <YAxis {...axisProps} />
+            <Tooltip {...tooltipProps} />
+            <Area
+              type="monotone"
+              dataKey="income"
+              stroke="#10b981"
+              fillOpacity={1}
+              fill="url(#colorIncome)"
+              name={t('type.income')}
+              strokeWidth={2}
+            />
+            <Area
+              type="monotone"
+              dataKey="expense"
+              stroke="#f43f5e"
+              fillOpacity={1}
+              fill="url(#colorExpense)"
+              name={t('type.expense')}
+              strokeWidth={2}
+            />
+          </AreaChart>
+        ) : (
+          <ComposedChart
+            data={data}
+            margin={{
+              top: 10,
+              right: 10,
+              left: -20,
+              bottom: 0,
+            }}
+          >
+            <defs>
+              <linearGradient id="colorCumulative" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="#f43f5e" stopOpacity={0.2} />
+                <stop offset="95%" stopColor="#f43f5e" stopOpacity={0} />
+              </linearGradient>
+            </defs>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis dataKey="date" {...axisProps} />
+            <YAxis {...axisProps} />
+            <Tooltip {...tooltipProps} formatter={(value: number) => formatAmount(value)} />
+            <Area
+              type="monotone"
+              dataKey="cumulativeExpense"
+              stroke="#f43f5e"
+              fillOpacity={1}
+              fill="url(#colorCumulative)"
+              name={t('chart.cumulative')}
+              strokeWidth={2}
+            />
+            <Line
+              type="linear"
+              dataKey="budget"
+              stroke="#94a3b8"
+              strokeDasharray="4 4"
+              dot={false}
+              name={t('chart.budgetLine')}
+            />
+            <Line
+              type="linear"
+              dataKey="projected"
+              stroke="#f59e0b"
+              strokeDasharray="4 4"
+              dot={false}
+              name={t('chart.projection')}
+              connectNulls
+            />
+          </ComposedChart>
+        )}
       </ResponsiveContainer>
     </div>
   );
@@ -0,0 +1,293 @@
+import React, { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { Account, Attachment, Category, Person, Transaction, TransactionType } from '../types';
+import { getFallbackCategoryId } from '../services/categoryService';
+import { parseTagInput } from '../services/searchService';
+import { SplitDraft, buildSplit, createSplitDraft } from '../services/splitService';
+import { MessageKey, t } from '../utils/i18n';
+import AttachmentGallery from './AttachmentGallery';
+import CurrencySelect from './CurrencySelect';
+import SplitEditor from './SplitEditor';
+
+interface TransactionEditModalProps {
+  transaction: Transaction;
+  categories: Category[];
+  accounts: Account[];
+  people: Person[];
+  isRecurring: boolean; // Generated by a recurring rule that still exists
+  onSave: (transaction: Transaction, applyToSeries: boolean) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+  loadAttachment: (id: string) => Promise<Attachment | undefined>;
+  onAddPerson: (name: string) => Person;
+}
+
+const TYPE_LABELS: Record<TransactionType, MessageKey> = {
+  [TransactionType.EXPENSE]: 'type.expense',
+  [TransactionType.INCOME]: 'type.income',
+  [TransactionType.TRANSFER]: 'type.transfer',
+};
+
+const TYPE_ACTIVE_CLASS: Record<TransactionType, string> = {
+  [TransactionType.EXPENSE]: 'text-rose-500',
+  [TransactionType.INCOME]: 'text-teal-600',
+  [TransactionType.TRANSFER]: 'text-blue-500',
+};
+
+const inputClass = 'w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 transition-all text-sm';
+
+const TransactionEditModal: React.FC<TransactionEditModalProps> = ({ transaction, categories, accounts, people, isRecurring, onSave, onDelete, onClose, loadAttachment, onAddPerson }) => {
+  const [title, setTitle] = useState(transaction.title);
+  const [amount, setAmount] = useState(transaction.amount.toString());
+  const [currency, setCurrency] = useState(transaction.currency);
+  const [type, setType] = useState<TransactionType>(transaction.type);
+  const [date, setDate] = useState(transaction.date);
+  const [categoryId, setCategoryId] = useState(transaction.categoryId);
+  const [accountId, setAccountId] = useState(transaction.accountId);
+  const [toAccountId, setToAccountId] = useState(transaction.toAccountId || '');
+  const [toAmount, setToAmount] = useState(transaction.toAmount?.toString() || '');
+  const [note, setNote] = useState(transaction.note || '');
+  const [tagInput, setTagInput] = useState((transaction.tags || []).join(' '));
+  const [applyToSeries, setApplyToSeries] = useState(false);
+  const [splitDraft, setSplitDraft] = useState<SplitDraft | null>(transaction.split ? createSplitDraft(transaction.split) : null);
+
+  // Archived categories are hidden unless the transaction already uses one
+  const options = categories.filter(c => c.kind === type && (!c.archived || c.id === transaction.categoryId));
+  const accountOptions = accounts.filter(a => !a.archived || a.id === transaction.accountId || a.id === transaction.toAccountId);
+  const isTransfer = type === TransactionType.TRANSFER;
+  // Only bills can be shared; repayments settle them
+  const canSplit = type === TransactionType.EXPENSE && !transaction.settlesWith;
+  const fromAccount = accounts.find(a => a.id === accountId);
+  const toAccount = accounts.find(a => a.id === toAccountId);
+  const crossCurrency = isTransfer && !!fromAccount && !!toAccount && fromAccount.currency !== toAccount.currency;
+
+  // Generated transactions must stay income or expense like their rule
+  const typeOptions = isRecurring
+    ? [TransactionType.EXPENSE, TransactionType.INCOME]
+    : [TransactionType.EXPENSE, TransactionType.INCOME, TransactionType.TRANSFER];
+
+  const changeType = (next: TransactionType) => {
+    setType(next);
+    if (next === type) return;
+    if (next === TransactionType.TRANSFER) {
+      setCategoryId('');
+      if (fromAccount) setCurrency(fromAccount.currency);
+      if (!toAccountId) setToAccountId(accountOptions.find(a => a.id !== accountId && !a.archived)?.id || '');
+    } else {
+      setCategoryId(getFallbackCategoryId(next));
+    }
+  };
+
+  const changeAccount = (id: string) => {
+    setAccountId(id);
+    const account = accounts.find(a => a.id === id);
+    // A transfer always leaves in the source account's currency
+    if (account && isTransfer) setCurrency(account.currency);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = parseFloat(amount);
+    // Transfers may go untitled, like in the add form
+    const trimmedTitle = title.trim() || (isTransfer ? t('type.transfer') : '');
+    if (!trimmedTitle || isNaN(parsed) || parsed <= 0 || !date) return;
+    if (isTransfer && (!toAccountId || toAccountId === accountId)) return;
+    const parsedToAmount = parseFloat(toAmount);
+    const tags = parseTagInput(tagInput);
+    const splitResult = canSplit && splitDraft ? buildSplit(parsed, splitDraft) : null;
+    if (splitResult?.error) return;
+    onSave({
+      ...transaction,
+      title: trimmedTitle,
+      amount: parsed,
+      currency,
+      type,
+      date,
+      categoryId,
+      accountId,
+      toAccountId: isTransfer ? toAccountId : undefined,
+      toAmount: crossCurrency && parsedToAmount > 0 ? parsedToAmount : undefined,
+      note: note.trim() || undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      split: splitResult?.split || undefined,
+    }, applyToSeries);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-2xl shadow-xl w-full max-w-sm max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200"
+      >
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <h3 className="text-lg font-bold text-slate-800">{t('edit.title')}</h3>
+
+          <div className="flex bg-slate-50 rounded-lg p-1 border border-slate-200">
+            {typeOptions.map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => changeType(option)}
+                className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${
+                  type === option ? `bg-white shadow-sm ${TYPE_ACTIVE_CLASS[option]}` : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {t(TYPE_LABELS[option])}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{t('edit.name')}</label>
+            <input type="text" value={title} onChange={(e) => setTitle(e.target.value)} className={inputClass} required={!isTransfer} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{t('edit.amount')}</label>
+              <div className="flex gap-1">
+                <input
+                  type="number"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  step="0.01"
+                  min="0"
+                  className={`${inputClass} font-mono min-w-0`}
+                  required
+                />
+                <CurrencySelect
+                  value={currency}
+                  onChange={setCurrency}
+                  disabled={isTransfer}
+                  showNames={false}
+                  className="px-1 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{t('edit.date')}</label>
+              <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} required />
+            </div>
+          </div>
+
+          {isRecurring && (
+            <div className="flex bg-slate-50 rounded-lg p-1 border border-slate-200">
+              {[false, true].map(series => (
+                <button
+                  key={String(series)}
+                  type="button"
+                  onClick={() => setApplyToSeries(series)}
+                  className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${
+                    applyToSeries === series ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  {series ? t('edit.applyToSeries') : t('edit.applyToOne')}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{isTransfer ? t('edit.fromAccount') : t('edit.account')}</label>
+              <select value={accountId} onChange={(e) => changeAccount(e.target.value)} className={inputClass}>
+                {accountOptions.map(a => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+              </select>
+            </div>
+            {isTransfer ? (
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{t('edit.toAccount')}</label>
+                <select value={toAccountId} onChange={(e) => setToAccountId(e.target.value)} className={inputClass} required>
+                  <option value="">{t('edit.choose')}</option>
+                  {accountOptions.filter(a => a.id !== accountId).map(a => (
+                    <option key={a.id} value={a.id}>{a.name}</option>
+                  ))}
+                </select>
+              </div>
+            ) : (
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{t('edit.category')}</label>
+                <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)} className={inputClass}>
+                  {options.map(c => (
+                    <option key={c.id} value={c.id}>{c.icon} {c.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          {crossCurrency && (
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{t('edit.toAmount', { currency: toAccount.currency })}</label>
+              <input
+                type="number"
+                value={toAmount}
+                onChange={(e) => setToAmount(e.target.value)}
+                step="0.01"
+                min="0"
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+          )}
+
+          {canSplit && (
+            <SplitEditor
+              amount={parseFloat(amount)}
+              currency={currency}
+              draft={splitDraft}
+              people={people}
+              onChange={setSplitDraft}
+              onAddPerson={onAddPerson}
+            />
+          )}
+
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{t('edit.tags')}</label>
+            <input type="text" value={tagInput} onChange={(e) => setTagInput(e.target.value)} placeholder={t('edit.tagsPlaceholder')} className={inputClass} />
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{t('edit.note')}</label>
+            <textarea value={note} onChange={(e) => setNote(e.target.value)} rows={2} className={`${inputClass} resize-none`} />
+          </div>
+
+          {transaction.attachmentIds && transaction.attachmentIds.length > 0 && (
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{t('edit.attachments')}</label>
+              <AttachmentGallery attachmentIds={transaction.attachmentIds} loadAttachment={loadAttachment} />
+            </div>
+          )}
+        </div>
+
+        <div className="bg-slate-50 px-6 py-4 flex gap-3 justify-between border-t border-slate-100">
+          <button
+            type="button"
+            onClick={() => onDelete(transaction.id)}
+            className="px-3 py-2 text-sm font-medium text-rose-500 hover:text-rose-600 transition-colors flex items-center gap-1"
+          >
+            <Trash2 className="w-4 h-4" /> {t('edit.delete')}
+          </button>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors"
+            >
+              {t('common.save')}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default TransactionEditModal;
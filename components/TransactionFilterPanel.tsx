@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import { BookmarkPlus, FilterX, Search, SlidersHorizontal, X } from 'lucide-react';
+import { Category, DatePreset, SavedFilter, TransactionFilter, TransactionType } from '../types';
+import { EMPTY_FILTER, FilterTotals, isFilterActive } from '../services/searchService';
+import { formatCurrency } from '../utils/format';
+import { MessageKey, t } from '../utils/i18n';
+
+const TYPE_OPTIONS: { type: TransactionType; label: MessageKey }[] = [
+  { type: TransactionType.EXPENSE, label: 'type.expense' },
+  { type: TransactionType.INCOME, label: 'type.income' },
+  { type: TransactionType.TRANSFER, label: 'type.transfer' },
+];
+
+const DATE_PRESETS: { preset: DatePreset; label: MessageKey }[] = [
+  { preset: 'all', label: 'filter.allTime' },
+  { preset: 'thisMonth', label: 'filter.thisMonth' },
+  { preset: 'last30', label: 'filter.last30' },
+  { preset: 'thisYear', label: 'filter.thisYear' },
+  { preset: 'custom', label: 'filter.custom' },
+];
+
+interface TransactionFilterPanelProps {
+  filter: TransactionFilter;
+  categories: Category[];
+  tags: { tag: string; count: number }[];
+  savedFilters: SavedFilter[];
+  totals: FilterTotals | null; // Null while no filter is active
+  currency: string; // Base currency the totals are in
+  onChange: (filter: TransactionFilter) => void;
+  onSavedFiltersChange: (savedFilters: SavedFilter[]) => void;
+}
+
+const inputClass = 'px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500';
+
+const chipClass = (active: boolean) => `shrink-0 px-3 py-1 text-xs rounded-full border transition-all ${
+  active ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200 hover:border-slate-300'
+}`;
+
+const toggle = <T,>(list: T[], item: T): T[] => {
+  return list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+};
+
+const parseOptionalAmount = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+const TransactionFilterPanel: React.FC<TransactionFilterPanelProps> = ({
+  filter,
+  categories,
+  tags,
+  savedFilters,
+  totals,
+  currency,
+  onChange,
+  onSavedFiltersChange
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [saveName, setSaveName] = useState('');
+
+  const update = (patch: Partial<TransactionFilter>) => onChange({ ...filter, ...patch });
+  const active = isFilterActive(filter);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = saveName.trim();
+    if (!name || !active) return;
+    onSavedFiltersChange([...savedFilters, { id: crypto.randomUUID(), name, filter }]);
+    setSaveName('');
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-100 shadow-sm p-4 space-y-3">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            placeholder={t('filter.searchPlaceholder')}
+            value={filter.query}
+            onChange={(e) => update({ query: e.target.value })}
+            className={`${inputClass} w-full pl-9`}
+          />
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className={`p-2 rounded-lg border transition-colors ${
+            isExpanded ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'
+          }`}
+          title={t('filter.more')}
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+        </button>
+        {active && (
+          <button
+            onClick={() => onChange(EMPTY_FILTER)}
+            className="p-2 rounded-lg border border-slate-200 text-slate-500 hover:border-slate-300 transition-colors"
+            title={t('filter.clear')}
+          >
+            <FilterX className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {savedFilters.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {savedFilters.map(saved => (
+            <span key={saved.id} className={`${chipClass(false)} flex items-center gap-1`}>
+              <button onClick={() => onChange(saved.filter)}>{saved.name}</button>
+              <button
+                onClick={() => onSavedFiltersChange(savedFilters.filter(s => s.id !== saved.id))}
+                className="text-slate-300 hover:text-red-400"
+                title={t('filter.deleteSaved')}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {isExpanded && (
+        <div className="space-y-3 pt-1">
+          <div className="flex flex-wrap gap-2">
+            {TYPE_OPTIONS.map(option => (
+              <button
+                key={option.type}
+                onClick={() => update({ types: toggle(filter.types, option.type) })}
+                className={chipClass(filter.types.includes(option.type))}
+              >
+                {t(option.label)}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {DATE_PRESETS.map(option => (
+              <button
+                key={option.preset}
+                onClick={() => update({ datePreset: option.preset })}
+                className={chipClass(filter.datePreset === option.preset)}
+              >
+                {t(option.label)}
+              </button>
+            ))}
+          </div>
+          {filter.datePreset === 'custom' && (
+            <div className="grid grid-cols-2 gap-2">
+              <input type="date" value={filter.from || ''} max={filter.to} onChange={(e) => update({ from: e.target.value || undefined })} className={inputClass} />
+              <input type="date" value={filter.to || ''} min={filter.from} onChange={(e) => update({ to: e.target.value || undefined })} className={inputClass} />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="number"
+              placeholder={t('filter.minAmount', { currency })}
+              value={filter.minAmount ?? ''}
+              onChange={(e) => update({ minAmount: parseOptionalAmount(e.target.value) })}
+              min="0"
+              className={`${inputClass} font-mono`}
+            />
+            <input
+              type="number"
+              placeholder={t('filter.maxAmount', { currency })}
+              value={filter.maxAmount ?? ''}
+              onChange={(e) => update({ maxAmount: parseOptionalAmount(e.target.value) })}
+              min="0"
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {categories.filter(c => !c.archived || filter.categoryIds.includes(c.id)).map(cat => (
+              <button
+                key={cat.id}
+                onClick={() => update({ categoryIds: toggle(filter.categoryIds, cat.id) })}
+                className={chipClass(filter.categoryIds.includes(cat.id))}
+              >
+                {cat.icon} {cat.name}
+              </button>
+            ))}
+          </div>
+
+          {tags.length > 0 && (
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {tags.map(({ tag, count }) => (
+                <button
+                  key={tag}
+                  onClick={() => update({ tags: toggle(filter.tags, tag) })}
+                  className={chipClass(filter.tags.includes(tag))}
+                >
+                  #{tag} <span className="opacity-60">{count}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {active && (
+            <form onSubmit={handleSave} className="flex gap-2">
+              <input
+                type="text"
+                placeholder={t('filter.savePlaceholder')}
+                value={saveName}
+                onChange={(e) => setSaveName(e.target.value)}
+                className={`${inputClass} flex-1`}
+              />
+              <button
+                type="submit"
+                className="px-3 py-1.5 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors flex items-center gap-1"
+              >
+                <BookmarkPlus className="w-4 h-4" /> {t('common.save')}
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+
+      {totals && (
+        <div className="grid grid-cols-4 gap-2 text-center bg-slate-50 rounded-lg py-2">
+          <div>
+            <p className="text-[11px] text-slate-400">{t('filter.count')}</p>
+            <p className="text-sm font-semibold text-slate-700">{totals.count}</p>
+          </div>
+          <div>
+            <p className="text-[11px] text-slate-400">{t('type.expense')}</p>
+            <p className="text-sm font-mono font-semibold text-rose-500">{formatCurrency(totals.expense, currency)}</p>
+          </div>
+          <div>
+            <p className="text-[11px] text-slate-400">{t('type.income')}</p>
+            <p className="text-sm font-mono font-semibold text-teal-600">{formatCurrency(totals.income, currency)}</p>
+          </div>
+          <div>
+            <p className="text-[11px] text-slate-400">{t('filter.net')}</p>
+            <p className={`text-sm font-mono font-semibold ${totals.net < 0 ? 'text-rose-500' : 'text-slate-700'}`}>
+              {formatCurrency(totals.net, currency)}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransactionFilterPanel;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { RotateCcw, Trash2, X } from 'lucide-react';
+import { Category, TransactionType, TrashedTransaction } from '../types';
+import { TRASH_RETENTION_DAYS, getDaysLeft } from '../services/trashService';
+import { formatCurrency } from '../utils/format';
+import { t } from '../utils/i18n';
+
+interface TrashBinProps {
+  trash: TrashedTransaction[];
+  categories: Category[];
+  onRestore: (ids: string[]) => void;
+  onDeleteForever: (ids: string[]) => void;
+  onClose: () => void;
+}
+
+const TrashBin: React.FC<TrashBinProps> = ({ trash, categories, onRestore, onDeleteForever, onClose }) => {
+  // Ids waiting for the "delete forever" confirmation in the footer
+  const [pendingDelete, setPendingDelete] = useState<string[] | null>(null);
+
+  const categoryMap = new Map<string, Category>(categories.map(c => [c.id, c]));
+  const now = Date.now();
+  const sorted = [...trash].sort((a, b) => b.deletedAt - a.deletedAt);
+
+  const confirmDelete = () => {
+    onDeleteForever(pendingDelete);
+    setPendingDelete(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-6 pb-4 flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 mb-1">{t('trash.title')}</h3>
+            <p className="text-sm text-slate-500">{t('trash.description', { days: TRASH_RETENTION_DAYS })}</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-2">
+          {sorted.length === 0 ? (
+            <p className="text-center text-sm text-slate-400 py-10">{t('trash.empty')}</p>
+          ) : sorted.map(item => {
+            const category = categoryMap.get(item.categoryId);
+            const daysLeft = getDaysLeft(item, now);
+            return (
+              <div key={item.id} className="rounded-lg border border-slate-100 p-3 flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="w-8 h-8 rounded-full bg-slate-50 flex items-center justify-center shrink-0">
+                    {item.type === TransactionType.TRANSFER ? '🔁' : category?.icon || '📦'}
+                  </span>
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-700 truncate">{item.title}</p>
+                    <p className="text-xs text-slate-400">
+                      {item.date} · {daysLeft > 0 ? t('trash.daysLeft', { days: daysLeft }) : t('trash.expiring')}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <span className={`text-sm font-mono font-semibold mr-1 ${item.type === TransactionType.INCOME ? 'text-teal-600' : 'text-slate-700'}`}>
+                    {formatCurrency(item.amount, item.currency)}
+                  </span>
+                  <button onClick={() => onRestore([item.id])} className="p-1.5 text-slate-400 hover:text-teal-600 rounded" title={t('trash.restore')}>
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setPendingDelete([item.id])}
+                    className="p-1.5 text-slate-400 hover:text-red-400 rounded"
+                    title={t('trash.deleteForever')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {pendingDelete ? (
+          <div className="bg-red-50 px-6 py-4 flex items-center justify-between gap-3 border-t border-red-100">
+            <p className="text-sm text-red-600">{t('trash.confirmDelete', { count: pendingDelete.length })}</p>
+            <div className="flex gap-2 shrink-0">
+              <button
+                onClick={() => setPendingDelete(null)}
+                className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-white rounded-lg transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={confirmDelete}
+                className="px-4 py-2 text-sm font-medium bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+              >
+                {t('trash.deleteForever')}
+              </button>
+            </div>
+          </div>
+        ) : sorted.length > 0 && (
+          <div className="bg-slate-50 px-6 py-4 flex justify-between gap-3 border-t border-slate-100">
+            <button
+              onClick={() => setPendingDelete(trash.map(item => item.id))}
+              className="px-4 py-2 text-sm font-medium text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+            >
+              {t('trash.emptyTrash')}
+            </button>
+            <button
+              onClick={() => onRestore(trash.map(item => item.id))}
+              className="px-4 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors"
+            >
+              {t('trash.restoreAll')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrashBin;
@@ -0,0 +1,525 @@
+import { Messages } from './zh-CN';
+
+export const enUS: Messages = {
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.uncategorized': 'Uncategorized',
+  'common.listSeparator': ', ',
+
+  'type.expense': 'Expense',
+  'type.income': 'Income',
+  'type.transfer': 'Transfer',
+
+  'app.loading': 'Loading your data...',
+  'app.loadFailed': 'Could not read the data stored on this device. Please reload the page.',
+  'app.saveFailed': 'Saving failed, so recent changes may be lost. Consider downloading a backup first.',
+  'app.attachmentSaveFailed': 'The receipt photo could not be saved. The record was saved without it.',
+  'app.restoreAttachmentFailed': 'Some receipt photos from the backup could not be saved.',
+  'app.report': 'Reports',
+  'app.backup': 'Backup & export',
+  'app.aiSettings': 'AI settings',
+  'app.currencies': 'Currencies & rates',
+  'app.import': 'Import statement',
+  'app.recurring': 'Recurring',
+  'app.categories': 'Categories',
+  'app.budget': 'Budget',
+  'app.language': 'Language',
+  'app.categoryRules': 'Category rules',
+  'app.goals': 'Savings goals',
+  'app.notifications': 'Reminders',
+  'app.split': 'Split bills',
+  'app.missingRates': '{currencies} have no exchange rate yet and count 1:1 for now. Click to add rates',
+  'app.allAccounts': 'All accounts',
+  'app.manageAccounts': 'Manage accounts',
+  'app.dailyAvailable': 'Available today (daily)',
+  'app.budgetLeft': 'Budget left this month',
+  'app.untilMonthEnd': 'Until month end',
+  'app.days': '{count} days',
+  'app.goalReserve': 'Set aside for goals',
+  'app.goalSaved': 'Saved toward goals',
+  'app.upcomingRecurring': 'Recurring bills due',
+  'app.monthResult': 'Final balance for the month',
+  'app.monthlyBudget': 'Monthly budget',
+  'app.pastMonth': 'Past month',
+  'app.overBudget': 'Over budget: {categories}',
+  'app.monthExpense': 'Spent this month',
+  'app.monthIncome': 'Earned this month',
+  'app.budgetCard': 'Monthly budget',
+  'app.thisMonthOnly': 'This month only',
+  'app.addTitle': 'New entry',
+  'app.titlePlaceholder': 'What was it for',
+  'app.notePlaceholder': 'Note (optional)',
+  'app.amountPlaceholder': 'Amount',
+  'app.confirm': 'Add',
+  'app.toAccount': 'To account',
+  'app.toAmountPlaceholder': 'Received in {currency} (optional)',
+  'app.autoCategory': 'Auto',
+  'app.autoCategoryGuess': 'Auto · {category}',
+  'app.aiAdvisor': 'AI advisor ({month})',
+  'app.askAI': 'Ask AI',
+  'app.analyzing': 'Analyzing...',
+  'app.analyzeMonth': 'Analyze this month',
+  'app.collapse': 'Hide',
+  'app.aiHint': 'Let AI review your spending habits for {month}.',
+  'app.categoryBreakdown': 'Spending by category',
+  'app.searchResults': 'Search results (all months)',
+  'app.monthDetails': '{month} transactions',
+  'app.undoShortcut': 'Undo (Ctrl+Z)',
+  'app.redoShortcut': 'Redo (Ctrl+Shift+Z)',
+  'app.trash': 'Trash',
+  'app.noMatches': 'No matching records',
+  'app.noRecords': 'No records this month yet',
+  'app.recurringBadge': 'Recurring',
+  'app.balance': 'Balance {amount}',
+  'app.delete': 'Delete',
+  'app.undo': 'Undo',
+  'app.redo': 'Redo',
+  'app.undone': 'Undone: {label}',
+  'app.redone': 'Redone: {label}',
+  'app.deletedToast': 'Deleted "{title}". You can restore it from the trash',
+  'app.updateAvailable': 'A new version is available',
+  'app.reload': 'Reload',
+  'app.later': 'Later',
+
+  'history.add': 'Add "{title}"',
+  'history.addMany': 'Add {count} records',
+  'history.edit': 'Edit "{title}"',
+  'history.delete': 'Delete "{title}"',
+  'history.restore': 'Restore "{title}"',
+  'history.restoreMany': 'Restore {count} records',
+  'history.applyRules': 'Apply rules to {count} records',
+  'history.settle': 'Settle up with {name}',
+
+  'language.title': 'Language',
+  'language.description': 'Used for labels, date and amount formats, and AI answers.',
+
+  'chart.noData': 'No data for this month',
+  'chart.trend': 'Income & spending',
+  'chart.cumulative': 'Cumulative spending',
+  'chart.daily': 'Daily',
+  'chart.cumulativeMode': 'Cumulative',
+  'chart.projected': 'At this pace, month-end spending will be',
+  'chart.spent': 'Spent this month',
+  'chart.budget': 'budget',
+  'chart.budgetLine': 'Budget line',
+  'chart.projection': 'Projected',
+
+  'insight.better': 'Better than last period',
+  'insight.worse': 'Worse than last period',
+  'insight.similar': 'Same as last period',
+  'insight.overspent': 'Overspent categories',
+  'insight.reason': ': {reason}',
+  'insight.savings': 'Ways to save',
+  'insight.monthlySaving': 'Save about {amount}/month',
+  'insight.comparison': 'Compared with last period',
+  'insight.expenseChange': 'Spending {change}',
+
+  'assistant.title': 'Ask AI',
+  'assistant.newChat': 'New conversation',
+  'assistant.intro': 'Ask anything about your records. The AI only sees figures summarized on this device.',
+  'assistant.suggestion1': 'Which category did I spend the most on this month?',
+  'assistant.suggestion2': 'Why did I spend more this month than last month?',
+  'assistant.suggestion3': 'How much have I spent on taxis this year?',
+  'assistant.thinking': 'Looking through your records...',
+  'assistant.placeholder': 'e.g. How much have taxis cost since March?',
+  'assistant.send': 'Send',
+  'assistant.unavailable': 'The current AI service is unavailable or cannot chat.',
+  'assistant.openSettings': 'Open AI settings',
+  'assistant.noTag': '(no tag)',
+
+  'ai.missingBaseUrl': 'Enter the local model\'s API address in AI settings first.',
+  'ai.missingGeminiKey': 'No Gemini API key is configured. You can switch to a local model or offline rules in AI settings.',
+  'ai.timeout': 'The AI took too long to answer. Try again later or raise the timeout in AI settings.',
+  'ai.unreadable': 'The AI\'s answer could not be read. Please try again.',
+  'ai.adviceFailed': 'Could not get advice right now. Please try again later.',
+  'ai.quickEntryUnsupported': 'The current AI service cannot read free-form input.',
+  'ai.quickEntryFailed': 'Could not read that right now. Try again later or enter it manually.',
+  'ai.receiptUnsupported': 'The current AI service cannot read receipts. Please fill in the details.',
+  'ai.receiptEmpty': 'No amount was found in the image. Please fill in the details.',
+  'ai.receiptFailed': 'Could not read the receipt right now. Try again later or fill in the details.',
+  'ai.chatUnsupported': 'The current AI service cannot chat. Switch to Gemini or a local model in AI settings.',
+  'ai.noAnswer': 'The AI gave no answer. Try asking another way.',
+  'ai.tooManyRounds': 'This question needs too much data. Try splitting it into smaller questions.',
+  'ai.chatFailed': 'Could not answer right now. Please try again later.',
+  'ai.gemini': 'Gemini',
+  'ai.geminiDescription': 'Uses Google Gemini. Needs an API key in the environment variables.',
+  'ai.openai': 'Local model',
+  'ai.openaiDescription': 'Any OpenAI-compatible model server, such as a self-hosted Ollama, vLLM or LM Studio.',
+  'ai.rules': 'Offline rules',
+  'ai.rulesDescription': 'Basic advice from your budget and last period. Works offline but cannot read text or receipts.',
+
+  'categoryRules.title': 'Category rules',
+  'categoryRules.description': 'File new records by title and amount. The first matching rule from the top wins.',
+  'categoryRules.empty': 'No rules yet. Add the first one below',
+  'categoryRules.enabled': 'Enabled',
+  'categoryRules.contains': 'Contains',
+  'categoryRules.regex': 'Regex',
+  'categoryRules.moveUp': 'Move up',
+  'categoryRules.moveDown': 'Move down',
+  'categoryRules.edit': 'Edit',
+  'categoryRules.delete': 'Delete',
+  'categoryRules.patternPlaceholder': 'Title contains, e.g. Starbucks',
+  'categoryRules.regexPlaceholder': 'Regular expression, e.g. ^Uber',
+  'categoryRules.minAmount': 'Min amount (optional)',
+  'categoryRules.maxAmount': 'Max amount (optional)',
+  'categoryRules.tagsPlaceholder': 'Add tags (optional)',
+  'categoryRules.matchCount': '{count} existing records match',
+  'categoryRules.invalidRegex': 'Invalid regular expression',
+  'categoryRules.add': 'Add rule',
+  'categoryRules.update': 'Save changes',
+  'categoryRules.reapply': 'Re-apply to',
+  'categoryRules.months': 'Last {count} months',
+  'categoryRules.reapplyTitle': 'Re-apply rules',
+  'categoryRules.reapplyDescription': 'Records from the last {count} months that would change. Apply the checked ones; this can be undone.',
+  'categoryRules.noChanges': 'Nothing would change',
+  'categoryRules.back': 'Back',
+  'categoryRules.apply': 'Apply {count}',
+
+  'goals.title': 'Savings goals',
+  'goals.description': 'Set a target and a deadline, and put money aside from each month\'s budget.',
+  'goals.empty': 'No savings goals yet. Add the first one below',
+  'goals.manage': 'Manage',
+  'goals.saved': '{saved} of {target}',
+  'goals.deadline': 'by {date}',
+  'goals.required': '{amount}/month needed',
+  'goals.complete': 'Reached 🎉',
+  'goals.overdue': 'Past the deadline, {amount} to go',
+  'goals.monthlyBadge': '{amount}/month',
+  'goals.leftoverBadge': 'Takes leftover budget',
+  'goals.moveUp': 'Move up',
+  'goals.moveDown': 'Move down',
+  'goals.adjust': 'Deposit or withdraw',
+  'goals.adjustPlaceholder': 'Amount',
+  'goals.deposit': 'Deposit',
+  'goals.withdraw': 'Withdraw',
+  'goals.edit': 'Edit',
+  'goals.delete': 'Delete',
+  'goals.namePlaceholder': 'Goal name, e.g. Travel fund',
+  'goals.targetPlaceholder': 'Target amount ({currency})',
+  'goals.deadlineLabel': 'Deadline',
+  'goals.monthlyPlaceholder': 'Set aside from the budget each month (optional)',
+  'goals.allocateLeftover': 'Move unspent budget into this goal at month end',
+  'goals.leftoverHint': 'Several goals are filled in list order',
+  'goals.add': 'Add goal',
+  'goals.update': 'Save changes',
+
+  'notifications.title': 'Reminders',
+  'notifications.description': 'Checked and shown on this device, with no server involved.',
+  'notifications.on': 'Reminders are on',
+  'notifications.off': 'Reminders are off',
+  'notifications.toggleHint': 'Click to switch. The browser asks for permission the first time',
+  'notifications.unsupported': 'This browser does not support notifications.',
+  'notifications.denied': 'Notifications are blocked. Allow them in the site settings, then turn reminders on.',
+  'notifications.thresholds': 'When spending this month reaches',
+  'notifications.dailyOverspend': 'Alert when a day goes over',
+  'notifications.dailyOverspendHint': 'When today\'s spending passes what was available for today',
+  'notifications.eveningReminder': 'Evening reminder',
+  'notifications.eveningReminderHint': 'If nothing was recorded today by this time',
+
+  'notify.budgetTitle': '{percent} of this month\'s budget used',
+  'notify.budgetExceededTitle': 'This month\'s budget is used up',
+  'notify.budgetBody': 'Spent {spent} of {budget} this month.',
+  'notify.overspendTitle': 'Over today\'s allowance',
+  'notify.overspendBody': 'Spent {spent} today, more than the {allowance} available.',
+  'notify.reminderTitle': 'Nothing recorded today',
+  'notify.reminderBody': 'Take a minute to log today\'s spending.',
+
+  'split.start': 'Split this bill',
+  'split.title': 'Split between',
+  'split.stop': 'Don\'t split',
+  'split.modeEqual': 'Equally',
+  'split.modeAmount': 'By amount',
+  'split.modePercent': 'By percent',
+  'split.paidBy': 'Paid by',
+  'split.me': 'Me',
+  'split.newPerson': 'Add someone by name',
+  'split.addPerson': 'Add person',
+  'split.needOthers': 'Pick at least one other person.',
+  'split.needSelf': 'Include yourself, either as a participant or as the payer.',
+  'split.invalidValue': 'Enter a share for everyone included.',
+  'split.amountMismatch': 'The shares add up to {total}, not {amount}.',
+  'split.percentMismatch': 'The percentages add up to {total}%, not 100%.',
+  'split.settlementTitle': 'Settle up with {name}',
+  'split.myShare': 'My share {amount}',
+  'split.settlementBadge': 'Settle-up',
+  'split.balancesTitle': 'Shared expenses',
+  'split.balancesDescription': 'Who owes whom across all split bills, in {currency}.',
+  'split.owesYou': '{name} owes you',
+  'split.youOwe': 'You owe {name}',
+  'split.allSettled': 'All square. Split a bill when editing an expense.',
+  'split.settleUp': 'Settle up',
+  'split.settleAccount': 'Record it in',
+  'split.settleConfirm': 'Record',
+  'split.people': 'People',
+  'split.noPeople': 'No one added yet.',
+  'split.archive': 'Archive',
+  'split.archiveHint': 'Still on earlier bills, so archived instead of deleted',
+  'split.restorePerson': 'Restore',
+  'split.delete': 'Delete',
+
+  'attachments.missing': 'Image missing',
+  'attachments.close': 'Close',
+  'budget.title': 'Budget for {month}',
+  'budget.description': 'Set a limit per category. The monthly budget is their sum, unless you set a higher overall cap.',
+  'budget.scopeMonth': 'This month only',
+  'budget.scopeOnward': 'From this month on',
+  'budget.scopeMonthHint': 'Only {month} changes. Other months keep their budget.',
+  'budget.scopeOnwardHint': '{month} and later months use the new budget. Earlier months are not affected.',
+  'budget.cap': 'Overall cap ({currency}, optional)',
+  'budget.capTooLow': 'The cap cannot be below the category limits, {amount} in total',
+  'budget.categoryLimits': 'Category limits',
+  'budget.noLimit': 'No limit',
+  'budget.total': 'Monthly budget',
+
+  'trash.title': 'Trash',
+  'trash.description': 'Deleted records are kept for {days} days, then removed for good.',
+  'trash.empty': 'The trash is empty',
+  'trash.daysLeft': 'Removed in {days} days',
+  'trash.expiring': 'Removed soon',
+  'trash.restore': 'Restore',
+  'trash.deleteForever': 'Delete forever',
+  'trash.confirmDelete': 'Delete {count} records forever? This cannot be undone.',
+  'trash.emptyTrash': 'Empty trash',
+  'trash.restoreAll': 'Restore all',
+
+  'data.title': 'Backup & export',
+  'data.description': 'Your data lives only in this browser, so back it up regularly.',
+  'data.backup': 'Full backup',
+  'data.downloadBackup': 'Download JSON backup',
+  'data.export': 'Export records',
+  'data.exportButton': 'Export',
+  'data.restore': 'Restore from backup',
+  'data.chooseFile': 'Choose a backup file',
+  'data.invalidJson': 'The file is not valid JSON',
+  'data.exportedAt': 'Backed up {time}',
+  'data.merge': 'Merge',
+  'data.replace': 'Replace',
+  'data.transactions': 'Records',
+  'data.categories': 'Categories',
+  'data.recurringRules': 'Recurring rules',
+  'data.categoryRules': 'Category rules',
+  'data.savingsGoals': 'Savings goals',
+  'data.people': 'People',
+  'data.accounts': 'Accounts',
+  'data.savedFilters': 'Saved filters',
+  'data.exchangeRates': 'Exchange rates',
+  'data.trash': 'Trash',
+  'data.budget': 'Budget',
+  'data.attachments': 'Receipt photos',
+  'data.added': '{count} new',
+  'data.updated': '{count} updated',
+  'data.removed': '{count} removed',
+  'data.unchanged': 'No change',
+  'data.budgetReplaced': 'Replaced',
+  'data.budgetMerged': 'Merged',
+  'data.missingAttachments': '{count} receipt photos are not in this backup. Only those still stored on this device will show.',
+  'data.replaceConfirm': 'Replace current data',
+  'data.mergeConfirm': 'Merge into current data',
+
+  'import.defaultTitle': 'Imported record',
+  'import.invalidDate': 'Unreadable date',
+  'import.invalidAmount': 'Invalid amount',
+  'import.title': 'Import statement',
+  'import.uploadHint': 'Accepts generic CSV files and statements exported from Alipay or WeChat Pay.',
+  'import.mappingHint': '{file} · Read as {format}. Please check which column is which.',
+  'import.previewHint': '{total} rows, {selected} selected, {duplicates} possible duplicates.',
+  'import.chooseFile': 'Choose a CSV file',
+  'import.noRows': 'The file has nothing to import',
+  'import.unreadable': 'Could not read the file. Please check that it is a CSV file',
+  'import.formatGeneric': 'generic CSV',
+  'import.formatAlipay': 'an Alipay statement',
+  'import.formatWechat': 'a WeChat Pay statement',
+  'import.fieldDate': 'Date',
+  'import.fieldTitle': 'Description',
+  'import.fieldAmount': 'Amount',
+  'import.fieldType': 'Income/expense',
+  'import.fieldNote': 'Note',
+  'import.typeBySign': 'None (use the sign)',
+  'import.skipColumn': 'Don\'t import',
+  'import.choose': 'Choose',
+  'import.column': 'Column {index}',
+  'import.account': 'Into account',
+  'import.currency': 'Currency',
+  'import.sign': 'Amount sign',
+  'import.positiveIncome': 'Positive is income, negative is expense',
+  'import.positiveExpense': 'Positive is expense, negative is income',
+  'import.columnTitle': 'Description',
+  'import.columnCategory': 'Category',
+  'import.columnStatus': 'Status',
+  'import.duplicate': 'Possible duplicate',
+  'import.new': 'New',
+  'import.back': 'Back',
+  'import.preview': 'Preview',
+  'import.confirm': 'Import {count}',
+
+  'report.title': 'Income & spending report',
+  'report.description': 'Monthly totals in {currency}. Transfers are left out.',
+  'report.year': 'Year',
+  'report.custom': 'Custom',
+  'report.yearLabel': '{year}',
+  'report.rangeTo': 'to',
+  'report.noData': 'No data for this period',
+  'report.invalidRange': 'Pick a valid start and end month',
+  'report.net': 'Net',
+  'report.savingsRate': 'Savings rate',
+  'report.lastYear': 'Last year {rate}',
+  'report.yearOverYear': 'vs last year',
+  'report.monthly': 'By month',
+  'report.categoryShare': 'Spending by category',
+  'report.other': 'Other',
+  'report.categoryTotals': 'Category totals',
+  'report.monthDetails': 'Month by month',
+  'report.month': 'Month',
+  'report.expenseMoM': 'Spending vs last month',
+  'report.expenseYoY': 'Spending vs last year',
+
+  'recurring.title': 'Recurring',
+  'recurring.description': 'Rent, salary, subscriptions and the like are recorded automatically when due.',
+  'recurring.empty': 'No recurring rules yet',
+  'recurring.daily': 'Daily',
+  'recurring.weekly': 'Weekly',
+  'recurring.monthly': 'Monthly',
+  'recurring.yearly': 'Yearly',
+  'recurring.next': 'Next {date}',
+  'recurring.ended': 'Ended',
+  'recurring.until': 'Until {date}',
+  'recurring.skipNext': 'Skip next',
+  'recurring.endToday': 'End today',
+  'recurring.delete': 'Delete rule (records already created are kept)',
+  'recurring.unskip': 'Undo skip',
+  'recurring.skipped': 'Skipping {date}',
+  'recurring.titlePlaceholder': 'Name, e.g. Rent',
+  'recurring.amount': 'Amount',
+  'recurring.startDate': 'Start date',
+  'recurring.endDate': 'End date (optional)',
+  'recurring.add': 'Add recurring rule',
+
+  'filter.searchPlaceholder': 'Search titles, notes, categories or tags',
+  'filter.more': 'More filters',
+  'filter.clear': 'Clear filters',
+  'filter.deleteSaved': 'Delete saved filter',
+  'filter.allTime': 'All time',
+  'filter.thisMonth': 'This month',
+  'filter.last30': 'Last 30 days',
+  'filter.thisYear': 'This year',
+  'filter.custom': 'Custom',
+  'filter.minAmount': 'Min amount ({currency})',
+  'filter.maxAmount': 'Max amount ({currency})',
+  'filter.savePlaceholder': 'Save as, e.g. Coffee this year',
+  'filter.count': 'Records',
+  'filter.net': 'Net',
+
+  'edit.title': 'Edit record',
+  'edit.name': 'Name',
+  'edit.amount': 'Amount',
+  'edit.date': 'Date',
+  'edit.applyToOne': 'This one only',
+  'edit.applyToSeries': 'This and later ones',
+  'edit.account': 'Account',
+  'edit.fromAccount': 'From account',
+  'edit.toAccount': 'To account',
+  'edit.choose': 'Choose…',
+  'edit.category': 'Category',
+  'edit.toAmount': 'Amount received ({currency}; leave empty to convert at the rate)',
+  'edit.tags': 'Tags (space separated)',
+  'edit.tagsPlaceholder': 'coffee travel',
+  'edit.note': 'Note',
+  'edit.attachments': 'Attachments',
+  'edit.delete': 'Delete',
+
+  'accounts.title': 'Accounts',
+  'accounts.description': 'Balance = opening balance + income − spending ± transfers. Credit card debt is negative.',
+  'accounts.cash': 'Cash',
+  'accounts.debit': 'Debit card',
+  'accounts.credit': 'Credit card',
+  'accounts.ewallet': 'E-wallet',
+  'accounts.usage': '{count} records',
+  'accounts.openingBalance': 'Opening balance',
+  'accounts.edit': 'Edit name and opening balance',
+  'accounts.archive': 'Archive',
+  'accounts.restore': 'Restore',
+  'accounts.delete': 'Delete (only accounts without records)',
+  'accounts.namePlaceholder': 'Account name, e.g. Chase checking',
+  'accounts.defaultName': 'Default account',
+  'accounts.add': 'Add account',
+
+  'quickEntry.placeholder': 'Type it out, e.g. taxi 45 yesterday, lunch 32.5',
+  'quickEntry.photo': 'Snap a receipt / pick a screenshot',
+  'quickEntry.parse': 'Parse',
+  'quickEntry.imageError': 'Could not read that image',
+  'quickEntry.unparsed': 'Could not parse',
+  'quickEntry.unparsedList': ': {items}',
+  'quickEntry.confirm': 'Check these records. They will go into “{account}”:',
+  'quickEntry.receipt': 'Receipt',
+  'quickEntry.unknownMerchant': 'Unknown',
+  'quickEntry.merge': 'Combine into one',
+  'quickEntry.split': 'Split by category',
+  'quickEntry.moreItems': '{items} and more',
+  'quickEntry.toggleType': 'Switch income/expense',
+  'quickEntry.name': 'Name',
+  'quickEntry.remove': 'Remove',
+  'quickEntry.save': 'Save {count}',
+
+  'currency.title': 'Currencies & rates',
+  'currency.description': 'Budgets and stats use the base currency; records keep their original amounts.',
+  'currency.base': 'Base currency',
+  'currency.rates': 'Exchange rates',
+  'currency.ratesHint': 'A rate without a date is the default; a dated rate only applies to records on that day.',
+  'currency.rate': 'Rate',
+  'currency.addRate': 'Add rate',
+  'currency.missingRates': 'These currencies have no rate yet and count 1:1 for now: {currencies}',
+  'currency.missingDefaultRate': 'Add a default rate (no date) for {currency} before switching the base currency.',
+
+  'categories.title': 'Categories',
+  'categories.description': 'Create, rename, merge or archive categories.',
+  'categories.expense': 'Expense',
+  'categories.income': 'Income',
+  'categories.rename': 'Click to rename',
+  'categories.usage': '{count} records',
+  'categories.merge': 'Merge into another category',
+  'categories.mergeInto': 'Merge into…',
+  'categories.archive': 'Archive',
+  'categories.restore': 'Restore',
+  'categories.newName': 'New category name',
+  'categories.add': 'Add',
+
+  'aiSettings.title': 'AI settings',
+  'aiSettings.description': 'The service behind advice, quick entry and receipt scanning.',
+  'aiSettings.baseUrl': 'Endpoint URL',
+  'aiSettings.model': 'Model',
+  'aiSettings.timeout': 'Timeout (seconds)',
+  'aiSettings.retries': 'Retries on failure',
+
+  'backup.notBackup': 'Not a FreshFin backup file',
+  'backup.tooNew': 'This backup is from a newer version. Update the app first.',
+  'backup.noData': 'The backup file has no data',
+  'backup.notObject': 'not an object',
+  'backup.notArray': '{field} must be a list',
+  'backup.missingField': 'missing {field}',
+  'backup.invalidField': 'invalid {field}',
+  'backup.transferMissingAccount': 'transfer is missing toAccountId',
+  'backup.moreErrors': 'and {count} more errors',
+
+  'export.date': 'Date',
+  'export.type': 'Type',
+  'export.category': 'Category',
+  'export.title': 'Title',
+  'export.amount': 'Amount',
+  'export.currency': 'Currency',
+  'export.account': 'Account',
+  'export.toAccount': 'To account',
+
+  'rules.summary': '{period}: spent {expense}, earned {income}',
+  'rules.overBudget': ', {amount} over budget. Hold back on non-essentials for the rest of the month.',
+  'rules.budgetUsed': ', {percent} of the budget used.',
+  'rules.leftOver': ', {amount} left over.',
+  'rules.summaryEnd': '.',
+  'rules.overLimit': '{amount} over the category limit ({limit})',
+  'rules.upOnPrevious': '{amount} more than {period} (+{percent})',
+  'rules.cutTitle': 'Cut {category} by 10%',
+  'rules.cutDetail': '{category} cost {amount} this period, {percent} of all spending.',
+  'rules.noPrevious': 'Nothing was spent in {period}, so there is nothing to compare with.',
+  'rules.similar': 'Spending was about the same as in {period}.',
+  'rules.down': 'Spending was down {percent} on {period} ({from} → {to}).',
+  'rules.up': 'Spending was up {percent} on {period} ({from} → {to}).',
+};
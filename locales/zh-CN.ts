@@ -0,0 +1,527 @@
+// The source catalog: every other locale must have exactly these keys.
+// Placeholders in braces are filled by t(), e.g. {amount}.
+export const zhCN = {
+  'common.cancel': '取消',
+  'common.save': '保存',
+  'common.uncategorized': '未分类',
+  'common.listSeparator': '、',
+
+  'type.expense': '支出',
+  'type.income': '收入',
+  'type.transfer': '转账',
+
+  'app.loading': '正在加载数据...',
+  'app.loadFailed': '无法读取本地数据，请刷新页面重试。',
+  'app.saveFailed': '保存失败，最近的修改可能不会保留。建议先下载备份。',
+  'app.attachmentSaveFailed': '小票图片保存失败，记录已保存但没有附件。',
+  'app.restoreAttachmentFailed': '备份中的部分票据图片未能保存。',
+  'app.report': '收支报表',
+  'app.backup': '备份与导出',
+  'app.aiSettings': 'AI 设置',
+  'app.currencies': '货币与汇率',
+  'app.import': '导入账单',
+  'app.recurring': '周期记账',
+  'app.categories': '分类管理',
+  'app.budget': '预算设置',
+  'app.language': '语言',
+  'app.categoryRules': '分类规则',
+  'app.goals': '储蓄目标',
+  'app.notifications': '提醒',
+  'app.split': '分摊账单',
+  'app.missingRates': '{currencies}还没有汇率，暂按 1:1 计入统计。点击填写汇率',
+  'app.allAccounts': '全部账户',
+  'app.manageAccounts': '账户管理',
+  'app.dailyAvailable': '今日可用余额 (日均)',
+  'app.budgetLeft': '本月预算剩余',
+  'app.untilMonthEnd': '距离月底',
+  'app.days': '{count} 天',
+  'app.goalReserve': '为目标预留',
+  'app.goalSaved': '存入目标',
+  'app.upcomingRecurring': '待扣周期支出',
+  'app.monthResult': '本月最终结余',
+  'app.monthlyBudget': '月度总预算',
+  'app.pastMonth': '历史账单',
+  'app.overBudget': '已超预算：{categories}',
+  'app.monthExpense': '本月支出',
+  'app.monthIncome': '本月收入',
+  'app.budgetCard': '月度预算设置',
+  'app.thisMonthOnly': '仅本月',
+  'app.addTitle': '记一笔',
+  'app.titlePlaceholder': '项目名称',
+  'app.notePlaceholder': '备注 (可选)',
+  'app.amountPlaceholder': '金额',
+  'app.confirm': '确认',
+  'app.toAccount': '转入账户',
+  'app.toAmountPlaceholder': '到账金额 {currency} (可选)',
+  'app.autoCategory': '自动',
+  'app.autoCategoryGuess': '自动 · {category}',
+  'app.aiAdvisor': 'AI 财务顾问 ({month})',
+  'app.askAI': '问问 AI',
+  'app.analyzing': '分析中...',
+  'app.analyzeMonth': '分析本月支出',
+  'app.collapse': '收起',
+  'app.aiHint': '点击按钮，让 AI 分析您{month}的消费习惯。',
+  'app.categoryBreakdown': '支出分类',
+  'app.searchResults': '搜索结果 (全部月份)',
+  'app.monthDetails': '{month}明细',
+  'app.undoShortcut': '撤销 (Ctrl+Z)',
+  'app.redoShortcut': '重做 (Ctrl+Shift+Z)',
+  'app.trash': '回收站',
+  'app.noMatches': '没有符合条件的记录',
+  'app.noRecords': '本月暂无收支记录',
+  'app.recurringBadge': '周期',
+  'app.balance': '余额 {amount}',
+  'app.delete': '删除',
+  'app.undo': '撤销',
+  'app.redo': '重做',
+  'app.undone': '已撤销：{label}',
+  'app.redone': '已重做：{label}',
+  'app.deletedToast': '已删除「{title}」，可在回收站找回',
+  'app.updateAvailable': '有新版本可用',
+  'app.reload': '刷新',
+  'app.later': '稍后',
+
+  'history.add': '添加「{title}」',
+  'history.addMany': '添加 {count} 笔记录',
+  'history.edit': '编辑「{title}」',
+  'history.delete': '删除「{title}」',
+  'history.restore': '恢复「{title}」',
+  'history.restoreMany': '恢复 {count} 条记录',
+  'history.applyRules': '按规则更新 {count} 笔记录',
+  'history.settle': '与{name}结清',
+
+  'language.title': '语言',
+  'language.description': '界面文字、日期和金额格式，以及 AI 回答使用的语言。',
+
+  'chart.noData': '暂无本月数据',
+  'chart.trend': '收支趋势',
+  'chart.cumulative': '累计支出',
+  'chart.daily': '每日',
+  'chart.cumulativeMode': '累计',
+  'chart.projected': '按当前速度，月底预计支出',
+  'chart.spent': '本月共支出',
+  'chart.budget': '预算',
+  'chart.budgetLine': '预算线',
+  'chart.projection': '预计',
+
+  'insight.better': '比上期好',
+  'insight.worse': '比上期差',
+  'insight.similar': '与上期持平',
+  'insight.overspent': '超支分类',
+  'insight.reason': '：{reason}',
+  'insight.savings': '省钱建议',
+  'insight.monthlySaving': '每月约省 {amount}',
+  'insight.comparison': '与上期对比',
+  'insight.expenseChange': '支出 {change}',
+
+  'assistant.title': '问问 AI',
+  'assistant.newChat': '新对话',
+  'assistant.intro': '可以问关于全部记账记录的问题，AI 只会看到在本机汇总好的数字。',
+  'assistant.suggestion1': '这个月花得最多的是哪一类？',
+  'assistant.suggestion2': '为什么这个月比上个月花得多？',
+  'assistant.suggestion3': '今年打车一共花了多少？',
+  'assistant.thinking': '正在查询记录...',
+  'assistant.placeholder': '例如：三月以来打车花了多少？',
+  'assistant.send': '发送',
+  'assistant.unavailable': '当前 AI 服务不可用或不支持对话。',
+  'assistant.openSettings': '前往 AI 设置',
+  'assistant.noTag': '(无标签)',
+
+  'ai.missingBaseUrl': '请先在 AI 设置中填写本地模型的接口地址。',
+  'ai.missingGeminiKey': '未配置 Gemini API Key。可在 AI 设置中改用本地模型或离线规则。',
+  'ai.timeout': 'AI 响应超时，请稍后再试或在 AI 设置中调大超时时间。',
+  'ai.unreadable': 'AI 返回的内容无法解析，请重试。',
+  'ai.adviceFailed': '暂时无法生成建议，请稍后再试。',
+  'ai.quickEntryUnsupported': '当前 AI 服务无法识别复杂输入。',
+  'ai.quickEntryFailed': '暂时无法识别，请稍后再试或手动记账。',
+  'ai.receiptUnsupported': '当前 AI 服务无法识别小票，请手动填写。',
+  'ai.receiptEmpty': '没有从图片中读到金额，请手动填写。',
+  'ai.receiptFailed': '暂时无法识别小票，请稍后再试或手动填写。',
+  'ai.chatUnsupported': '当前 AI 服务不支持对话，请在 AI 设置中改用 Gemini 或本地模型。',
+  'ai.noAnswer': 'AI 没有给出回答，请换个问法。',
+  'ai.tooManyRounds': '这个问题需要查询的数据太多，请拆成几个小问题。',
+  'ai.chatFailed': '暂时无法回答，请稍后再试。',
+  'ai.gemini': 'Gemini',
+  'ai.geminiDescription': '使用 Google Gemini，需要在环境变量中配置 API Key。',
+  'ai.openai': '本地模型',
+  'ai.openaiDescription': '兼容 OpenAI 接口的模型服务，如自建的 Ollama、vLLM 或 LM Studio。',
+  'ai.rules': '离线规则',
+  'ai.rulesDescription': '按预算和上期数据给出基础建议，不联网，不能识别文字和小票。',
+
+  'categoryRules.title': '分类规则',
+  'categoryRules.description': '按名称和金额自动归类新记录，从上到下第一条匹配的规则生效。',
+  'categoryRules.empty': '还没有规则，在下方添加第一条',
+  'categoryRules.enabled': '启用',
+  'categoryRules.contains': '包含',
+  'categoryRules.regex': '正则',
+  'categoryRules.moveUp': '上移',
+  'categoryRules.moveDown': '下移',
+  'categoryRules.edit': '编辑',
+  'categoryRules.delete': '删除',
+  'categoryRules.patternPlaceholder': '名称包含，如 星巴克',
+  'categoryRules.regexPlaceholder': '正则表达式，如 ^滴滴',
+  'categoryRules.minAmount': '最小金额 (可选)',
+  'categoryRules.maxAmount': '最大金额 (可选)',
+  'categoryRules.tagsPlaceholder': '附加标签 (可选)',
+  'categoryRules.matchCount': '已有 {count} 笔记录符合',
+  'categoryRules.invalidRegex': '正则表达式无效',
+  'categoryRules.add': '添加规则',
+  'categoryRules.update': '保存修改',
+  'categoryRules.reapply': '重新应用到',
+  'categoryRules.months': '最近 {count} 个月',
+  'categoryRules.reapplyTitle': '重新应用规则',
+  'categoryRules.reapplyDescription': '最近 {count} 个月内将被修改的记录，勾选后应用，可撤销。',
+  'categoryRules.noChanges': '没有需要修改的记录',
+  'categoryRules.back': '返回',
+  'categoryRules.apply': '应用 {count} 笔',
+
+  'goals.title': '储蓄目标',
+  'goals.description': '设定目标金额和截止日期，每月从预算中为它留出钱。',
+  'goals.empty': '还没有储蓄目标，在下方添加第一个',
+  'goals.manage': '管理',
+  'goals.saved': '{saved} / {target}',
+  'goals.deadline': '{date} 截止',
+  'goals.required': '每月需存 {amount}',
+  'goals.complete': '已完成 🎉',
+  'goals.overdue': '已过截止日期，还差 {amount}',
+  'goals.monthlyBadge': '每月 {amount}',
+  'goals.leftoverBadge': '分配月底结余',
+  'goals.moveUp': '上移',
+  'goals.moveDown': '下移',
+  'goals.adjust': '存入或取出',
+  'goals.adjustPlaceholder': '金额',
+  'goals.deposit': '存入',
+  'goals.withdraw': '取出',
+  'goals.edit': '编辑',
+  'goals.delete': '删除',
+  'goals.namePlaceholder': '目标名称，如 旅行基金',
+  'goals.targetPlaceholder': '目标金额 ({currency})',
+  'goals.deadlineLabel': '截止日期',
+  'goals.monthlyPlaceholder': '每月从预算中存入 (可选)',
+  'goals.allocateLeftover': '月底把没花完的预算存入此目标',
+  'goals.leftoverHint': '多个目标按列表顺序依次分配',
+  'goals.add': '添加目标',
+  'goals.update': '保存修改',
+
+  'notifications.title': '提醒',
+  'notifications.description': '在本机按时检查并提醒，不经过任何服务器。',
+  'notifications.on': '提醒已开启',
+  'notifications.off': '提醒已关闭',
+  'notifications.toggleHint': '点击切换；首次开启时浏览器会请求通知权限',
+  'notifications.unsupported': '当前浏览器不支持通知。',
+  'notifications.denied': '浏览器已拒绝通知权限，请在网站设置中允许后再开启。',
+  'notifications.thresholds': '本月支出达到预算的',
+  'notifications.dailyOverspend': '单日花超时提醒',
+  'notifications.dailyOverspendHint': '当天支出超过当日可用金额时',
+  'notifications.eveningReminder': '晚间记账提醒',
+  'notifications.eveningReminderHint': '到点时今天还没有任何记录则提醒',
+
+  'notify.budgetTitle': '本月预算已用 {percent}',
+  'notify.budgetExceededTitle': '本月预算已超支',
+  'notify.budgetBody': '本月已花 {spent}，预算 {budget}。',
+  'notify.overspendTitle': '今天花超了',
+  'notify.overspendBody': '今天已花 {spent}，超过当日可用的 {allowance}。',
+  'notify.reminderTitle': '今天还没记账',
+  'notify.reminderBody': '花一分钟记下今天的收支吧。',
+
+  'split.start': '分摊这笔账单',
+  'split.title': '分摊给',
+  'split.stop': '不分摊',
+  'split.modeEqual': '均分',
+  'split.modeAmount': '按金额',
+  'split.modePercent': '按比例',
+  'split.paidBy': '付款人',
+  'split.me': '我',
+  'split.newPerson': '输入名字添加成员',
+  'split.addPerson': '添加成员',
+  'split.needOthers': '请至少选择一位其他成员。',
+  'split.needSelf': '账单需要包含自己，作为参与者或付款人。',
+  'split.invalidValue': '请为每位参与者填写份额。',
+  'split.amountMismatch': '各份额合计 {total}，与金额 {amount} 不符。',
+  'split.percentMismatch': '比例合计 {total}%，应为 100%。',
+  'split.settlementTitle': '与{name}结清',
+  'split.myShare': '我的份额 {amount}',
+  'split.settlementBadge': '结清',
+  'split.balancesTitle': '分摊账单',
+  'split.balancesDescription': '所有分摊账单的往来结余，以 {currency} 计。',
+  'split.owesYou': '{name}欠你',
+  'split.youOwe': '你欠{name}',
+  'split.allSettled': '目前两清。编辑支出时即可分摊账单。',
+  'split.settleUp': '结清',
+  'split.settleAccount': '记入账户',
+  'split.settleConfirm': '记录',
+  'split.people': '成员',
+  'split.noPeople': '还没有添加成员。',
+  'split.archive': '归档',
+  'split.archiveHint': '已出现在过往账单中，因此归档而非删除',
+  'split.restorePerson': '恢复',
+  'split.delete': '删除',
+
+  'attachments.missing': '图片已丢失',
+  'attachments.close': '关闭',
+  'budget.title': '设置{month}预算',
+  'budget.description': '为各分类设置限额，总预算为分类限额之和，也可设置更高的总上限。',
+  'budget.scopeMonth': '仅本月',
+  'budget.scopeOnward': '从本月起',
+  'budget.scopeMonthHint': '只修改{month}，其他月份保持原有预算。',
+  'budget.scopeOnwardHint': '{month}及之后的月份使用新预算，之前的月份不受影响。',
+  'budget.cap': '总上限 ({currency}，可选)',
+  'budget.capTooLow': '总上限不能低于分类限额之和 {amount}',
+  'budget.categoryLimits': '分类限额',
+  'budget.noLimit': '不限',
+  'budget.total': '月度总预算',
+
+  'trash.title': '回收站',
+  'trash.description': '删除的记录保留 {days} 天，之后自动永久删除。',
+  'trash.empty': '回收站是空的',
+  'trash.daysLeft': '{days} 天后清除',
+  'trash.expiring': '即将清除',
+  'trash.restore': '恢复',
+  'trash.deleteForever': '永久删除',
+  'trash.confirmDelete': '永久删除 {count} 条记录？无法撤销。',
+  'trash.emptyTrash': '清空回收站',
+  'trash.restoreAll': '全部恢复',
+
+  'data.title': '备份与导出',
+  'data.description': '数据只保存在本机浏览器中，建议定期备份。',
+  'data.backup': '完整备份',
+  'data.downloadBackup': '下载 JSON 备份',
+  'data.export': '导出明细',
+  'data.exportButton': '导出',
+  'data.restore': '从备份恢复',
+  'data.chooseFile': '选择备份文件',
+  'data.invalidJson': '文件不是有效的 JSON',
+  'data.exportedAt': '备份时间：{time}',
+  'data.merge': '合并',
+  'data.replace': '覆盖',
+  'data.transactions': '收支记录',
+  'data.categories': '分类',
+  'data.recurringRules': '周期规则',
+  'data.categoryRules': '分类规则',
+  'data.savingsGoals': '储蓄目标',
+  'data.people': '分摊成员',
+  'data.accounts': '账户',
+  'data.savedFilters': '已存筛选',
+  'data.exchangeRates': '汇率',
+  'data.trash': '回收站',
+  'data.budget': '预算',
+  'data.attachments': '票据图片',
+  'data.added': '新增 {count}',
+  'data.updated': '更新 {count}',
+  'data.removed': '删除 {count}',
+  'data.unchanged': '无变化',
+  'data.budgetReplaced': '替换',
+  'data.budgetMerged': '合并',
+  'data.missingAttachments': '有 {count} 张票据图片不在此备份中，只有本机仍保存着的才能显示。',
+  'data.replaceConfirm': '覆盖当前数据',
+  'data.mergeConfirm': '合并到当前数据',
+
+  'import.defaultTitle': '导入记录',
+  'import.invalidDate': '日期无法识别',
+  'import.invalidAmount': '金额无效',
+  'import.title': '导入账单',
+  'import.uploadHint': '支持通用 CSV、支付宝和微信支付导出的账单文件。',
+  'import.mappingHint': '{file} · 识别为{format}，请确认列对应关系。',
+  'import.previewHint': '共 {total} 条，已选 {selected} 条，疑似重复 {duplicates} 条。',
+  'import.chooseFile': '选择 CSV 文件',
+  'import.noRows': '文件中没有可导入的数据',
+  'import.unreadable': '无法读取该文件，请确认是 CSV 格式',
+  'import.formatGeneric': '通用 CSV',
+  'import.formatAlipay': '支付宝账单',
+  'import.formatWechat': '微信支付账单',
+  'import.fieldDate': '日期',
+  'import.fieldTitle': '项目名称',
+  'import.fieldAmount': '金额',
+  'import.fieldType': '收/支',
+  'import.fieldNote': '备注',
+  'import.typeBySign': '无（按正负号判断）',
+  'import.skipColumn': '不导入',
+  'import.choose': '请选择',
+  'import.column': '第 {index} 列',
+  'import.account': '导入到账户',
+  'import.currency': '币种',
+  'import.sign': '金额正负',
+  'import.positiveIncome': '正数为收入，负数为支出',
+  'import.positiveExpense': '正数为支出，负数为收入',
+  'import.columnTitle': '项目',
+  'import.columnCategory': '分类',
+  'import.columnStatus': '状态',
+  'import.duplicate': '疑似重复',
+  'import.new': '新增',
+  'import.back': '上一步',
+  'import.preview': '预览',
+  'import.confirm': '导入 {count} 条',
+
+  'report.title': '收支报表',
+  'report.description': '按月汇总，金额已折算为 {currency}，转账不计入。',
+  'report.year': '年度',
+  'report.custom': '自定义',
+  'report.yearLabel': '{year}年',
+  'report.rangeTo': '至',
+  'report.noData': '所选期间暂无数据',
+  'report.invalidRange': '请选择有效的起止月份',
+  'report.net': '结余',
+  'report.savingsRate': '储蓄率',
+  'report.lastYear': '去年 {rate}',
+  'report.yearOverYear': '同比',
+  'report.monthly': '月度收支',
+  'report.categoryShare': '支出分类占比',
+  'report.other': '其他',
+  'report.categoryTotals': '分类合计',
+  'report.monthDetails': '逐月明细',
+  'report.month': '月份',
+  'report.expenseMoM': '支出环比',
+  'report.expenseYoY': '支出同比',
+
+  'recurring.title': '周期记账',
+  'recurring.description': '房租、工资、订阅等会在到期时自动记入明细。',
+  'recurring.empty': '暂无周期规则',
+  'recurring.daily': '每天',
+  'recurring.weekly': '每周',
+  'recurring.monthly': '每月',
+  'recurring.yearly': '每年',
+  'recurring.next': '下次 {date}',
+  'recurring.ended': '已结束',
+  'recurring.until': '截止 {date}',
+  'recurring.skipNext': '跳过下一次',
+  'recurring.endToday': '今天结束',
+  'recurring.delete': '删除规则（已生成的记录保留）',
+  'recurring.unskip': '取消跳过',
+  'recurring.skipped': '跳过 {date}',
+  'recurring.titlePlaceholder': '名称，如 房租',
+  'recurring.amount': '金额',
+  'recurring.startDate': '开始日期',
+  'recurring.endDate': '结束日期 (可选)',
+  'recurring.add': '添加周期规则',
+
+  'filter.searchPlaceholder': '搜索名称、备注、分类或标签',
+  'filter.more': '更多筛选',
+  'filter.clear': '清除筛选',
+  'filter.deleteSaved': '删除已保存的筛选',
+  'filter.allTime': '全部时间',
+  'filter.thisMonth': '本月',
+  'filter.last30': '近 30 天',
+  'filter.thisYear': '今年',
+  'filter.custom': '自定义',
+  'filter.minAmount': '最小金额 ({currency})',
+  'filter.maxAmount': '最大金额 ({currency})',
+  'filter.savePlaceholder': '保存为，如 今年的咖啡',
+  'filter.count': '笔数',
+  'filter.net': '净额',
+
+  'edit.title': '编辑记录',
+  'edit.name': '项目名称',
+  'edit.amount': '金额',
+  'edit.date': '日期',
+  'edit.applyToOne': '仅修改此笔',
+  'edit.applyToSeries': '此笔及之后的周期',
+  'edit.account': '账户',
+  'edit.fromAccount': '转出账户',
+  'edit.toAccount': '转入账户',
+  'edit.choose': '请选择',
+  'edit.category': '分类',
+  'edit.toAmount': '到账金额 ({currency}，留空按汇率换算)',
+  'edit.tags': '标签 (空格分隔)',
+  'edit.tagsPlaceholder': '咖啡 出差',
+  'edit.note': '备注',
+  'edit.attachments': '附件',
+  'edit.delete': '删除',
+
+  'accounts.title': '账户管理',
+  'accounts.description': '余额 = 期初余额 + 收入 − 支出 ± 转账。信用卡欠款为负数。',
+  'accounts.cash': '现金',
+  'accounts.debit': '储蓄卡',
+  'accounts.credit': '信用卡',
+  'accounts.ewallet': '电子钱包',
+  'accounts.usage': '{count} 笔',
+  'accounts.openingBalance': '期初余额',
+  'accounts.edit': '编辑名称和期初余额',
+  'accounts.archive': '归档',
+  'accounts.restore': '恢复',
+  'accounts.delete': '删除（仅限没有记录的账户）',
+  'accounts.namePlaceholder': '账户名称，如 招行储蓄卡',
+  'accounts.defaultName': '默认账户',
+  'accounts.add': '添加账户',
+
+  'quickEntry.placeholder': '一句话记账，如：昨天打车 45，午饭 32.5',
+  'quickEntry.photo': '拍小票 / 选择截图',
+  'quickEntry.parse': '识别',
+  'quickEntry.imageError': '无法读取该图片',
+  'quickEntry.unparsed': '未能识别',
+  'quickEntry.unparsedList': '：{items}',
+  'quickEntry.confirm': '请确认以下记录，将记入「{account}」：',
+  'quickEntry.receipt': '小票',
+  'quickEntry.unknownMerchant': '未识别',
+  'quickEntry.merge': '合并为一笔',
+  'quickEntry.split': '按分类拆分',
+  'quickEntry.moreItems': '{items}等',
+  'quickEntry.toggleType': '切换收支类型',
+  'quickEntry.name': '名称',
+  'quickEntry.remove': '移除',
+  'quickEntry.save': '保存 {count} 笔',
+
+  'currency.title': '货币与汇率',
+  'currency.description': '预算和统计都按本位币计算，明细仍显示原币金额。',
+  'currency.base': '本位币',
+  'currency.rates': '汇率',
+  'currency.ratesHint': '不填日期的为默认汇率；填写日期的只用于当天的记录。',
+  'currency.rate': '汇率',
+  'currency.addRate': '添加汇率',
+  'currency.missingRates': '以下币种还没有汇率，暂按 1:1 计入统计：{currencies}',
+  'currency.missingDefaultRate': '请先填写 {currency} 的默认汇率（不填日期），再切换本位币。',
+
+  'categories.title': '分类管理',
+  'categories.description': '新建、重命名、合并或归档分类。',
+  'categories.expense': '支出分类',
+  'categories.income': '收入分类',
+  'categories.rename': '点击重命名',
+  'categories.usage': '{count} 笔',
+  'categories.merge': '合并到其他分类',
+  'categories.mergeInto': '合并到…',
+  'categories.archive': '归档',
+  'categories.restore': '恢复',
+  'categories.newName': '新分类名称',
+  'categories.add': '添加',
+
+  'aiSettings.title': 'AI 设置',
+  'aiSettings.description': '财务建议、一句话记账和小票识别使用的服务。',
+  'aiSettings.baseUrl': '接口地址',
+  'aiSettings.model': '模型',
+  'aiSettings.timeout': '超时 (秒)',
+  'aiSettings.retries': '失败重试次数',
+
+  'backup.notBackup': '不是 FreshFin 备份文件',
+  'backup.tooNew': '备份文件版本过新，请先更新应用',
+  'backup.noData': '备份文件缺少数据',
+  'backup.notObject': '不是对象',
+  'backup.notArray': '{field} 必须是数组',
+  'backup.missingField': '缺少 {field}',
+  'backup.invalidField': '{field} 无效',
+  'backup.transferMissingAccount': '转账缺少 toAccountId',
+  'backup.moreErrors': '以及其他 {count} 处错误',
+
+  'export.date': '日期',
+  'export.type': '类型',
+  'export.category': '分类',
+  'export.title': '项目',
+  'export.amount': '金额',
+  'export.currency': '币种',
+  'export.account': '账户',
+  'export.toAccount': '转入账户',
+
+  'rules.summary': '{period}支出 {expense}，收入 {income}',
+  'rules.overBudget': '，超出预算 {amount}，接下来请控制非必要开支。',
+  'rules.budgetUsed': '，已用预算的 {percent}。',
+  'rules.leftOver': '，结余 {amount}。',
+  'rules.summaryEnd': '。',
+  'rules.overLimit': '超出分类限额 {amount}（限额 {limit}）',
+  'rules.upOnPrevious': '比{period}多花 {amount}（+{percent}）',
+  'rules.cutTitle': '{category}减少一成',
+  'rules.cutDetail': '本期{category}支出 {amount}，占总支出 {percent}。',
+  'rules.noPrevious': '{period}没有支出记录，暂无对比。',
+  'rules.similar': '支出与{period}基本持平。',
+  'rules.down': '支出比{period}减少了 {percent}（{from} → {to}）。',
+  'rules.up': '支出比{period}增加了 {percent}（{from} → {to}）。',
+};
+
+export type Messages = Record<keyof typeof zhCN, string>;
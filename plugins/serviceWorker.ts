@@ -0,0 +1,65 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Plugin, ResolvedConfig } from 'vite';
+
+const SW_FILE = 'sw.js';
+
+// In development the worker must stay out of the way of hot reloading, and
+// clears whatever a production build on the same origin left behind.
+const DEV_WORKER = `
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(names.filter((name) => name.startsWith('freshfin-')).map((name) => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+`;
+
+/**
+ * Emits sw.js from the template at the project root with the build's
+ * precache manifest: every emitted file plus index.html. The version is a
+ * hash of that manifest, so a deploy with any changed file installs a new
+ * worker and cache.
+ */
+export const serviceWorker = (): Plugin => {
+  let config: ResolvedConfig;
+
+  return {
+    name: 'freshfin-service-worker',
+    enforce: 'post',
+    configResolved(resolved) {
+      config = resolved;
+    },
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        if (req.url !== `${config.base}${SW_FILE}`) return next();
+        res.setHeader('Content-Type', 'application/javascript');
+        res.end(DEV_WORKER);
+      });
+    },
+    generateBundle(_, bundle) {
+      const files = Object.keys(bundle)
+        .filter(fileName => fileName !== SW_FILE && !fileName.endsWith('.map'))
+        .sort();
+      const urls = files.map(fileName => `${config.base}${fileName}`);
+
+      const hash = createHash('sha256');
+      files.forEach(fileName => {
+        const output = bundle[fileName];
+        hash.update(fileName);
+        hash.update(output.type === 'chunk' ? output.code : output.source);
+      });
+      const version = hash.digest('hex').slice(0, 12);
+
+      const template = fs.readFileSync(path.resolve(config.root, SW_FILE), 'utf-8');
+      this.emitFile({
+        type: 'asset',
+        fileName: SW_FILE,
+        source: `self.__SW_VERSION__ = ${JSON.stringify(version)};\nself.__PRECACHE_MANIFEST__ = ${JSON.stringify(urls)};\n\n${template}`,
+      });
+    },
+  };
+};
@@ -0,0 +1,103 @@
+import { Account, AccountType, ExchangeRate, Transaction, TransactionType } from "../types";
+import { convertAmount } from "./currencyService";
+import { t as translate } from "../utils/i18n";
+
+// Created for existing data so every transaction has an account to belong to
+export const DEFAULT_ACCOUNT_ID = 'acct-default';
+
+export const createDefaultAccount = (currency: string): Account => ({
+  id: DEFAULT_ACCOUNT_ID,
+  name: translate('accounts.defaultName'),
+  type: AccountType.CASH,
+  currency,
+  openingBalance: 0,
+});
+
+/**
+ * The app always needs at least one account to record into.
+ */
+export const ensureDefaultAccount = (accounts: Account[], currency: string): Account[] => {
+  return accounts.length > 0 ? accounts : [createDefaultAccount(currency)];
+};
+
+/**
+ * Points transactions whose account no longer exists at the first account, so
+ * balances never silently lose money.
+ */
+export const migrateTransactionAccounts = <T extends { accountId: string }>(items: T[], accounts: Account[]): T[] => {
+  const knownIds = new Set(accounts.map(a => a.id));
+  return items.map(item => knownIds.has(item.accountId) ? item : { ...item, accountId: accounts[0].id });
+};
+
+export const isTransfer = (t: Transaction) => t.type === TransactionType.TRANSFER;
+
+export const involvesAccount = (t: Transaction, accountId: string) => {
+  return t.accountId === accountId || t.toAccountId === accountId;
+};
+
+/**
+ * How much a transaction changes one account's balance, in that account's
+ * currency. Transactions recorded in another currency (e.g. a USD purchase on
+ * a CNY card) are converted at the rate for their date.
+ */
+const getBalanceDelta = (
+  t: Transaction,
+  account: Account,
+  baseCurrency: string,
+  rates: ExchangeRate[]
+): number => {
+  const inAccountCurrency = (amount: number, currency: string) => {
+    return convertAmount(amount, currency, account.currency, t.date, baseCurrency, rates);
+  };
+
+  if (isTransfer(t)) {
+    let delta = 0;
+    if (t.accountId === account.id) delta -= inAccountCurrency(t.amount, t.currency);
+    if (t.toAccountId === account.id) {
+      delta += t.toAmount ?? inAccountCurrency(t.amount, t.currency);
+    }
+    return delta;
+  }
+  if (t.accountId !== account.id) return 0;
+  // A shared bill someone else paid moves no money until I pay them back
+  if (t.split?.paidBy) return 0;
+  const amount = inAccountCurrency(t.amount, t.currency);
+  return t.type === TransactionType.INCOME ? amount : -amount;
+};
+
+export const getAccountBalances = (
+  accounts: Account[],
+  transactions: Transaction[],
+  baseCurrency: string,
+  rates: ExchangeRate[]
+): Record<string, number> => {
+  const balances: Record<string, number> = {};
+  accounts.forEach(account => {
+    balances[account.id] = transactions.reduce(
+      (sum, t) => sum + getBalanceDelta(t, account, baseCurrency, rates),
+      account.openingBalance
+    );
+  });
+  return balances;
+};
+
+/**
+ * Balance of one account right after each of its transactions, in date order.
+ */
+export const getRunningBalances = (
+  account: Account,
+  transactions: Transaction[],
+  baseCurrency: string,
+  rates: ExchangeRate[]
+): Map<string, number> => {
+  const balances = new Map<string, number>();
+  let balance = account.openingBalance;
+  transactions
+    .filter(t => involvesAccount(t, account.id))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.timestamp - b.timestamp)
+    .forEach(t => {
+      balance += getBalanceDelta(t, account, baseCurrency, rates);
+      balances.set(t.id, balance);
+    });
+  return balances;
+};
@@ -0,0 +1,322 @@
+import {
+  AIProviderId,
+  AISettings,
+  BudgetConfig,
+  Category,
+  FinancialInsight,
+  InsightPeriod,
+  QuickEntryDraft,
+  Transaction
+} from "../types";
+import { createGeminiModel } from "./geminiService";
+import { createOpenAICompatibleModel } from "./openAICompatibleService";
+import { createModelAdvisor } from "./modelAdvisor";
+import { ruleBasedAdvisor } from "./ruleBasedAdvisor";
+import { MessageKey, t } from "../utils/i18n";
+import { NetworkError } from "../utils/network";
+
+// Plain JSON Schema, which both Gemini and OpenAI-compatible servers accept
+export type JsonSchema = Record<string, unknown>;
+
+export interface JsonRequest {
+  prompt: string;
+  schema: JsonSchema;
+  image?: string; // Data URL of a photo to read along with the prompt
+}
+
+// Answers a prompt with JSON text matching the schema
+export type JsonGenerator = (request: JsonRequest, signal: AbortSignal) => Promise<string>;
+
+// A function the model may call; the app runs it locally and sends back the result
+export interface ChatTool {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface ChatToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  signature?: string; // Opaque model state some providers want back with the call
+}
+
+/**
+ * One entry of a conversation. Assistant entries may ask for tool calls
+ * instead of, or along with, text; each call is answered by a 'tool' entry.
+ */
+export interface ChatMessage {
+  role: 'user' | 'assistant' | 'tool';
+  text?: string;
+  toolCalls?: ChatToolCall[]; // Assistant only
+  toolResult?: { callId: string; name: string; result: unknown }; // Tool only
+}
+
+export interface ChatReply {
+  text: string;
+  toolCalls: ChatToolCall[];
+}
+
+export type ChatGenerator = (system: string, messages: ChatMessage[], tools: ChatTool[], signal: AbortSignal) => Promise<ChatReply>;
+
+// What a language model backend has to offer; the tasks below are built on it
+export interface LanguageModel {
+  generateJson: JsonGenerator;
+  chat: ChatGenerator;
+}
+
+export interface AdviceInput {
+  transactions: Transaction[]; // In `currency`
+  budget: BudgetConfig; // The monthly budget in effect for `period`
+  categories: Category[];
+  currency: string;
+  period: InsightPeriod;
+  previousPeriod: InsightPeriod;
+}
+
+export interface ReceiptItem {
+  name: string;
+  amount: number;
+  categoryId: string; // Always an active expense category
+}
+
+export interface ReceiptData {
+  merchant: string;
+  date: string | null; // YYYY-MM-DD when printed on the receipt
+  total: number;
+  currency: string | null; // ISO 4217 when the receipt shows one
+  items: ReceiptItem[];
+}
+
+/**
+ * What the app asks of an AI provider. Each method resolves to null when the
+ * answer could not be read, and throws when the request itself failed.
+ * Providers without a language model leave out what they cannot do.
+ */
+export interface AdvisorProvider {
+  getAdvice: (input: AdviceInput, signal: AbortSignal) => Promise<FinancialInsight | null>;
+  parseQuickEntry?: (segments: string[], today: string, categories: Category[], signal: AbortSignal) => Promise<QuickEntryDraft[] | null>;
+  extractReceipt?: (imageDataUrl: string, today: string, categories: Category[], signal: AbortSignal) => Promise<ReceiptData | null>;
+  chat?: ChatGenerator;
+}
+
+export interface AIProviderOption {
+  id: AIProviderId;
+  name: MessageKey;
+  description: MessageKey;
+  defaultModel: string; // Empty when the provider has no model
+}
+
+export const AI_PROVIDERS: AIProviderOption[] = [
+  { id: 'gemini', name: 'ai.gemini', description: 'ai.geminiDescription', defaultModel: 'gemini-2.5-flash' },
+  { id: 'openai', name: 'ai.openai', description: 'ai.openaiDescription', defaultModel: 'llama3.1' },
+  { id: 'rules', name: 'ai.rules', description: 'ai.rulesDescription', defaultModel: '' },
+];
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'gemini',
+  model: '',
+  baseUrl: 'http://localhost:11434/v1',
+  timeoutMs: 30000,
+  maxRetries: 2,
+};
+
+// Saved settings may predate some fields or come from an edited backup
+export const normalizeAISettings = (value: Partial<AISettings> | undefined): AISettings => {
+  const settings = { ...DEFAULT_AI_SETTINGS, ...value };
+  return {
+    provider: AI_PROVIDERS.some(p => p.id === settings.provider) ? settings.provider : DEFAULT_AI_SETTINGS.provider,
+    model: typeof settings.model === 'string' ? settings.model.trim() : '',
+    baseUrl: typeof settings.baseUrl === 'string' ? settings.baseUrl.trim() : DEFAULT_AI_SETTINGS.baseUrl,
+    timeoutMs: settings.timeoutMs > 0 ? settings.timeoutMs : DEFAULT_AI_SETTINGS.timeoutMs,
+    maxRetries: settings.maxRetries >= 0 ? Math.floor(settings.maxRetries) : DEFAULT_AI_SETTINGS.maxRetries,
+  };
+};
+
+export const getModelName = (settings: AISettings) => {
+  return settings.model || AI_PROVIDERS.find(p => p.id === settings.provider)?.defaultModel || '';
+};
+
+const createProvider = (settings: AISettings): { provider: AdvisorProvider | null; error: string | null } => {
+  if (settings.provider === 'rules') return { provider: ruleBasedAdvisor, error: null };
+  if (settings.provider === 'openai') {
+    if (!settings.baseUrl) return { provider: null, error: t('ai.missingBaseUrl') };
+    return { provider: createModelAdvisor(createOpenAICompatibleModel(settings.baseUrl, getModelName(settings))), error: null };
+  }
+  const model = createGeminiModel(getModelName(settings));
+  return model
+    ? { provider: createModelAdvisor(model), error: null }
+    : { provider: null, error: t('ai.missingGeminiKey') };
+};
+
+const RETRY_DELAY_MS = 1000; // Doubles with each attempt
+
+class TimeoutError extends Error {}
+
+// Provider errors carry the HTTP status, as the Gemini SDK's own errors do
+const isRetryable = (error: unknown) => {
+  if (error instanceof TimeoutError) return true;
+  if (error instanceof NetworkError) return true;
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' && (status === 429 || status >= 500);
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs one provider call with a timeout per attempt, retrying timeouts,
+ * network failures, rate limits and server errors with growing delays.
+ */
+const runWithRetry = async <T>(settings: AISettings, task: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, settings.timeoutMs);
+    try {
+      return await task(controller.signal);
+    } catch (error) {
+      const failure = timedOut ? new TimeoutError('AI request timed out') : error;
+      if (attempt >= settings.maxRetries || !isRetryable(failure)) throw failure;
+      console.warn(`AI request failed, retrying (${attempt + 1}/${settings.maxRetries}):`, error);
+      await wait(RETRY_DELAY_MS * 2 ** attempt);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+};
+
+const describeFailure = (error: unknown, fallback: string) => {
+  console.error('AI provider error:', error);
+  return error instanceof TimeoutError ? t('ai.timeout') : fallback;
+};
+
+export interface FinancialAdviceResult {
+  insight: FinancialInsight | null;
+  error: string | null;
+}
+
+/**
+ * Structured advice on one period, compared with the period before it, from
+ * the provider chosen in settings.
+ */
+export const getFinancialAdvice = async (settings: AISettings, input: AdviceInput): Promise<FinancialAdviceResult> => {
+  const { provider, error } = createProvider(settings);
+  if (!provider) return { insight: null, error };
+  try {
+    const insight = await runWithRetry(settings, signal => provider.getAdvice(input, signal));
+    return insight ? { insight, error: null } : { insight: null, error: t('ai.unreadable') };
+  } catch (failure) {
+    return { insight: null, error: describeFailure(failure, t('ai.adviceFailed')) };
+  }
+};
+
+export interface QuickEntryAIResult {
+  drafts: QuickEntryDraft[];
+  error: string | null;
+}
+
+// Whether quick entry should hand text it could not read to the AI at all
+export const canParseQuickEntry = (settings: AISettings) => !!createProvider(settings).provider?.parseQuickEntry;
+
+/**
+ * Fallback for quick-entry text the local parser could not read, e.g. amounts
+ * in words or several numbers in one phrase.
+ */
+export const parseQuickEntryWithAI = async (
+  settings: AISettings,
+  segments: string[],
+  today: string,
+  categories: Category[]
+): Promise<QuickEntryAIResult> => {
+  const { provider, error } = createProvider(settings);
+  if (!provider) return { drafts: [], error };
+  if (!provider.parseQuickEntry) return { drafts: [], error: t('ai.quickEntryUnsupported') };
+  try {
+    const drafts = await runWithRetry(settings, signal => provider.parseQuickEntry(segments, today, categories, signal));
+    return drafts ? { drafts, error: null } : { drafts: [], error: t('ai.unreadable') };
+  } catch (failure) {
+    return { drafts: [], error: describeFailure(failure, t('ai.quickEntryFailed')) };
+  }
+};
+
+export interface ReceiptResult {
+  receipt: ReceiptData | null;
+  error: string | null;
+}
+
+/**
+ * Reads a receipt photo or screenshot. Needs a provider whose model accepts
+ * images.
+ */
+export const extractReceipt = async (
+  settings: AISettings,
+  imageDataUrl: string,
+  today: string,
+  categories: Category[]
+): Promise<ReceiptResult> => {
+  const { provider, error } = createProvider(settings);
+  if (!provider) return { receipt: null, error };
+  if (!provider.extractReceipt) return { receipt: null, error: t('ai.receiptUnsupported') };
+  try {
+    const receipt = await runWithRetry(settings, signal => provider.extractReceipt(imageDataUrl, today, categories, signal));
+    return receipt ? { receipt, error: null } : { receipt: null, error: t('ai.receiptEmpty') };
+  } catch (failure) {
+    return { receipt: null, error: describeFailure(failure, t('ai.receiptFailed')) };
+  }
+};
+
+// Tool rounds per question; a model still asking for data after this is going in circles
+const MAX_TOOL_ROUNDS = 6;
+
+export interface ChatResult {
+  messages: ChatMessage[] | null; // The whole conversation including the new answer
+  error: string | null;
+}
+
+export const canChat = (settings: AISettings) => !!createProvider(settings).provider?.chat;
+
+/**
+ * Continues a conversation whose last message is the user's question. Tool
+ * calls are answered with `runTool` and sent back until the model replies
+ * with text.
+ */
+export const runChat = async (
+  settings: AISettings,
+  system: string,
+  messages: ChatMessage[],
+  tools: ChatTool[],
+  runTool: (call: ChatToolCall) => unknown
+): Promise<ChatResult> => {
+  const { provider, error } = createProvider(settings);
+  if (!provider) return { messages: null, error };
+  if (!provider.chat) return { messages: null, error: t('ai.chatUnsupported') };
+
+  let conversation = messages;
+  try {
+    for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+      const reply = await runWithRetry(settings, signal => provider.chat(system, conversation, tools, signal));
+      if (reply.toolCalls.length === 0) {
+        return reply.text.trim()
+          ? { messages: [...conversation, { role: 'assistant', text: reply.text.trim() }], error: null }
+          : { messages: null, error: t('ai.noAnswer') };
+      }
+      const results: ChatMessage[] = reply.toolCalls.map(call => {
+        let result: unknown;
+        try {
+          result = runTool(call);
+        } catch (toolError) {
+          console.error(`Tool ${call.name} failed:`, toolError);
+          result = { error: toolError instanceof Error ? toolError.message : 'Tool failed' };
+        }
+        return { role: 'tool', toolResult: { callId: call.id, name: call.name, result } };
+      });
+      conversation = [...conversation, { role: 'assistant', text: reply.text, toolCalls: reply.toolCalls }, ...results];
+    }
+    return { messages: null, error: t('ai.tooManyRounds') };
+  } catch (failure) {
+    return { messages: null, error: describeFailure(failure, t('ai.chatFailed')) };
+  }
+};
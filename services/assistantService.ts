@@ -0,0 +1,231 @@
+import { AISettings, Account, Category, Transaction, TransactionFilter, TransactionType } from "../types";
+import { ChatMessage, ChatResult, ChatTool, ChatToolCall, JsonSchema, runChat } from "./advisorService";
+import { EMPTY_FILTER, applyTransactionFilter, getFilterTotals } from "./searchService";
+// Aliased: `t` names a transaction throughout this file
+import { getLanguageName, t as translate } from "../utils/i18n";
+
+export interface AssistantContext {
+  transactions: Transaction[]; // In `currency`
+  categories: Category[];
+  accounts: Account[];
+  currency: string;
+  today: string; // YYYY-MM-DD
+}
+
+const SESSION_KEY = 'freshfin:assistant';
+
+// Older turns are dropped from what is sent, so long chats stay within the model's context
+const MAX_SENT_MESSAGES = 40;
+// Tool results stay small: grouped figures and a handful of examples
+const MAX_GROUPS = 20;
+const MAX_LISTED = 10;
+
+const FILTER_PROPERTIES: Record<string, JsonSchema> = {
+  from: { type: 'string', description: 'First day to include, YYYY-MM-DD. Omit for no lower bound.' },
+  to: { type: 'string', description: 'Last day to include, YYYY-MM-DD. Omit for no upper bound.' },
+  type: { type: 'string', enum: ['expense', 'income'], description: 'Only expenses or only income. Omit for both.' },
+  categories: { type: 'array', items: { type: 'string' }, description: 'Category names, exactly as listed in the instructions.' },
+  keyword: { type: 'string', description: 'Words that must appear in the title, note, category or tags, e.g. "打车".' },
+  account: { type: 'string', description: 'Account name.' },
+};
+
+const TOOLS: ChatTool[] = [
+  {
+    name: 'get_totals',
+    description: 'Total income, expense and number of records matching the filters.',
+    parameters: { type: 'object', properties: FILTER_PROPERTIES },
+  },
+  {
+    name: 'get_breakdown',
+    description: `Totals matching the filters, grouped by category, month, account or tag, largest first (at most ${MAX_GROUPS} groups).`,
+    parameters: {
+      type: 'object',
+      properties: {
+        ...FILTER_PROPERTIES,
+        groupBy: { type: 'string', enum: ['category', 'month', 'account', 'tag'] },
+      },
+      required: ['groupBy'],
+    },
+  },
+  {
+    name: 'list_transactions',
+    description: `A few individual records matching the filters (at most ${MAX_LISTED}), for examples or the largest purchases.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        ...FILTER_PROPERTIES,
+        sort: { type: 'string', enum: ['largest', 'latest'] },
+        limit: { type: 'number' },
+      },
+    },
+  },
+];
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const asText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * Applies the filter arguments every tool shares. Transfers are never
+ * included: they move money without earning or spending it.
+ */
+const filterFor = (args: Record<string, unknown>, context: AssistantContext): Transaction[] => {
+  const names = Array.isArray(args.categories) ? args.categories.map(asText).filter(Boolean) : [];
+  const categoryIds = context.categories
+    .filter(c => names.includes(c.name) || names.includes(c.id))
+    .map(c => c.id);
+  const type = args.type === 'income' ? TransactionType.INCOME : args.type === 'expense' ? TransactionType.EXPENSE : null;
+  const from = asText(args.from);
+  const to = asText(args.to);
+  const filter: TransactionFilter = {
+    ...EMPTY_FILTER,
+    query: asText(args.keyword),
+    types: type ? [type] : [TransactionType.EXPENSE, TransactionType.INCOME],
+    datePreset: from || to ? 'custom' : 'all',
+    from: from || undefined,
+    to: to || undefined,
+    // Unknown names match nothing rather than everything
+    categoryIds: names.length > 0 && categoryIds.length === 0 ? ['__none'] : categoryIds,
+  };
+  const accountName = asText(args.account);
+  const account = context.accounts.find(a => a.name === accountName);
+  return applyTransactionFilter(context.transactions, filter, context.categories, context.today)
+    .filter(t => !accountName || t.accountId === account?.id);
+};
+
+const runTool = (call: ChatToolCall, context: AssistantContext): unknown => {
+  const matches = filterFor(call.args, context);
+  const categoryMap = new Map(context.categories.map(c => [c.id, c.name]));
+  const accountMap = new Map(context.accounts.map(a => [a.id, a.name]));
+
+  if (call.name === 'get_totals') {
+    const totals = getFilterTotals(matches);
+    const dates = matches.map(t => t.date).sort();
+    return {
+      currency: context.currency,
+      count: totals.count,
+      income: round(totals.income),
+      expense: round(totals.expense),
+      net: round(totals.net),
+      firstDate: dates[0] || null,
+      lastDate: dates[dates.length - 1] || null,
+    };
+  }
+
+  if (call.name === 'get_breakdown') {
+    const keysOf = (t: Transaction): string[] => {
+      switch (call.args.groupBy) {
+        case 'month': return [t.date.slice(0, 7)];
+        case 'account': return [accountMap.get(t.accountId) || t.accountId];
+        case 'tag': return t.tags?.length ? t.tags : [translate('assistant.noTag')];
+        default: return [categoryMap.get(t.categoryId) || translate('common.uncategorized')];
+      }
+    };
+    const groups = new Map<string, { income: number; expense: number; count: number }>();
+    matches.forEach(t => keysOf(t).forEach(key => {
+      const group = groups.get(key) || { income: 0, expense: 0, count: 0 };
+      if (t.type === TransactionType.INCOME) group.income += t.amount;
+      else group.expense += t.amount;
+      group.count++;
+      groups.set(key, group);
+    }));
+    const rows = [...groups.entries()]
+      .map(([group, totals]) => ({ group, income: round(totals.income), expense: round(totals.expense), count: totals.count }));
+    // Months read best in order, keeping the latest; everything else largest first
+    const isMonthly = call.args.groupBy === 'month';
+    if (isMonthly) rows.sort((a, b) => a.group.localeCompare(b.group));
+    else rows.sort((a, b) => (b.expense + b.income) - (a.expense + a.income));
+    return {
+      currency: context.currency,
+      groups: isMonthly ? rows.slice(-MAX_GROUPS) : rows.slice(0, MAX_GROUPS),
+      omittedGroups: Math.max(0, rows.length - MAX_GROUPS),
+    };
+  }
+
+  if (call.name === 'list_transactions') {
+    const limit = Math.min(Math.max(Number(call.args.limit) || 5, 1), MAX_LISTED);
+    const sorted = [...matches].sort((a, b) => call.args.sort === 'latest'
+      ? b.date.localeCompare(a.date) || b.timestamp - a.timestamp
+      : b.amount - a.amount);
+    return {
+      currency: context.currency,
+      totalMatches: matches.length,
+      transactions: sorted.slice(0, limit).map(t => ({
+        date: t.date,
+        title: t.title,
+        type: t.type === TransactionType.INCOME ? 'income' : 'expense',
+        amount: round(t.amount),
+        category: categoryMap.get(t.categoryId) || translate('common.uncategorized'),
+        account: accountMap.get(t.accountId) || '',
+      })),
+    };
+  }
+
+  return { error: `Unknown tool ${call.name}` };
+};
+
+const buildSystemPrompt = (context: AssistantContext) => {
+  const dates = context.transactions.map(t => t.date).sort();
+  const categoryNames = (kind: TransactionType) => context.categories
+    .filter(c => c.kind === kind)
+    .map(c => c.name)
+    .join('、');
+  return `
+You are the assistant inside a personal expense tracker. Answer questions about the user's own records.
+Today is ${context.today}. All amounts are in ${context.currency}.
+Records run from ${dates[0] || 'none'} to ${dates[dates.length - 1] || 'none'}.
+Expense categories: ${categoryNames(TransactionType.EXPENSE)}
+Income categories: ${categoryNames(TransactionType.INCOME)}
+Accounts: ${context.accounts.map(a => a.name).join('、')}
+
+Always use the tools to get figures; never guess or invent numbers. Resolve relative dates such as
+"since March" or "last month" against today. To explain a change, compare breakdowns of both periods.
+Reply in ${getLanguageName()}, briefly, with the key numbers. Transfers between accounts are not spending.
+`.trim();
+};
+
+// Starts at a user question, so a trimmed history never opens with a dangling tool result
+const trimHistory = (messages: ChatMessage[]): ChatMessage[] => {
+  if (messages.length <= MAX_SENT_MESSAGES) return messages;
+  const recent = messages.slice(-MAX_SENT_MESSAGES);
+  const start = recent.findIndex(m => m.role === 'user');
+  return start < 0 ? recent.slice(-1) : recent.slice(start);
+};
+
+/**
+ * Asks a follow-up in an existing conversation. The model only sees figures
+ * computed locally through the tools, never the raw list of records.
+ */
+export const askAssistant = async (
+  settings: AISettings,
+  history: ChatMessage[],
+  question: string,
+  context: AssistantContext
+): Promise<ChatResult> => {
+  const conversation: ChatMessage[] = [...history, { role: 'user', text: question }];
+  const sent = trimHistory(conversation);
+  const result = await runChat(settings, buildSystemPrompt(context), sent, TOOLS, call => runTool(call, context));
+  // What was trimmed off stays in the visible conversation
+  const kept = conversation.slice(0, conversation.length - sent.length);
+  return result.messages ? { ...result, messages: [...kept, ...result.messages] } : result;
+};
+
+// The conversation lasts for the browser tab's session
+export const loadAssistantSession = (): ChatMessage[] => {
+  try {
+    const saved = sessionStorage.getItem(SESSION_KEY);
+    const messages = saved ? JSON.parse(saved) : [];
+    return Array.isArray(messages) ? messages : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveAssistantSession = (messages: ChatMessage[]) => {
+  try {
+    if (messages.length > 0) sessionStorage.setItem(SESSION_KEY, JSON.stringify(messages));
+    else sessionStorage.removeItem(SESSION_KEY);
+  } catch (error) {
+    console.warn('Could not keep the assistant conversation:', error);
+  }
+};
@@ -0,0 +1,438 @@
+import {
+  AccountType,
+  AppData,
+  Attachment,
+  BackupFile,
+  BudgetHistory,
+  RecurrenceFrequency,
+  TransactionType
+} from "../types";
+import { ensureFallbackCategories, migrateTransactionCategories } from "./categoryService";
+import { convertBudgetHistory, parseBudgetHistory } from "./budgetService";
+import { convertSavingsGoals } from "./goalService";
+import { SCHEMA_VERSION, migrateAppData } from "./migrations";
+import { rebaseExchangeRates } from "./currencyService";
+import { ensureDefaultAccount, migrateTransactionAccounts } from "./accountService";
+import { isLocale, t as translate } from "../utils/i18n";
+
+export const BACKUP_FORMAT = 'freshfin-backup';
+export const BACKUP_VERSION = 1;
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface EntityChangeSummary {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+export interface RestoreSummary {
+  transactions: EntityChangeSummary;
+  categories: EntityChangeSummary;
+  recurringRules: EntityChangeSummary;
+  categoryRules: EntityChangeSummary;
+  savingsGoals: EntityChangeSummary;
+  people: EntityChangeSummary;
+  accounts: EntityChangeSummary;
+  savedFilters: EntityChangeSummary;
+  exchangeRates: EntityChangeSummary;
+  trash: EntityChangeSummary;
+  budgetChanged: boolean;
+  attachments: number; // Images included in the backup
+  missingAttachments: number; // Images its records refer to that it does not include
+}
+
+export interface BackupValidationResult {
+  backup: BackupFile | null; // Set only when there are no errors
+  errors: string[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_PATTERN = /^\d{4}-\d{2}$/;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const MAX_REPORTED_ERRORS = 5;
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+};
+
+const isTransactionType = (value: unknown) => {
+  return Object.values(TransactionType).includes(value as TransactionType);
+};
+
+// Backups from before multi-currency have no currency; migration fills it in
+const isOptionalCurrency = (value: unknown) => {
+  return value === undefined || (typeof value === 'string' && CURRENCY_PATTERN.test(value));
+};
+
+const invalid = (field: string) => translate('backup.invalidField', { field });
+const missing = (field: string) => translate('backup.missingField', { field });
+
+const validateTransaction = (value: unknown): string | null => {
+  if (!isObject(value)) return translate('backup.notObject');
+  if (typeof value.id !== 'string' || !value.id) return missing('id');
+  if (typeof value.title !== 'string') return missing('title');
+  if (typeof value.amount !== 'number' || !isFinite(value.amount) || value.amount < 0) return invalid('amount');
+  if (!isOptionalCurrency(value.currency)) return invalid('currency');
+  if (!isTransactionType(value.type)) return invalid('type');
+  if (value.type === TransactionType.TRANSFER && (typeof value.toAccountId !== 'string' || !value.toAccountId)) {
+    return translate('backup.transferMissingAccount');
+  }
+  if (typeof value.date !== 'string' || !DATE_PATTERN.test(value.date)) return invalid('date');
+  if (typeof value.timestamp !== 'number') return invalid('timestamp');
+  if (value.note !== undefined && typeof value.note !== 'string') return invalid('note');
+  if (value.tags !== undefined && (!Array.isArray(value.tags) || value.tags.some(tag => typeof tag !== 'string'))) {
+    return invalid('tags');
+  }
+  if (value.attachmentIds !== undefined && (!Array.isArray(value.attachmentIds) || value.attachmentIds.some(id => typeof id !== 'string'))) {
+    return invalid('attachmentIds');
+  }
+  if (value.split !== undefined && (!isObject(value.split) || !Array.isArray(value.split.shares) || value.split.shares.some(share => (
+    !isObject(share) || typeof share.personId !== 'string' || typeof share.amount !== 'number' || !isFinite(share.amount)
+  )))) {
+    return invalid('split');
+  }
+  if (value.settlesWith !== undefined && typeof value.settlesWith !== 'string') return invalid('settlesWith');
+  return null;
+};
+
+const validateCategory = (value: unknown): string | null => {
+  if (!isObject(value)) return translate('backup.notObject');
+  if (typeof value.id !== 'string' || !value.id) return missing('id');
+  if (typeof value.name !== 'string' || !value.name) return missing('name');
+  if (!isTransactionType(value.kind)) return invalid('kind');
+  return null;
+};
+
+const validateRecurringRule = (value: unknown): string | null => {
+  if (!isObject(value)) return translate('backup.notObject');
+  if (typeof value.id !== 'string' || !value.id) return missing('id');
+  if (typeof value.amount !== 'number' || value.amount <= 0) return invalid('amount');
+  if (!isOptionalCurrency(value.currency)) return invalid('currency');
+  if (!isTransactionType(value.type) || value.type === TransactionType.TRANSFER) return invalid('type');
+  if (!Object.values(RecurrenceFrequency).includes(value.frequency as RecurrenceFrequency)) return invalid('frequency');
+  if (typeof value.startDate !== 'string' || !DATE_PATTERN.test(value.startDate)) return invalid('startDate');
+  if (!Array.isArray(value.skippedDates)) return invalid('skippedDates');
+  return null;
+};
+
+const validateCategoryRule = (value: unknown): string | null => {
+  if (!isObject(value)) return translate('backup.notObject');
+  if (typeof value.id !== 'string' || !value.id) return missing('id');
+  if (typeof value.pattern !== 'string' || !value.pattern) return missing('pattern');
+  if (value.matchMode !== 'contains' && value.matchMode !== 'regex') return invalid('matchMode');
+  if (!isTransactionType(value.type) || value.type === TransactionType.TRANSFER) return invalid('type');
+  if (typeof value.categoryId !== 'string' || !value.categoryId) return missing('categoryId');
+  if (value.minAmount !== undefined && (typeof value.minAmount !== 'number' || !isFinite(value.minAmount))) return invalid('minAmount');
+  if (value.maxAmount !== undefined && (typeof value.maxAmount !== 'number' || !isFinite(value.maxAmount))) return invalid('maxAmount');
+  if (!Array.isArray(value.tags) || value.tags.some(tag => typeof tag !== 'string')) return invalid('tags');
+  if (typeof value.enabled !== 'boolean') return invalid('enabled');
+  return null;
+};
+
+const validateSavingsGoal = (value: unknown): string | null => {
+  if (!isObject(value)) return translate('backup.notObject');
+  if (typeof value.id !== 'string' || !value.id) return missing('id');
+  if (typeof value.name !== 'string' || !value.name) return missing('name');
+  if (typeof value.targetAmount !== 'number' || !isFinite(value.targetAmount) || value.targetAmount <= 0) return invalid('targetAmount');
+  if (typeof value.deadline !== 'string' || !DATE_PATTERN.test(value.deadline)) return invalid('deadline');
+  if (value.monthlyContribution !== undefined && (typeof value.monthlyContribution !== 'number' || !isFinite(value.monthlyContribution))) {
+    return invalid('monthlyContribution');
+  }
+  if (typeof value.startMonth !== 'string' || !MONTH_PATTERN.test(value.startMonth)) return invalid('startMonth');
+  if (!Array.isArray(value.contributions) || value.contributions.some(c => !isObject(c) || typeof c.amount !== 'number' || !isFinite(c.amount))) {
+    return invalid('contributions');
+  }
+  return null;
+};
+
+const validatePerson = (value: unknown): string | null => {
+  if (!isObject(value)) return translate('backup.notObject');
+  if (typeof value.id !== 'string' || !value.id) return missing('id');
+  if (typeof value.name !== 'string' || !value.name) return missing('name');
+  return null;
+};
+
+const validateAttachment = (value: unknown): string | null => {
+  if (!isObject(value)) return translate('backup.notObject');
+  if (typeof value.id !== 'string' || !value.id) return missing('id');
+  if (typeof value.mimeType !== 'string') return invalid('mimeType');
+  if (typeof value.dataUrl !== 'string' || !value.dataUrl.startsWith('data:')) return invalid('dataUrl');
+  return null;
+};
+
+const validateTrashedTransaction = (value: unknown): string | null => {
+  const error = validateTransaction(value);
+  if (error) return error;
+  const { deletedAt } = value as Record<string, unknown>;
+  if (typeof deletedAt !== 'number' || !isFinite(deletedAt)) return invalid('deletedAt');
+  return null;
+};
+
+const validateAccount = (value: unknown): string | null => {
+  if (!isObject(value)) return translate('backup.notObject');
+  if (typeof value.id !== 'string' || !value.id) return missing('id');
+  if (typeof value.name !== 'string' || !value.name) return missing('name');
+  if (!Object.values(AccountType).includes(value.type as AccountType)) return invalid('type');
+  if (typeof value.currency !== 'string' || !CURRENCY_PATTERN.test(value.currency)) return invalid('currency');
+  if (typeof value.openingBalance !== 'number' || !isFinite(value.openingBalance)) return invalid('openingBalance');
+  return null;
+};
+
+const validateSavedFilter = (value: unknown): string | null => {
+  if (!isObject(value)) return translate('backup.notObject');
+  if (typeof value.id !== 'string' || !value.id) return missing('id');
+  if (typeof value.name !== 'string' || !value.name) return missing('name');
+  if (!isObject(value.filter)) return invalid('filter');
+  return null;
+};
+
+const validateExchangeRate = (value: unknown): string | null => {
+  if (!isObject(value)) return translate('backup.notObject');
+  if (typeof value.id !== 'string' || !value.id) return missing('id');
+  if (typeof value.currency !== 'string' || !CURRENCY_PATTERN.test(value.currency)) return invalid('currency');
+  if (typeof value.rate !== 'number' || !isFinite(value.rate) || value.rate <= 0) return invalid('rate');
+  if (value.date !== undefined && (typeof value.date !== 'string' || !DATE_PATTERN.test(value.date))) return invalid('date');
+  return null;
+};
+
+const collectErrors = (
+  label: string,
+  items: unknown,
+  validate: (value: unknown) => string | null,
+  errors: string[]
+) => {
+  if (!Array.isArray(items)) {
+    errors.push(translate('backup.notArray', { field: label }));
+    return;
+  }
+  items.forEach((item, index) => {
+    const error = validate(item);
+    if (error) errors.push(`${label}[${index}]: ${error}`);
+  });
+};
+
+// Images live outside AppData, so the backup collects them by the ids its records hold
+export const getAttachmentIds = (data: AppData): string[] => {
+  return [...new Set([...data.transactions, ...data.trash].flatMap(t => t.attachmentIds || []))];
+};
+
+export const createBackup = (data: AppData, attachments: Attachment[]): BackupFile => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  schemaVersion: SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  data,
+  attachments,
+});
+
+/**
+ * Checks a parsed backup file against the schema before anything is applied,
+ * then migrates its data to the current schema version.
+ */
+export const validateBackup = (raw: unknown): BackupValidationResult => {
+  if (!isObject(raw) || raw.format !== BACKUP_FORMAT) {
+    return { backup: null, errors: [translate('backup.notBackup')] };
+  }
+  const schemaVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 1;
+  if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION || schemaVersion > SCHEMA_VERSION) {
+    return { backup: null, errors: [translate('backup.tooNew')] };
+  }
+  if (!isObject(raw.data)) {
+    return { backup: null, errors: [translate('backup.noData')] };
+  }
+
+  const data = raw.data;
+  const errors: string[] = [];
+  collectErrors('transactions', data.transactions, validateTransaction, errors);
+  collectErrors('categories', data.categories, validateCategory, errors);
+  collectErrors('recurringRules', data.recurringRules, validateRecurringRule, errors);
+  if (!isObject(data.budgetHistory) || !Array.isArray(data.budgetHistory.versions)) {
+    errors.push(invalid('budgetHistory'));
+  }
+  // Backups from before accounts have none; migration creates the default one
+  if (data.accounts !== undefined) {
+    collectErrors('accounts', data.accounts, validateAccount, errors);
+  }
+  // Backups from before category rules have none
+  if (data.categoryRules !== undefined) {
+    collectErrors('categoryRules', data.categoryRules, validateCategoryRule, errors);
+  }
+  if (data.savingsGoals !== undefined) {
+    collectErrors('savingsGoals', data.savingsGoals, validateSavingsGoal, errors);
+  }
+  if (data.people !== undefined) {
+    collectErrors('people', data.people, validatePerson, errors);
+  }
+  if (data.savedFilters !== undefined) {
+    collectErrors('savedFilters', data.savedFilters, validateSavedFilter, errors);
+  }
+  if (data.exchangeRates !== undefined) {
+    collectErrors('exchangeRates', data.exchangeRates, validateExchangeRate, errors);
+  }
+  if (data.trash !== undefined) {
+    collectErrors('trash', data.trash, validateTrashedTransaction, errors);
+  }
+  // Backups from before images were included have none
+  if (raw.attachments !== undefined) {
+    collectErrors('attachments', raw.attachments, validateAttachment, errors);
+  }
+  if (data.settings !== undefined && (
+    !isObject(data.settings) ||
+    !isOptionalCurrency(data.settings.baseCurrency) ||
+    (data.settings.ai !== undefined && !isObject(data.settings.ai)) ||
+    (data.settings.locale !== undefined && !isLocale(data.settings.locale)) ||
+    (data.settings.notifications !== undefined && !isObject(data.settings.notifications))
+  )) {
+    errors.push(invalid('settings'));
+  }
+
+  if (errors.length > 0) {
+    const extra = errors.length - MAX_REPORTED_ERRORS;
+    return {
+      backup: null,
+      errors: extra > 0 ? [...errors.slice(0, MAX_REPORTED_ERRORS), translate('backup.moreErrors', { count: extra })] : errors,
+    };
+  }
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      version: raw.version,
+      schemaVersion: SCHEMA_VERSION,
+      exportedAt: String(raw.exportedAt),
+      data: migrateAppData(data, schemaVersion),
+      attachments: raw.attachments as Attachment[] | undefined,
+    },
+    errors: [],
+  };
+};
+
+const summarizeEntities = <T extends { id: string }>(current: T[], incoming: T[], mode: RestoreMode): EntityChangeSummary => {
+  const currentById = new Map(current.map(item => [item.id, item]));
+  const incomingIds = new Set(incoming.map(item => item.id));
+  const summary: EntityChangeSummary = { added: 0, updated: 0, removed: 0, unchanged: 0 };
+
+  incoming.forEach(item => {
+    const existing = currentById.get(item.id);
+    if (!existing) summary.added++;
+    else if (JSON.stringify(existing) === JSON.stringify(item)) summary.unchanged++;
+    else summary.updated++;
+  });
+
+  const untouched = current.filter(item => !incomingIds.has(item.id)).length;
+  if (mode === 'replace') summary.removed = untouched;
+  else summary.unchanged += untouched;
+  return summary;
+};
+
+// One unit of the backup's base currency in the current one, from either side's undated rate; 1 when neither has it
+const getIncomingConversionRate = (current: AppData, incoming: AppData) => {
+  const pivot = incoming.exchangeRates.find(r => r.currency === current.settings.baseCurrency && !r.date && r.rate > 0);
+  if (pivot) return 1 / pivot.rate;
+  return current.exchangeRates.find(r => r.currency === incoming.settings.baseCurrency && !r.date && r.rate > 0)?.rate || 1;
+};
+
+/**
+ * Merging keeps the current base currency, so everything the backup holds in
+ * its own base (rates, budgets and goals) is converted into it first.
+ */
+const toCurrentBase = (current: AppData, incoming: AppData, mode: RestoreMode): AppData => {
+  const from = incoming.settings.baseCurrency;
+  const to = current.settings.baseCurrency;
+  if (mode === 'replace' || from === to) return incoming;
+  const rate = getIncomingConversionRate(current, incoming);
+  return {
+    ...incoming,
+    budgetHistory: convertBudgetHistory(incoming.budgetHistory, rate),
+    savingsGoals: convertSavingsGoals(incoming.savingsGoals, rate),
+    exchangeRates: rebaseExchangeRates(incoming.exchangeRates, from, to) || [],
+  };
+};
+
+// Older backups hold only the ids; those images come back only where this device still has them
+const countMissingAttachments = (backup: BackupFile) => {
+  const included = new Set((backup.attachments || []).map(a => a.id));
+  return getAttachmentIds(backup.data).filter(id => !included.has(id)).length;
+};
+
+export const summarizeRestore = (current: AppData, backup: BackupFile, mode: RestoreMode): RestoreSummary => {
+  const incoming = toCurrentBase(current, backup.data, mode);
+  return {
+    transactions: summarizeEntities(current.transactions, incoming.transactions, mode),
+    categories: summarizeEntities(current.categories, incoming.categories, mode),
+    recurringRules: summarizeEntities(current.recurringRules, incoming.recurringRules, mode),
+    categoryRules: summarizeEntities(current.categoryRules, incoming.categoryRules, mode),
+    savingsGoals: summarizeEntities(current.savingsGoals, incoming.savingsGoals, mode),
+    people: summarizeEntities(current.people, incoming.people, mode),
+    accounts: summarizeEntities(current.accounts, incoming.accounts, mode),
+    savedFilters: summarizeEntities(current.savedFilters, incoming.savedFilters, mode),
+    exchangeRates: summarizeEntities(current.exchangeRates, incoming.exchangeRates, mode),
+    trash: summarizeEntities(current.trash, incoming.trash, mode),
+    budgetChanged: JSON.stringify(current.budgetHistory) !== JSON.stringify(incoming.budgetHistory),
+    attachments: backup.attachments?.length || 0,
+    missingAttachments: countMissingAttachments(backup),
+  };
+};
+
+// Incoming items win over existing ones with the same id
+const mergeById = <T extends { id: string }>(current: T[], incoming: T[]): T[] => {
+  const incomingIds = new Set(incoming.map(item => item.id));
+  return [...current.filter(item => !incomingIds.has(item.id)), ...incoming];
+};
+
+const mergeBudgetHistory = (current: BudgetHistory, incoming: BudgetHistory): BudgetHistory => {
+  const incomingMonths = new Set(incoming.versions.map(v => v.effectiveMonth));
+  return {
+    versions: [...current.versions.filter(v => !incomingMonths.has(v.effectiveMonth)), ...incoming.versions]
+      .sort((a, b) => a.effectiveMonth.localeCompare(b.effectiveMonth)),
+    overrides: { ...current.overrides, ...incoming.overrides },
+  };
+};
+
+/**
+ * Produces the data set after a restore. The result is normalized the same
+ * way as data loaded from storage, so a partial or older backup cannot leave
+ * transactions pointing at missing categories.
+ */
+export const applyRestore = (current: AppData, backupData: AppData, mode: RestoreMode): AppData => {
+  const incoming = toCurrentBase(current, backupData, mode);
+  const merged: AppData = mode === 'replace'
+    ? incoming
+    : {
+        transactions: mergeById(current.transactions, incoming.transactions),
+        categories: mergeById(current.categories, incoming.categories),
+        budgetHistory: mergeBudgetHistory(current.budgetHistory, incoming.budgetHistory),
+        recurringRules: mergeById(current.recurringRules, incoming.recurringRules),
+        categoryRules: mergeById(current.categoryRules, incoming.categoryRules),
+        savingsGoals: mergeById(current.savingsGoals, incoming.savingsGoals),
+        people: mergeById(current.people, incoming.people),
+        accounts: mergeById(current.accounts, incoming.accounts),
+        savedFilters: mergeById(current.savedFilters, incoming.savedFilters),
+        // Merging keeps the current base currency
+        settings: current.settings,
+        exchangeRates: mergeById(current.exchangeRates, incoming.exchangeRates),
+        trash: mergeById(current.trash, incoming.trash),
+      };
+
+  const categories = ensureFallbackCategories(merged.categories);
+  const accounts = ensureDefaultAccount(merged.accounts, merged.settings.baseCurrency);
+  const transactions = migrateTransactionAccounts(migrateTransactionCategories(merged.transactions, categories), accounts);
+  // A record restored into the list is no longer deleted
+  const listedIds = new Set(transactions.map(t => t.id));
+  return {
+    transactions,
+    categories,
+    budgetHistory: parseBudgetHistory(merged.budgetHistory),
+    recurringRules: migrateTransactionAccounts(merged.recurringRules, accounts),
+    categoryRules: merged.categoryRules,
+    savingsGoals: merged.savingsGoals,
+    people: merged.people,
+    accounts,
+    savedFilters: merged.savedFilters,
+    settings: merged.settings,
+    exchangeRates: merged.exchangeRates,
+    trash: migrateTransactionAccounts(migrateTransactionCategories(merged.trash, categories), accounts)
+      .filter(t => !listedIds.has(t.id)),
+  };
+};
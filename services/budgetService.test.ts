@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { parseBudgetHistory, resolveBudgetForMonth, setBudgetForMonth } from "./budgetService";
+
+const config = (monthlyLimit: number) => ({ monthlyLimit, categoryLimits: {} });
+
+describe("setBudgetForMonth", () => {
+  it("keeps earlier months when the first edit replaces a legacy budget", () => {
+    const legacy = parseBudgetHistory(3000);
+    const edited = setBudgetForMonth(legacy, '2026-05', config(8000), 'onward');
+
+    expect(resolveBudgetForMonth(edited, '2026-03').monthlyLimit).toBe(3000);
+    expect(resolveBudgetForMonth(edited, '2026-05').monthlyLimit).toBe(8000);
+    expect(resolveBudgetForMonth(edited, '2026-09').monthlyLimit).toBe(8000);
+  });
+
+  it("keeps earlier months when the only stored version starts at the edited month", () => {
+    // Installs that seeded their budget at the month they were migrated
+    const seeded = parseBudgetHistory({ versions: [{ effectiveMonth: '2026-05', config: config(3000) }], overrides: {} });
+    const edited = setBudgetForMonth(seeded, '2026-05', config(8000), 'onward');
+
+    expect(resolveBudgetForMonth(edited, '2026-03').monthlyLimit).toBe(3000);
+    expect(resolveBudgetForMonth(edited, '2026-05').monthlyLimit).toBe(8000);
+  });
+});
@@ -0,0 +1,149 @@
+import { BudgetConfig, BudgetHistory, BudgetScope, BudgetStatus } from "../types";
+
+export const DEFAULT_MONTHLY_LIMIT = 5000;
+
+// Share of a limit at which a budget bar turns amber
+export const BUDGET_WARNING_RATIO = 0.8;
+
+export const DEFAULT_BUDGET_CONFIG: BudgetConfig = {
+  monthlyLimit: DEFAULT_MONTHLY_LIMIT,
+  categoryLimits: {},
+};
+
+// Effective month of a version that covers every month before the later ones
+export const EARLIEST_MONTH = '0000-01';
+
+export const getCategoryLimitTotal = (config: BudgetConfig): number => {
+  return Object.values(config.categoryLimits).reduce((sum, limit) => sum + limit, 0);
+};
+
+/**
+ * The overall monthly budget is the sum of the category budgets, unless an
+ * explicit cap above that sum has been set.
+ */
+export const getEffectiveMonthlyLimit = (config: BudgetConfig): number => {
+  return Math.max(config.monthlyLimit, getCategoryLimitTotal(config));
+};
+
+export const getBudgetStatus = (spent: number, limit: number | undefined): BudgetStatus => {
+  if (!limit || limit <= 0) return 'ok';
+  const ratio = spent / limit;
+  if (ratio >= 1) return 'over';
+  if (ratio >= BUDGET_WARNING_RATIO) return 'warning';
+  return 'ok';
+};
+
+/**
+ * Reads a stored budget. Before per-category budgets existed the value was a
+ * bare number, which becomes the overall cap.
+ */
+export const parseBudgetConfig = (raw: unknown): BudgetConfig => {
+  if (typeof raw === 'number' && raw > 0) {
+    return { monthlyLimit: raw, categoryLimits: {} };
+  }
+  if (raw && typeof raw === 'object') {
+    const value = raw as Partial<BudgetConfig>;
+    return {
+      monthlyLimit: typeof value.monthlyLimit === 'number' ? value.monthlyLimit : 0,
+      categoryLimits: value.categoryLimits || {},
+    };
+  }
+  return DEFAULT_BUDGET_CONFIG;
+};
+
+/**
+ * Returns the budget in force for a YYYY-MM month: a single-month override if
+ * there is one, otherwise the latest version that started on or before it.
+ * Months before the first version use the first version.
+ */
+export const resolveBudgetForMonth = (history: BudgetHistory, month: string): BudgetConfig => {
+  if (history.overrides[month]) return history.overrides[month];
+  const { versions } = history;
+  if (versions.length === 0) return DEFAULT_BUDGET_CONFIG;
+  const applicable = versions.filter(v => v.effectiveMonth <= month);
+  return (applicable.length > 0 ? applicable[applicable.length - 1] : versions[0]).config;
+};
+
+export const hasBudgetOverride = (history: BudgetHistory, month: string): boolean => {
+  return !!history.overrides[month];
+};
+
+/**
+ * Records a budget change made while viewing `month`. "From this month on"
+ * replaces any later versions, so future months follow the new config, but
+ * keeps later single-month overrides. Months before `month` keep the budget
+ * they had, even when the version they fell back to is the one replaced.
+ */
+export const setBudgetForMonth = (
+  history: BudgetHistory,
+  month: string,
+  config: BudgetConfig,
+  scope: BudgetScope
+): BudgetHistory => {
+  if (scope === 'month') {
+    return { ...history, overrides: { ...history.overrides, [month]: config } };
+  }
+  const overrides = { ...history.overrides };
+  delete overrides[month];
+  const earlier = history.versions.filter(v => v.effectiveMonth < month);
+  if (earlier.length === 0) {
+    const fallback = history.versions[0]?.config || DEFAULT_BUDGET_CONFIG;
+    earlier.push({ effectiveMonth: EARLIEST_MONTH, config: fallback });
+  }
+  return {
+    versions: [...earlier, { effectiveMonth: month, config }],
+    overrides,
+  };
+};
+
+// Applies `update` to every version and single-month override
+const mapBudgetConfigs = (history: BudgetHistory, update: (config: BudgetConfig) => BudgetConfig): BudgetHistory => ({
+  versions: history.versions.map(v => ({ ...v, config: update(v.config) })),
+  overrides: Object.fromEntries(Object.entries(history.overrides).map(([month, config]) => [month, update(config)])),
+});
+
+/**
+ * Moves `sourceId`'s category budget onto `targetId`, adding to any limit the
+ * target already has, in every version and override. Used when the source
+ * category is merged away, so the overall budget stays the same.
+ */
+export const moveCategoryLimit = (history: BudgetHistory, sourceId: string, targetId: string): BudgetHistory => {
+  if (sourceId === targetId) return history;
+  return mapBudgetConfigs(history, config => {
+    if (!(sourceId in config.categoryLimits)) return config;
+    const { [sourceId]: limit, ...categoryLimits } = config.categoryLimits;
+    categoryLimits[targetId] = (categoryLimits[targetId] || 0) + limit;
+    return { ...config, categoryLimits };
+  });
+};
+
+// Budgets are kept in the base currency; `rate` is one old base unit in the new base
+export const convertBudgetHistory = (history: BudgetHistory, rate: number): BudgetHistory => {
+  if (rate === 1) return history;
+  const convert = (amount: number) => Math.round(amount * rate * 100) / 100;
+  return mapBudgetConfigs(history, config => ({
+    monthlyLimit: convert(config.monthlyLimit),
+    categoryLimits: Object.fromEntries(Object.entries(config.categoryLimits).map(([id, limit]) => [id, convert(limit)])),
+  }));
+};
+
+/**
+ * Reads a stored budget history. Older installs stored one global budget
+ * (a number, later a BudgetConfig), which becomes the only version, open-ended
+ * so past months keep the value they were recorded against.
+ */
+export const parseBudgetHistory = (raw: unknown): BudgetHistory => {
+  if (raw && typeof raw === 'object' && Array.isArray((raw as BudgetHistory).versions)) {
+    const history = raw as BudgetHistory;
+    return {
+      versions: history.versions
+        .map(v => ({ effectiveMonth: v.effectiveMonth, config: parseBudgetConfig(v.config) }))
+        .sort((a, b) => a.effectiveMonth.localeCompare(b.effectiveMonth)),
+      overrides: history.overrides || {},
+    };
+  }
+  return {
+    versions: [{ effectiveMonth: EARLIEST_MONTH, config: parseBudgetConfig(raw) }],
+    overrides: {},
+  };
+};
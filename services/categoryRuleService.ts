@@ -0,0 +1,161 @@
+import { Category, CategoryRule, Transaction, TransactionType } from "../types";
+import { guessCategoryId, isFallbackCategory } from "./categoryService";
+import { normalizeTags } from "./searchService";
+import { getTextSimilarity } from "../utils/text";
+
+// What a rule looks at, so entries can be checked before they become transactions
+export interface RuleSubject {
+  title: string;
+  amount: number;
+  type: TransactionType;
+}
+
+export interface Categorization {
+  categoryId: string;
+  tags: string[];
+  source: 'rule' | 'learned' | 'keyword';
+  ruleId?: string; // Set when a rule decided
+}
+
+export interface RuleChange {
+  before: Transaction;
+  after: Transaction;
+  ruleId: string;
+}
+
+// Only the most recent records are compared, which also lets old habits fade
+const MAX_LEARNING_HISTORY = 500;
+// Titles at least this similar count as the same kind of purchase
+const MIN_SIMILARITY = 0.6;
+
+const compiledPatterns = new Map<string, RegExp | null>();
+
+const compile = (pattern: string): RegExp | null => {
+  if (!compiledPatterns.has(pattern)) {
+    try {
+      compiledPatterns.set(pattern, new RegExp(pattern, 'i'));
+    } catch {
+      compiledPatterns.set(pattern, null);
+    }
+  }
+  return compiledPatterns.get(pattern);
+};
+
+export const isValidPattern = (rule: Pick<CategoryRule, 'pattern' | 'matchMode'>): boolean => {
+  if (!rule.pattern.trim()) return false;
+  return rule.matchMode !== 'regex' || compile(rule.pattern) !== null;
+};
+
+export const createCategoryRule = (categoryId: string, type: TransactionType): CategoryRule => ({
+  id: crypto.randomUUID(),
+  pattern: '',
+  matchMode: 'contains',
+  type,
+  categoryId,
+  tags: [],
+  enabled: true,
+});
+
+export const matchesRule = (rule: CategoryRule, subject: RuleSubject): boolean => {
+  if (!rule.enabled || rule.type !== subject.type) return false;
+  if (rule.minAmount !== undefined && subject.amount < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && subject.amount > rule.maxAmount) return false;
+  if (rule.matchMode === 'regex') {
+    return compile(rule.pattern)?.test(subject.title) ?? false;
+  }
+  const pattern = rule.pattern.trim().toLowerCase();
+  return !!pattern && subject.title.toLowerCase().includes(pattern);
+};
+
+/**
+ * The first rule in list order that matches, skipping rules whose category
+ * was archived or removed.
+ */
+export const findMatchingRule = (
+  rules: CategoryRule[],
+  subject: RuleSubject,
+  categories: Category[]
+): CategoryRule | null => {
+  const usable = new Set(categories.filter(c => !c.archived && c.kind === subject.type).map(c => c.id));
+  return rules.find(rule => usable.has(rule.categoryId) && matchesRule(rule, subject)) || null;
+};
+
+// Case, digits, spaces and punctuation vary between otherwise identical purchases
+const normalizeTitle = (title: string) => title.toLowerCase().replace(/[\d\s\p{P}\p{S}]+/gu, '');
+
+/**
+ * The category the user most often chose for similar titles, weighted by how
+ * similar they are. Records left in a fallback category taught nothing.
+ */
+export const suggestFromHistory = (
+  title: string,
+  type: TransactionType,
+  history: Transaction[],
+  categories: Category[]
+): string | null => {
+  const target = normalizeTitle(title);
+  if (!target) return null;
+  const usable = new Set(categories.filter(c => !c.archived && c.kind === type).map(c => c.id));
+  const scores = new Map<string, number>();
+  [...history]
+    .filter(t => t.type === type && usable.has(t.categoryId) && !isFallbackCategory(t.categoryId))
+    .sort((a, b) => b.date.localeCompare(a.date) || b.timestamp - a.timestamp)
+    .slice(0, MAX_LEARNING_HISTORY)
+    .forEach(t => {
+      const similarity = getTextSimilarity(target, normalizeTitle(t.title));
+      if (similarity >= MIN_SIMILARITY) scores.set(t.categoryId, (scores.get(t.categoryId) || 0) + similarity);
+    });
+  const best = [...scores.entries()].sort(([, a], [, b]) => b - a)[0];
+  return best ? best[0] : null;
+};
+
+/**
+ * Picks a category for a new entry: the user's rules first, then what similar
+ * past records were filed under, then the built-in keyword guess.
+ */
+export const categorize = (
+  subject: RuleSubject,
+  rules: CategoryRule[],
+  history: Transaction[],
+  categories: Category[]
+): Categorization => {
+  const rule = findMatchingRule(rules, subject, categories);
+  if (rule) return { categoryId: rule.categoryId, tags: rule.tags, source: 'rule', ruleId: rule.id };
+  const learned = suggestFromHistory(subject.title, subject.type, history, categories);
+  if (learned) return { categoryId: learned, tags: [], source: 'learned' };
+  return { categoryId: guessCategoryId(subject.title, subject.type, categories), tags: [], source: 'keyword' };
+};
+
+// Undefined when there are none, as transactions store it
+export const mergeTags = (existing: string[] | undefined, added: string[]): string[] | undefined => {
+  const tags = normalizeTags([...(existing || []), ...added]);
+  return tags.length > 0 ? tags : undefined;
+};
+
+/**
+ * What re-applying the rules to records dated `from` onwards would change.
+ * Rules override categories chosen by hand, which is why this is previewed.
+ */
+export const previewRuleChanges = (
+  transactions: Transaction[],
+  rules: CategoryRule[],
+  categories: Category[],
+  from: string
+): RuleChange[] => {
+  return transactions
+    .filter(t => t.date >= from && t.type !== TransactionType.TRANSFER)
+    .flatMap(t => {
+      const rule = findMatchingRule(rules, t, categories);
+      if (!rule) return [];
+      const tags = mergeTags(t.tags, rule.tags);
+      const tagsChanged = (tags?.length || 0) !== (t.tags?.length || 0);
+      if (rule.categoryId === t.categoryId && !tagsChanged) return [];
+      return [{ before: t, after: { ...t, categoryId: rule.categoryId, tags }, ruleId: rule.id }];
+    })
+    .sort((a, b) => b.before.date.localeCompare(a.before.date));
+};
+
+// Rules follow their category when it is merged into another
+export const moveRulesToCategory = (rules: CategoryRule[], sourceId: string, targetId: string): CategoryRule[] => {
+  return rules.map(rule => (rule.categoryId === sourceId ? { ...rule, categoryId: targetId } : rule));
+};
@@ -0,0 +1,118 @@
+import { AppData, Category, Transaction, TransactionType } from "../types";
+
+// Fallback categories cannot be archived or merged away, so every transaction
+// always has somewhere to land.
+export const FALLBACK_EXPENSE_CATEGORY_ID = 'cat-other-expense';
+export const FALLBACK_INCOME_CATEGORY_ID = 'cat-other-income';
+
+export const DEFAULT_CATEGORIES: Category[] = [
+  { id: 'cat-food', name: '餐饮', icon: '🍜', color: '#f97316', kind: TransactionType.EXPENSE },
+  { id: 'cat-transport', name: '交通', icon: '🚕', color: '#3b82f6', kind: TransactionType.EXPENSE },
+  { id: 'cat-shopping', name: '购物', icon: '🛍️', color: '#ec4899', kind: TransactionType.EXPENSE },
+  { id: 'cat-housing', name: '居住', icon: '🏠', color: '#8b5cf6', kind: TransactionType.EXPENSE },
+  { id: 'cat-entertainment', name: '娱乐', icon: '🎮', color: '#14b8a6', kind: TransactionType.EXPENSE },
+  { id: 'cat-health', name: '医疗', icon: '💊', color: '#ef4444', kind: TransactionType.EXPENSE },
+  { id: FALLBACK_EXPENSE_CATEGORY_ID, name: '其他', icon: '📦', color: '#94a3b8', kind: TransactionType.EXPENSE },
+  { id: 'cat-salary', name: '工资', icon: '💼', color: '#10b981', kind: TransactionType.INCOME },
+  { id: 'cat-bonus', name: '奖金', icon: '🎁', color: '#f59e0b', kind: TransactionType.INCOME },
+  { id: FALLBACK_INCOME_CATEGORY_ID, name: '其他收入', icon: '💰', color: '#64748b', kind: TransactionType.INCOME },
+];
+
+// Keywords used to map free-form titles onto the default categories
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  'cat-food': ['餐', '饭', '午', '早点', '晚', '夜宵', '外卖', '咖啡', '奶茶', '零食', '水果', '超市', 'lunch', 'dinner', 'breakfast', 'coffee', 'food', 'meal'],
+  'cat-transport': ['打车', '出租', '滴滴', '地铁', '公交', '高铁', '火车', '机票', '加油', '停车', 'taxi', 'uber', 'metro', 'bus', 'train', 'flight'],
+  'cat-shopping': ['购物', '淘宝', '京东', '拼多多', '衣服', '鞋', '日用', 'shopping', 'amazon'],
+  'cat-housing': ['房租', '租金', '物业', '水费', '电费', '燃气', '宽带', 'rent', 'utilities'],
+  'cat-entertainment': ['电影', '游戏', '会员', 'ktv', '旅游', 'movie', 'game', 'netflix', 'spotify'],
+  'cat-health': ['医院', '药', '体检', '挂号', 'doctor', 'pharmacy', 'hospital'],
+  'cat-salary': ['工资', '薪水', '薪资', 'salary', 'payroll'],
+  'cat-bonus': ['奖金', '年终', '红包', 'bonus'],
+};
+
+export const getFallbackCategoryId = (kind: TransactionType): string => {
+  return kind === TransactionType.INCOME ? FALLBACK_INCOME_CATEGORY_ID : FALLBACK_EXPENSE_CATEGORY_ID;
+};
+
+export const isFallbackCategory = (id: string): boolean => {
+  return id === FALLBACK_EXPENSE_CATEGORY_ID || id === FALLBACK_INCOME_CATEGORY_ID;
+};
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+/**
+ * Picks the most likely category for a title. User-named categories win over
+ * the built-in keyword table so renamed/custom categories are respected.
+ */
+export const guessCategoryId = (
+  title: string,
+  kind: TransactionType,
+  categories: Category[]
+): string => {
+  const normalizedTitle = normalize(title);
+  const candidates = categories.filter(c => c.kind === kind && !c.archived);
+
+  const byName = candidates
+    .filter(c => normalizedTitle.includes(normalize(c.name)))
+    .sort((a, b) => b.name.length - a.name.length)[0];
+  if (byName) return byName.id;
+
+  const byKeyword = candidates.find(c =>
+    (CATEGORY_KEYWORDS[c.id] || []).some(keyword => normalizedTitle.includes(keyword))
+  );
+  if (byKeyword) return byKeyword.id;
+
+  return getFallbackCategoryId(kind);
+};
+
+/**
+ * Ensures the fallback categories exist, even if stored data predates them.
+ */
+export const ensureFallbackCategories = (categories: Category[]): Category[] => {
+  const missing = DEFAULT_CATEGORIES.filter(
+    d => isFallbackCategory(d.id) && !categories.some(c => c.id === d.id)
+  );
+  return missing.length > 0 ? [...categories, ...missing] : categories;
+};
+
+/**
+ * Migrates transactions saved before categories existed (or pointing at a
+ * category that no longer exists) by mapping their titles onto categories.
+ */
+export const migrateTransactionCategories = <T extends Transaction>(
+  transactions: T[],
+  categories: Category[]
+): T[] => {
+  const knownIds = new Set(categories.map(c => c.id));
+  return transactions.map(t => {
+    if (t.type === TransactionType.TRANSFER) return t;
+    if (t.categoryId && knownIds.has(t.categoryId)) return t;
+    return { ...t, categoryId: guessCategoryId(t.title, t.type, categories) };
+  });
+};
+
+type MergeableData = Pick<AppData, 'transactions' | 'categories' | 'recurringRules' | 'trash' | 'savedFilters'>;
+
+/**
+ * Moves everything filed under `sourceId` to `targetId` and removes the
+ * source: transactions, recurring rules (so future occurrences land in the
+ * target), trashed records and the categories saved filters match on.
+ */
+export const mergeCategories = (data: MergeableData, sourceId: string, targetId: string): MergeableData => {
+  if (sourceId === targetId || isFallbackCategory(sourceId)) return data;
+  const remap = <T extends { categoryId: string }>(item: T): T => (
+    item.categoryId === sourceId ? { ...item, categoryId: targetId } : item
+  );
+  return {
+    transactions: data.transactions.map(remap),
+    categories: data.categories.filter(c => c.id !== sourceId),
+    recurringRules: data.recurringRules.map(remap),
+    trash: data.trash.map(remap),
+    savedFilters: data.savedFilters.map(saved => {
+      const { categoryIds } = saved.filter;
+      if (!categoryIds.includes(sourceId)) return saved;
+      const remapped = [...new Set(categoryIds.map(id => id === sourceId ? targetId : id))];
+      return { ...saved, filter: { ...saved.filter, categoryIds: remapped } };
+    }),
+  };
+};
@@ -0,0 +1,270 @@
+import { Transaction, TransactionType } from "../types";
+import { toDateKey } from "../utils/date";
+import { getTextSimilarity } from "../utils/text";
+import { t } from "../utils/i18n";
+
+export type ImportFormat = 'generic' | 'alipay' | 'wechat';
+
+// Whether positive amounts are income (most bank exports) or expenses
+export type SignConvention = 'positive-income' | 'positive-expense';
+
+export interface ColumnMapping {
+  date: number;
+  title: number;
+  amount: number;
+  type: number; // -1 when the file has no income/expense column and the sign decides
+  note: number; // -1 when not imported
+}
+
+export interface ParsedStatement {
+  format: ImportFormat;
+  headers: string[];
+  rows: string[][]; // Data rows below the header
+  mapping: ColumnMapping;
+}
+
+export interface ImportCandidate {
+  rowNumber: number; // 1-based row in the data section, for the preview
+  date: string;
+  title: string;
+  amount: number;
+  type: TransactionType;
+  note?: string;
+  error?: string;
+  duplicateOfId?: string; // Existing transaction this row already matches
+}
+
+// Column headers used by the Alipay and WeChat Pay bill exports
+const FORMAT_SIGNATURES: Record<Exclude<ImportFormat, 'generic'>, { required: string[]; columns: Record<keyof ColumnMapping, string[]> }> = {
+  wechat: {
+    required: ['交易时间', '交易类型', '交易对方', '收/支'],
+    columns: {
+      date: ['交易时间'],
+      title: ['交易对方', '商品'],
+      amount: ['金额(元)', '金额（元）', '金额'],
+      type: ['收/支'],
+      note: ['备注'],
+    },
+  },
+  alipay: {
+    required: ['交易对方', '收/支'],
+    columns: {
+      date: ['交易时间', '交易创建时间', '付款时间'],
+      title: ['交易对方', '商品说明', '商品名称'],
+      amount: ['金额', '金额（元）', '金额(元)'],
+      type: ['收/支'],
+      note: ['备注'],
+    },
+  },
+};
+
+const GENERIC_PATTERNS: Record<keyof ColumnMapping, RegExp> = {
+  date: /date|日期|时间/i,
+  title: /title|description|payee|merchant|memo|摘要|说明|商品|对方|名称|用途/i,
+  amount: /amount|金额|发生额/i,
+  type: /^type$|收\/支|收支|借贷/i,
+  note: /note|remark|备注|附言/i,
+};
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes and newlines inside
+ * quotes. Tab-separated files are detected from the first line.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] || '';
+  const delimiter = firstLine.split('\t').length > firstLine.split(',').length ? '\t' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell !== ''));
+};
+
+/**
+ * Decodes a statement file. Alipay exports are GBK, so fall back to it when
+ * the bytes are not valid UTF-8.
+ */
+export const decodeStatement = (buffer: ArrayBuffer): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('gbk').decode(buffer);
+  }
+};
+
+const findColumn = (headers: string[], names: string[]): number => {
+  for (const name of names) {
+    const index = headers.indexOf(name);
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+/**
+ * Finds the header row (bill exports start with several lines of account
+ * summary) and guesses the column mapping.
+ */
+export const detectStatement = (rows: string[][]): ParsedStatement => {
+  for (const format of ['wechat', 'alipay'] as const) {
+    const signature = FORMAT_SIGNATURES[format];
+    const headerIndex = rows.findIndex(r => signature.required.every(name => r.includes(name)));
+    if (headerIndex !== -1) {
+      const headers = rows[headerIndex];
+      return {
+        format,
+        headers,
+        rows: rows.slice(headerIndex + 1).filter(r => r.length >= headers.length / 2),
+        mapping: {
+          date: findColumn(headers, signature.columns.date),
+          title: findColumn(headers, signature.columns.title),
+          amount: findColumn(headers, signature.columns.amount),
+          type: findColumn(headers, signature.columns.type),
+          note: findColumn(headers, signature.columns.note),
+        },
+      };
+    }
+  }
+
+  const headers = rows[0] || [];
+  const guess = (key: keyof ColumnMapping) => headers.findIndex(h => GENERIC_PATTERNS[key].test(h));
+  return {
+    format: 'generic',
+    headers,
+    rows: rows.slice(1),
+    mapping: { date: guess('date'), title: guess('title'), amount: guess('amount'), type: guess('type'), note: guess('note') },
+  };
+};
+
+export const parseAmount = (raw: string): number => {
+  const cleaned = raw.replace(/[¥￥$,\s]/g, '');
+  const negative = /^\(.*\)$/.test(cleaned);
+  const value = parseFloat(cleaned.replace(/[()]/g, ''));
+  return negative ? -Math.abs(value) : value;
+};
+
+/**
+ * Accepts the date layouts seen in bank and wallet exports, with or without a
+ * time part: 2024-03-05, 2024/3/5, 2024.03.05, 20240305 and 2024年3月5日.
+ */
+export const parseStatementDate = (raw: string): string | null => {
+  const value = raw.trim();
+  const compact = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  const separated = value.match(/^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})/);
+  const match = separated || compact;
+  if (!match) return null;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(year, month - 1, day);
+  if (date.getMonth() !== month - 1) return null;
+  return toDateKey(date);
+};
+
+// Returns the type for an income/expense cell, or null for rows such as
+// "不计收支" (internal transfers) that should not be imported
+const parseTypeCell = (raw: string): TransactionType | null => {
+  if (/支出|expense|debit|借/i.test(raw)) return TransactionType.EXPENSE;
+  if (/收入|income|credit|贷/i.test(raw)) return TransactionType.INCOME;
+  return null;
+};
+
+export const buildImportCandidates = (
+  statement: ParsedStatement,
+  mapping: ColumnMapping,
+  signConvention: SignConvention
+): ImportCandidate[] => {
+  const candidates: ImportCandidate[] = [];
+  statement.rows.forEach((row, index) => {
+    const rawAmount = parseAmount(row[mapping.amount] || '');
+    const date = parseStatementDate(row[mapping.date] || '');
+    const title = (row[mapping.title] || '').trim() || t('import.defaultTitle');
+    // Bill exports use "/" for an empty note
+    const note = mapping.note !== -1 ? (row[mapping.note] || '').trim().replace(/^\/$/, '') : '';
+
+    let type: TransactionType | null;
+    if (mapping.type !== -1) {
+      type = parseTypeCell(row[mapping.type] || '');
+      if (type === null) return;
+    } else {
+      const positiveIsIncome = signConvention === 'positive-income';
+      type = (rawAmount >= 0) === positiveIsIncome ? TransactionType.INCOME : TransactionType.EXPENSE;
+    }
+
+    let error: string | undefined;
+    if (!date) error = t('import.invalidDate');
+    else if (isNaN(rawAmount) || rawAmount === 0) error = t('import.invalidAmount');
+
+    candidates.push({
+      rowNumber: index + 1,
+      date: date || '',
+      title,
+      amount: Math.abs(rawAmount) || 0,
+      type,
+      note: note || undefined,
+      error,
+    });
+  });
+  return candidates;
+};
+
+// Statements often append order numbers, which the containment rule allows for
+export const titleSimilarity = (a: string, b: string): number => {
+  const normalize = (title: string) => title.toLowerCase().replace(/\s+/g, '');
+  return getTextSimilarity(normalize(a), normalize(b));
+};
+
+const SIMILAR_TITLE_THRESHOLD = 0.5;
+
+const isSameRecord = (a: { date: string; amount: number; title: string }, b: { date: string; amount: number; title: string }) => {
+  return a.date === b.date
+    && Math.abs(a.amount - b.amount) < 0.005
+    && titleSimilarity(a.title, b.title) >= SIMILAR_TITLE_THRESHOLD;
+};
+
+/**
+ * Flags candidates that match an existing transaction (same type, date and
+ * amount, similar title). Each existing transaction absorbs at most one row,
+ * so two identical coffees on one statement are kept apart, while
+ * re-importing an overlapping statement does not create duplicates.
+ */
+export const markDuplicates = (candidates: ImportCandidate[], existing: Transaction[]): ImportCandidate[] => {
+  const unmatched = [...existing];
+  return candidates.map(candidate => {
+    if (candidate.error) return candidate;
+    const index = unmatched.findIndex(other => other.type === candidate.type && isSameRecord(other, candidate));
+    if (index === -1) return candidate;
+    const [match] = unmatched.splice(index, 1);
+    return { ...candidate, duplicateOfId: match.id };
+  });
+};
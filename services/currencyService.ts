@@ -0,0 +1,109 @@
+import { ExchangeRate, Transaction } from "../types";
+import { getLocale } from "../utils/i18n";
+
+export const DEFAULT_BASE_CURRENCY = 'CNY';
+
+// Offered in pickers; any other ISO code found in imported data still works
+export const SUPPORTED_CURRENCIES = ['CNY', 'USD', 'EUR', 'JPY', 'HKD', 'GBP', 'KRW', 'THB', 'SGD', 'AUD'];
+
+// Localized by the runtime, e.g. 美元 or US Dollar
+export const getCurrencyName = (code: string) => {
+  try {
+    return new Intl.DisplayNames([getLocale()], { type: 'currency' }).of(code) || code;
+  } catch {
+    return code; // Not a well-formed ISO code
+  }
+};
+
+/**
+ * Picks the rate for `currency` on `date`: a rate for that exact day wins,
+ * then the undated default, then the closest earlier dated rate. Returns null
+ * when the currency has no usable rate at all.
+ */
+export const findExchangeRate = (
+  rates: ExchangeRate[],
+  currency: string,
+  date: string,
+  baseCurrency: string
+): number | null => {
+  if (currency === baseCurrency) return 1;
+  const candidates = rates.filter(r => r.currency === currency && r.rate > 0);
+
+  const exact = candidates.find(r => r.date === date);
+  if (exact) return exact.rate;
+
+  const fallback = candidates.find(r => !r.date);
+  if (fallback) return fallback.rate;
+
+  const earlier = candidates
+    .filter(r => r.date && r.date < date)
+    .sort((a, b) => b.date!.localeCompare(a.date!))[0];
+  return earlier ? earlier.rate : null;
+};
+
+/**
+ * Converts a single amount between any two currencies through the base
+ * currency. A missing rate counts as 1:1, matching convertToBaseCurrency.
+ */
+export const convertAmount = (
+  amount: number,
+  from: string,
+  to: string,
+  date: string,
+  baseCurrency: string,
+  rates: ExchangeRate[]
+): number => {
+  if (from === to) return amount;
+  const fromRate = findExchangeRate(rates, from, date, baseCurrency) ?? 1;
+  const toRate = findExchangeRate(rates, to, date, baseCurrency) ?? 1;
+  return amount * fromRate / toRate;
+};
+
+/**
+ * Converts transactions into the base currency for stats and charts. Amounts
+ * in a currency without any rate are kept 1:1 and reported back, so the UI can
+ * ask for the missing rate instead of silently dropping them.
+ */
+export const convertToBaseCurrency = (
+  transactions: Transaction[],
+  baseCurrency: string,
+  rates: ExchangeRate[]
+): { transactions: Transaction[]; missingCurrencies: string[] } => {
+  const missing = new Set<string>();
+  const converted = transactions.map(t => {
+    if (t.currency === baseCurrency) return t;
+    const rate = findExchangeRate(rates, t.currency, t.date, baseCurrency);
+    if (rate === null) {
+      missing.add(t.currency);
+      return t;
+    }
+    return { ...t, amount: t.amount * rate, currency: baseCurrency };
+  });
+  return { transactions: converted, missingCurrencies: [...missing].sort() };
+};
+
+/**
+ * Re-expresses every rate against a new base currency. Each rate is divided
+ * by the new base's rate for the same day, or its undated rate when that day
+ * has none. The new base's own rates turn into rates for the old base.
+ * Returns null when the new base has no undated rate, since nothing can be
+ * converted without it.
+ */
+export const rebaseExchangeRates = (
+  rates: ExchangeRate[],
+  oldBase: string,
+  newBase: string
+): ExchangeRate[] | null => {
+  if (oldBase === newBase) return rates;
+  const pivots = rates.filter(r => r.currency === newBase && r.rate > 0);
+  const pivot = pivots.find(r => !r.date);
+  if (!pivot) return null;
+  const getPivotRate = (date?: string) => (date && pivots.find(r => r.date === date)?.rate) || pivot.rate;
+
+  const rebased = rates
+    .filter(r => r.currency !== newBase)
+    .map(r => ({ ...r, rate: r.rate / getPivotRate(r.date) }));
+  // The old base becomes an ordinary currency, worth the inverse of the pivot on each day
+  const oldBaseRates = pivots.map(r => ({ id: crypto.randomUUID(), currency: oldBase, rate: 1 / r.rate, date: r.date }));
+  return [...rebased, ...oldBaseRates];
+};
@@ -0,0 +1,76 @@
+import { Account, Category, Transaction, TransactionType } from "../types";
+import { MessageKey, t as translate } from "../utils/i18n";
+
+const EXPORT_HEADERS: MessageKey[] = [
+  'export.date', 'export.type', 'export.category', 'export.title', 'export.amount', 'export.currency', 'export.account', 'export.toAccount'
+];
+
+const TYPE_LABELS: Record<TransactionType, MessageKey> = {
+  [TransactionType.EXPENSE]: 'type.expense',
+  [TransactionType.INCOME]: 'type.income',
+  [TransactionType.TRANSFER]: 'type.transfer',
+};
+
+// In the current language, resolved per export so a language switch applies
+const getHeaderRow = () => EXPORT_HEADERS.map(key => translate(key));
+
+export const filterByDateRange = (transactions: Transaction[], from: string, to: string): Transaction[] => {
+  return transactions
+    .filter(t => (!from || t.date >= from) && (!to || t.date <= to))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.timestamp - b.timestamp);
+};
+
+const toRows = (transactions: Transaction[], categories: Category[], accounts: Account[]): (string | number)[][] => {
+  const categoryNames = new Map(categories.map(c => [c.id, c.name]));
+  const accountNames = new Map(accounts.map(a => [a.id, a.name]));
+  return transactions.map(t => [
+    t.date,
+    translate(TYPE_LABELS[t.type]),
+    categoryNames.get(t.categoryId) || '',
+    t.title,
+    // Expenses are negative so a SUM over income and expense rows gives the net amount
+    t.type === TransactionType.EXPENSE ? -t.amount : t.amount,
+    t.currency,
+    accountNames.get(t.accountId) || '',
+    t.toAccountId ? accountNames.get(t.toAccountId) || '' : '',
+  ]);
+};
+
+const escapeCsv = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV with a UTF-8 byte order mark, which Excel needs to show Chinese text.
+ */
+export const transactionsToCsv = (transactions: Transaction[], categories: Category[], accounts: Account[]): string => {
+  const lines = [getHeaderRow(), ...toRows(transactions, categories, accounts)].map(row => row.map(escapeCsv).join(','));
+  return `\uFEFF${lines.join('\r\n')}`;
+};
+
+const escapeXml = (value: string) => {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+};
+
+/**
+ * Excel 2003 XML spreadsheet: opens natively in Excel, WPS and Numbers with
+ * typed numeric cells, without pulling in an xlsx library.
+ */
+export const transactionsToSpreadsheetXml = (transactions: Transaction[], categories: Category[], accounts: Account[]): string => {
+  const cell = (value: string | number) => typeof value === 'number'
+    ? `<Cell><Data ss:Type="Number">${value}</Data></Cell>`
+    : `<Cell><Data ss:Type="String">${escapeXml(value)}</Data></Cell>`;
+  const rows = [getHeaderRow(), ...toRows(transactions, categories, accounts)]
+    .map(row => `<Row>${row.map(cell).join('')}</Row>`)
+    .join('\n');
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<?mso-application progid="Excel.Sheet"?>',
+    '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+    '<Worksheet ss:Name="FreshFin"><Table>',
+    rows,
+    '</Table></Worksheet>',
+    '</Workbook>',
+  ].join('\n');
+};
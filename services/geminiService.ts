@@ -1,5 +1,7 @@
-import { GoogleGenAI } from "@google/genai";
-import { Transaction, TransactionType } from "../types";
+import { Content, GoogleGenAI, Part } from "@google/genai";
+import { ChatMessage, ChatToolCall, LanguageModel } from "./advisorService";
+import { parseDataUrl } from "../utils/image";
+import { withNetworkErrors } from "../utils/network";
 
 const apiKey = process.env.API_KEY || '';
 
@@ -9,68 +11,77 @@ if (apiKey) {
   ai = new GoogleGenAI({ apiKey });
 }
 
-export const getFinancialAdvice = async (
-  transactions: Transaction[],
-  budget: number
-): Promise<string> => {
-  if (!ai) {
-    return "API Key is missing. Please check your configuration.";
-  }
-
-  // Filter for current month to be relevant
-  const currentMonth = new Date().getMonth();
-  const currentYear = new Date().getFullYear();
-  
-  const recentTransactions = transactions.filter(t => {
-    const d = new Date(t.date);
-    return d.getMonth() === currentMonth && d.getFullYear() === currentYear;
+// Tool results go back as the user's turn, all results of one round together
+const toContents = (messages: ChatMessage[]): Content[] => {
+  const contents: Content[] = [];
+  messages.forEach(message => {
+    if (message.role === 'tool') {
+      const part: Part = {
+        functionResponse: {
+          id: message.toolResult.callId,
+          name: message.toolResult.name,
+          response: { result: message.toolResult.result },
+        },
+      };
+      const last = contents[contents.length - 1];
+      if (last?.role === 'user' && last.parts.every(p => p.functionResponse)) last.parts.push(part);
+      else contents.push({ role: 'user', parts: [part] });
+    } else if (message.role === 'assistant') {
+      const parts: Part[] = message.text ? [{ text: message.text }] : [];
+      (message.toolCalls || []).forEach(call => parts.push({
+        functionCall: { id: call.id, name: call.name, args: call.args },
+        thoughtSignature: call.signature,
+      }));
+      contents.push({ role: 'model', parts });
+    } else {
+      contents.push({ role: 'user', parts: [{ text: message.text || '' }] });
+    }
   });
+  return contents;
+};
 
-  const totalSpent = recentTransactions
-    .filter(t => t.type === TransactionType.EXPENSE)
-    .reduce((sum, t) => sum + t.amount, 0);
-
-  const totalIncome = recentTransactions
-    .filter(t => t.type === TransactionType.INCOME)
-    .reduce((sum, t) => sum + t.amount, 0);
-
-  // Summarize top spending categories (by title grouping for simplicity)
-  const spendingMap: Record<string, number> = {};
-  recentTransactions
-    .filter(t => t.type === TransactionType.EXPENSE)
-    .forEach(t => {
-        spendingMap[t.title] = (spendingMap[t.title] || 0) + t.amount;
-    });
-  
-  const topSpending = Object.entries(spendingMap)
-    .sort(([, a], [, b]) => b - a)
-    .slice(0, 3)
-    .map(([name, amount]) => `${name}: ¥${amount}`)
-    .join(', ');
-
-  const prompt = `
-    You are a helpful, encouraging financial assistant for a daily expense tracker app.
-    
-    Current Month Context:
-    - Monthly Budget: ¥${budget}
-    - Total Spent: ¥${totalSpent}
-    - Total Income: ¥${totalIncome}
-    - Top Expenses: ${topSpending || 'None'}
-    - Remaining Budget: ¥${budget - totalSpent}
-    
-    Please provide a brief, friendly, and actionable financial insight or advice (max 3 sentences). 
-    If they are over budget, be gentle but firm. If they are saving well, congratulate them.
-    Use emojis to make it lively.
-  `;
-
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-    });
-    return response.text || "No insight available at the moment.";
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    return "Could not generate advice at this time. Please try again later.";
-  }
-};
\ No newline at end of file
+/**
+ * Gemini as a language model backend. Null when no API key was configured at
+ * build time.
+ */
+export const createGeminiModel = (model: string): LanguageModel | null => {
+  if (!ai) return null;
+  const client = ai;
+  return {
+    generateJson: async ({ prompt, schema, image }, signal) => {
+      const parts = image ? [{ inlineData: parseDataUrl(image) }, { text: prompt }] : [{ text: prompt }];
+      const response = await withNetworkErrors(client.models.generateContent({
+        model,
+        contents: [{ role: 'user', parts }],
+        config: {
+          responseMimeType: 'application/json',
+          responseJsonSchema: schema,
+          abortSignal: signal,
+        },
+      }));
+      return response.text || '';
+    },
+    chat: async (system, messages, tools, signal) => {
+      const response = await withNetworkErrors(client.models.generateContent({
+        model,
+        contents: toContents(messages),
+        config: {
+          systemInstruction: system,
+          tools: [{ functionDeclarations: tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) }],
+          abortSignal: signal,
+        },
+      }));
+      const parts = response.candidates?.[0]?.content?.parts || [];
+      const toolCalls: ChatToolCall[] = parts
+        .filter(p => p.functionCall)
+        .map(p => ({
+          id: p.functionCall.id || crypto.randomUUID(),
+          name: p.functionCall.name || '',
+          args: p.functionCall.args || {},
+          signature: p.thoughtSignature,
+        }));
+      const text = parts.filter(p => p.text && !p.thought).map(p => p.text).join('');
+      return { text, toolCalls };
+    },
+  };
+};
@@ -0,0 +1,129 @@
+import { BudgetHistory, GoalContribution, GoalContributionSource, SavingsGoal, Transaction, TransactionType } from "../types";
+import { getEffectiveMonthlyLimit, resolveBudgetForMonth } from "./budgetService";
+import { addMonths, getMonthDifference } from "../utils/date";
+
+export interface GoalProgress {
+  saved: number;
+  remaining: number;
+  ratio: number; // 0 to 1
+  monthsLeft: number; // Including the current month; 0 once the deadline month has passed
+  requiredPerMonth: number; // Needed each month from now on to make the deadline
+  isComplete: boolean;
+  isOverdue: boolean;
+}
+
+export const getSavedAmount = (goal: SavingsGoal): number => {
+  return goal.contributions.reduce((sum, c) => sum + c.amount, 0);
+};
+
+const getRemaining = (goal: SavingsGoal): number => Math.max(0, goal.targetAmount - getSavedAmount(goal));
+
+export const getGoalProgress = (goal: SavingsGoal, currentMonth: string): GoalProgress => {
+  const saved = getSavedAmount(goal);
+  const remaining = getRemaining(goal);
+  const monthsLeft = Math.max(0, getMonthDifference(currentMonth, goal.deadline.slice(0, 7)) + 1);
+  return {
+    saved,
+    remaining,
+    ratio: goal.targetAmount > 0 ? Math.min(1, Math.max(0, saved / goal.targetAmount)) : 0,
+    monthsLeft,
+    // Past the deadline everything still missing is due now
+    requiredPerMonth: monthsLeft > 0 ? remaining / monthsLeft : remaining,
+    isComplete: remaining === 0,
+    isOverdue: remaining > 0 && monthsLeft === 0,
+  };
+};
+
+// Goals still taking money in `month`
+const isActiveIn = (goal: SavingsGoal, month: string) => goal.startMonth <= month && getRemaining(goal) > 0;
+
+/**
+ * What the goals' monthly contributions take out of `month`'s budget, never
+ * more than a goal still needs.
+ */
+export const getMonthlyReserve = (goals: SavingsGoal[], month: string): number => {
+  return goals
+    .filter(goal => goal.monthlyContribution && isActiveIn(goal, month))
+    .reduce((sum, goal) => sum + Math.min(goal.monthlyContribution, getRemaining(goal)), 0);
+};
+
+// Everything moved into goals during `month`, from any source
+export const getContributedInMonth = (goals: SavingsGoal[], month: string): number => {
+  return goals.reduce((sum, goal) => {
+    return sum + goal.contributions.filter(c => c.month === month).reduce((total, c) => total + c.amount, 0);
+  }, 0);
+};
+
+/**
+ * The part of `month`'s budget left unspent. `transactions` must already be in
+ * the base currency.
+ */
+export const getMonthLeftover = (budgetHistory: BudgetHistory, transactions: Transaction[], month: string): number => {
+  const spent = transactions
+    .filter(t => t.type === TransactionType.EXPENSE && t.date.startsWith(month))
+    .reduce((sum, t) => sum + t.amount, 0);
+  return Math.max(0, getEffectiveMonthlyLimit(resolveBudgetForMonth(budgetHistory, month)) - spent);
+};
+
+// Goals are kept in the base currency; `rate` is one old base unit in the new base
+export const convertSavingsGoals = (goals: SavingsGoal[], rate: number): SavingsGoal[] => {
+  if (rate === 1) return goals;
+  const convert = (amount: number) => Math.round(amount * rate * 100) / 100;
+  return goals.map(goal => ({
+    ...goal,
+    targetAmount: convert(goal.targetAmount),
+    monthlyContribution: goal.monthlyContribution !== undefined ? convert(goal.monthlyContribution) : undefined,
+    contributions: goal.contributions.map(c => ({ ...c, amount: convert(c.amount) })),
+  }));
+};
+
+export const createContribution = (month: string, amount: number, source: GoalContributionSource): GoalContribution => ({
+  id: crypto.randomUUID(),
+  month,
+  amount,
+  source,
+});
+
+/**
+ * Records contributions for every month that has ended since the goals were
+ * last settled: first each goal's monthly amount, then whatever is left of the
+ * month's budget, which fills the leftover goals in list order. Returns null
+ * when every goal is up to date, so callers can skip state updates.
+ */
+export const settleSavingsGoals = (
+  goals: SavingsGoal[],
+  currentMonth: string,
+  getLeftover: (month: string) => number
+): SavingsGoal[] | null => {
+  const lastMonth = addMonths(currentMonth, -1);
+  const firstMonth = goals
+    .filter(goal => goal.startMonth <= lastMonth && (!goal.lastSettledMonth || goal.lastSettledMonth < lastMonth))
+    .map(goal => goal.lastSettledMonth ? addMonths(goal.lastSettledMonth, 1) : goal.startMonth)
+    .sort()[0];
+  if (!firstMonth) return null;
+
+  const settled = goals.map(goal => ({ ...goal, contributions: [...goal.contributions] }));
+  for (let month = firstMonth; month <= lastMonth; month = addMonths(month, 1)) {
+    const due = settled.filter(goal => isActiveIn(goal, month) && (!goal.lastSettledMonth || goal.lastSettledMonth < month));
+    due.forEach(goal => {
+      if (!goal.monthlyContribution) return;
+      goal.contributions.push(createContribution(month, Math.min(goal.monthlyContribution, getRemaining(goal)), 'monthly'));
+    });
+    // Monthly contributions came out of the budget, so they are not left over
+    const reserved = settled
+      .flatMap(goal => goal.contributions)
+      .filter(c => c.month === month && c.source === 'monthly')
+      .reduce((sum, c) => sum + c.amount, 0);
+    let leftover = getLeftover(month) - reserved;
+    due.filter(goal => goal.allocateLeftover).forEach(goal => {
+      const amount = Math.min(leftover, getRemaining(goal));
+      if (amount <= 0) return;
+      goal.contributions.push(createContribution(month, amount, 'leftover'));
+      leftover -= amount;
+    });
+  }
+  settled.forEach(goal => {
+    if (goal.startMonth <= lastMonth) goal.lastSettledMonth = lastMonth;
+  });
+  return settled;
+};
@@ -0,0 +1,49 @@
+import { Transaction } from "../types";
+
+const MAX_HISTORY = 50;
+
+/**
+ * One undoable change to the transaction list, stored as the affected records
+ * before and after. Only those records are touched on undo/redo, so unrelated
+ * changes made in between (imports, recurring entries) survive.
+ */
+export interface HistoryEntry {
+  label: string; // e.g. 删除「午餐」
+  before: Transaction[]; // Empty for additions
+  after: Transaction[]; // Empty for deletions
+}
+
+export interface History {
+  past: HistoryEntry[]; // Most recent last
+  future: HistoryEntry[]; // Undone entries, most recently undone last
+}
+
+export const EMPTY_HISTORY: History = { past: [], future: [] };
+
+export const recordChange = (history: History, entry: HistoryEntry): History => ({
+  past: [...history.past, entry].slice(-MAX_HISTORY),
+  future: [],
+});
+
+/**
+ * Replaces the `from` versions of records with their `to` versions: records
+ * only in `from` are removed, records only in `to` are added at the top, and
+ * the rest are replaced in place.
+ */
+export const applyChange = (transactions: Transaction[], from: Transaction[], to: Transaction[]): Transaction[] => {
+  const replacements = new Map(to.map(t => [t.id, t]));
+  const removed = new Set(from.map(t => t.id).filter(id => !replacements.has(id)));
+  const existing = new Set(transactions.map(t => t.id));
+  return [
+    ...to.filter(t => !existing.has(t.id)),
+    ...transactions
+      .filter(t => !removed.has(t.id))
+      .map(t => replacements.get(t.id) || t),
+  ];
+};
+
+// Records that a change takes out of the list, i.e. the ones that go to the trash
+export const getRemoved = (from: Transaction[], to: Transaction[]): Transaction[] => {
+  const kept = new Set(to.map(t => t.id));
+  return from.filter(t => !kept.has(t.id));
+};
@@ -0,0 +1,138 @@
+import {
+  Account,
+  AppData,
+  AppSettings,
+  BudgetHistory,
+  Category,
+  CategoryRule,
+  ExchangeRate,
+  Person,
+  RecurringRule,
+  SavedFilter,
+  SavingsGoal,
+  Transaction,
+  TrashedTransaction
+} from "../types";
+import { DEFAULT_CATEGORIES, ensureFallbackCategories, migrateTransactionCategories } from "./categoryService";
+import { parseBudgetHistory } from "./budgetService";
+import { DEFAULT_BASE_CURRENCY } from "./currencyService";
+import { DEFAULT_ACCOUNT_ID, createDefaultAccount } from "./accountService";
+import { DEFAULT_AI_SETTINGS, normalizeAISettings } from "./advisorService";
+import { DEFAULT_NOTIFICATION_SETTINGS, normalizeNotificationSettings } from "./notificationService";
+import { detectLocale, normalizeLocale } from "../utils/i18n";
+
+// Bump together with a new entry in MIGRATIONS
+export const SCHEMA_VERSION = 3;
+
+// Persisted data before migrations have run: any key may be missing or malformed
+export type RawAppData = Partial<Record<keyof AppData, unknown>>;
+
+interface Migration {
+  version: number; // Schema version this migration produces
+  migrate: (data: RawAppData) => RawAppData;
+}
+
+const asArray = <T>(value: unknown): T[] => (Array.isArray(value) ? value as T[] : []);
+
+/**
+ * Ordered migrations. Version 0 is the pre-repository localStorage layout,
+ * where transactions were grouped by title and the budget could be a bare
+ * number.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    migrate: (data) => {
+      const categories = data.categories
+        ? ensureFallbackCategories(asArray<Category>(data.categories))
+        : DEFAULT_CATEGORIES;
+      return {
+        ...data,
+        categories,
+        transactions: migrateTransactionCategories(asArray<Transaction>(data.transactions), categories),
+        budgetHistory: parseBudgetHistory(data.budgetHistory ?? null),
+        recurringRules: asArray<RecurringRule>(data.recurringRules),
+      };
+    },
+  },
+  {
+    // Multi-currency: everything recorded so far was in CNY
+    version: 2,
+    migrate: (data) => ({
+      ...data,
+      transactions: asArray<Transaction>(data.transactions).map(t => ({ ...t, currency: t.currency || 'CNY' })),
+      recurringRules: asArray<RecurringRule>(data.recurringRules).map(r => ({ ...r, currency: r.currency || 'CNY' })),
+      settings: { baseCurrency: 'CNY', ...(data.settings as Partial<AppSettings>) },
+      exchangeRates: asArray<ExchangeRate>(data.exchangeRates),
+    }),
+  },
+  {
+    // Accounts: existing records all move into one default account
+    version: 3,
+    migrate: (data) => {
+      const settings = data.settings as Partial<AppSettings> | undefined;
+      const accounts = data.accounts
+        ? asArray<Account>(data.accounts)
+        : [createDefaultAccount(settings?.baseCurrency || 'CNY')];
+      const accountId = accounts[0]?.id || DEFAULT_ACCOUNT_ID;
+      return {
+        ...data,
+        accounts,
+        transactions: asArray<Transaction>(data.transactions).map(t => ({ ...t, accountId: t.accountId || accountId })),
+        recurringRules: asArray<RecurringRule>(data.recurringRules).map(r => ({ ...r, accountId: r.accountId || accountId })),
+      };
+    },
+  },
+];
+
+export const createDefaultAppData = (): AppData => ({
+  transactions: [],
+  categories: DEFAULT_CATEGORIES,
+  budgetHistory: parseBudgetHistory(null),
+  recurringRules: [],
+  categoryRules: [],
+  savingsGoals: [],
+  people: [],
+  accounts: [createDefaultAccount(DEFAULT_BASE_CURRENCY)],
+  savedFilters: [],
+  settings: {
+    baseCurrency: DEFAULT_BASE_CURRENCY,
+    ai: DEFAULT_AI_SETTINGS,
+    locale: detectLocale(),
+    notifications: DEFAULT_NOTIFICATION_SETTINGS,
+  },
+  exchangeRates: [],
+  trash: [],
+});
+
+/**
+ * Runs every migration newer than `fromVersion`, then fills in anything still
+ * missing so the result is always a complete AppData.
+ */
+export const migrateAppData = (data: RawAppData, fromVersion: number): AppData => {
+  const migrated = MIGRATIONS
+    .filter(m => m.version > fromVersion)
+    .reduce((current, m) => m.migrate(current), data);
+
+  const defaults = createDefaultAppData();
+  const settings = { ...defaults.settings, ...(migrated.settings as Partial<AppSettings>) };
+  return {
+    transactions: asArray<Transaction>(migrated.transactions),
+    categories: migrated.categories ? asArray<Category>(migrated.categories) : defaults.categories,
+    budgetHistory: (migrated.budgetHistory as BudgetHistory) || defaults.budgetHistory,
+    recurringRules: asArray<RecurringRule>(migrated.recurringRules),
+    categoryRules: asArray<CategoryRule>(migrated.categoryRules),
+    savingsGoals: asArray<SavingsGoal>(migrated.savingsGoals),
+    people: asArray<Person>(migrated.people),
+    accounts: migrated.accounts ? asArray<Account>(migrated.accounts) : defaults.accounts,
+    savedFilters: asArray<SavedFilter>(migrated.savedFilters),
+    settings: {
+      ...settings,
+      ai: normalizeAISettings(settings.ai),
+      locale: normalizeLocale(settings.locale),
+      notifications: normalizeNotificationSettings(settings.notifications),
+    },
+    exchangeRates: asArray<ExchangeRate>(migrated.exchangeRates),
+    trash: asArray<TrashedTransaction>(migrated.trash),
+  };
+};
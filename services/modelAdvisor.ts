@@ -0,0 +1,288 @@
+import { Category, FinancialInsight, InsightPeriod, InsightTrend, QuickEntryDraft, TransactionType } from "../types";
+import { AdviceInput, AdvisorProvider, JsonGenerator, JsonSchema, LanguageModel, ReceiptData } from "./advisorService";
+import { formatCurrency } from "../utils/format";
+import { getEffectiveMonthlyLimit } from "./budgetService";
+import { getChange, summarizePeriod } from "./reportService";
+import { guessCategoryId } from "./categoryService";
+import { getLanguageName } from "../utils/i18n";
+
+const TRENDS: InsightTrend[] = ['better', 'worse', 'similar'];
+
+// The model is asked to answer in exactly this shape
+const INSIGHT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    overspentCategories: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          category: { type: 'string' },
+          reason: { type: 'string' },
+        },
+        required: ['category', 'reason'],
+      },
+    },
+    savingsOpportunities: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          detail: { type: 'string' },
+          estimatedSaving: { type: 'number' },
+        },
+        required: ['title', 'detail'],
+      },
+    },
+    comparison: {
+      type: 'object',
+      properties: {
+        trend: { type: 'string', enum: TRENDS },
+        summary: { type: 'string' },
+      },
+      required: ['trend', 'summary'],
+    },
+  },
+  required: ['summary', 'overspentCategories', 'savingsOpportunities', 'comparison'],
+};
+
+const QUICK_ENTRY_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      amount: { type: 'number' },
+      type: { type: 'string', enum: [TransactionType.EXPENSE, TransactionType.INCOME] },
+      date: { type: 'string' },
+      categoryId: { type: 'string' },
+    },
+    required: ['title', 'amount', 'type', 'date', 'categoryId'],
+  },
+};
+
+const RECEIPT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    merchant: { type: 'string' },
+    date: { type: 'string' },
+    total: { type: 'number' },
+    currency: { type: 'string' },
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          amount: { type: 'number' },
+          categoryId: { type: 'string' },
+        },
+        required: ['name', 'amount', 'categoryId'],
+      },
+    },
+  },
+  required: ['merchant', 'total', 'items'],
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+};
+
+const asString = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// Some self-hosted models wrap their JSON in a markdown fence despite the schema
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Checks the model's JSON against the schema; the response schema makes a
+ * mismatch unlikely but not impossible.
+ */
+const parseInsight = (text: string, period: InsightPeriod, expenseChange: number | null): FinancialInsight | null => {
+  const raw = parseJson(text);
+  if (!isObject(raw) || !asString(raw.summary) || !isObject(raw.comparison)) return null;
+
+  const list = (value: unknown) => (Array.isArray(value) ? value.filter(isObject) : []);
+  const trend = raw.comparison.trend as InsightTrend;
+  return {
+    period,
+    summary: asString(raw.summary),
+    overspentCategories: list(raw.overspentCategories)
+      .map(item => ({ category: asString(item.category), reason: asString(item.reason) }))
+      .filter(item => item.category),
+    savingsOpportunities: list(raw.savingsOpportunities)
+      .map(item => ({
+        title: asString(item.title),
+        detail: asString(item.detail),
+        estimatedSaving: typeof item.estimatedSaving === 'number' && item.estimatedSaving > 0 ? item.estimatedSaving : undefined,
+      }))
+      .filter(item => item.title),
+    comparison: {
+      trend: TRENDS.includes(trend) ? trend : 'similar',
+      summary: asString(raw.comparison.summary),
+      expenseChange,
+    },
+  };
+};
+
+const getAdvice = async (generate: JsonGenerator, input: AdviceInput, signal: AbortSignal) => {
+  const { transactions, budget, categories, currency, period, previousPeriod } = input;
+  const current = summarizePeriod(transactions, period.from, period.to);
+  const previous = summarizePeriod(transactions, previousPeriod.from, previousPeriod.to);
+  const monthlyLimit = getEffectiveMonthlyLimit(budget);
+  const categoryNames = new Map(categories.map(c => [c.id, c.name]));
+  const money = (amount: number) => formatCurrency(amount, currency);
+
+  // Every category with spending or a limit, with last period's figure for comparison
+  const categoryIds = [...new Set([...Object.keys(current.byCategory), ...Object.keys(budget.categoryLimits)])];
+  const categoryLines = categoryIds
+    .map(id => ({
+      id,
+      spent: current.byCategory[id] || 0,
+      previous: previous.byCategory[id] || 0,
+      limit: budget.categoryLimits[id],
+    }))
+    .sort((a, b) => b.spent - a.spent)
+    .map(c => {
+      const limit = c.limit ? `, limit ${money(c.limit)}${c.spent > c.limit ? ' (OVER)' : ''}` : '';
+      return `    - ${categoryNames.get(c.id) || 'Uncategorized'}: ${money(c.spent)} (previous ${money(c.previous)}${limit})`;
+    })
+    .join('\n');
+
+  const prompt = `
+    You are a helpful, encouraging financial assistant for a daily expense tracker app.
+
+    Period: ${period.label} (${period.from} to ${period.to})
+    - Currency: ${currency}
+    - Monthly Budget: ${monthlyLimit > 0 ? money(monthlyLimit) : 'Not set'}
+    - Total Spent: ${money(current.expense)}
+    - Total Income: ${money(current.income)}
+    - Spending by category:
+${categoryLines || '    - None'}
+
+    Previous period: ${previousPeriod.label} (${previousPeriod.from} to ${previousPeriod.to})
+    - Total Spent: ${money(previous.expense)}
+    - Total Income: ${money(previous.income)}
+
+    Write all text in ${getLanguageName()} and keep each field short and actionable.
+    - summary: one or two sentences on how this period went. If over budget, be gentle but firm.
+    - overspentCategories: categories over their limit or clearly up on the previous period, each with the reason.
+    - savingsOpportunities: up to three concrete ideas, with an estimated saving in ${currency} per month when you can.
+    - comparison: whether spending habits got better, worse or stayed similar compared with the previous period, and why.
+  `;
+
+  const text = await generate({ prompt, schema: INSIGHT_SCHEMA }, signal);
+  return parseInsight(text, period, getChange(current.expense, previous.expense));
+};
+
+// Categories the model invents are replaced by a local guess
+const parseQuickEntry = async (
+  generate: JsonGenerator,
+  segments: string[],
+  today: string,
+  categories: Category[],
+  signal: AbortSignal
+): Promise<QuickEntryDraft[] | null> => {
+  const activeCategories = categories.filter(c => !c.archived);
+  const categoryLines = activeCategories
+    .map(c => `    - ${c.id}: ${c.name} (${c.kind})`)
+    .join('\n');
+
+  const prompt = `
+    You turn short bookkeeping notes into transactions for an expense tracker.
+    Today is ${today}. Resolve relative dates like 昨天 or 上周五 against it and write dates as YYYY-MM-DD.
+
+    Available categories (id: name (type)):
+${categoryLines}
+
+    Notes, one per line:
+${segments.map(segment => `    ${segment}`).join('\n')}
+
+    Return one transaction per purchase or income found. Use the note's own wording for the title,
+    without the amount or date, in the original language. Amounts are positive numbers.
+    Pick the categoryId whose type matches the transaction type. Skip lines with no amount at all.
+  `;
+
+  const raw = parseJson(await generate({ prompt, schema: QUICK_ENTRY_SCHEMA }, signal));
+  if (!Array.isArray(raw)) return null;
+
+  return raw.filter(isObject).flatMap((item): QuickEntryDraft[] => {
+    const title = asString(item.title);
+    const amount = typeof item.amount === 'number' ? Math.round(item.amount * 100) / 100 : NaN;
+    const type = item.type === TransactionType.INCOME ? TransactionType.INCOME : TransactionType.EXPENSE;
+    if (!title || !(amount > 0)) return [];
+    const category = activeCategories.find(c => c.id === item.categoryId && c.kind === type);
+    return [{
+      title,
+      amount,
+      type,
+      date: typeof item.date === 'string' && DATE_PATTERN.test(item.date) ? item.date : today,
+      categoryId: category ? category.id : guessCategoryId(title, type, categories),
+    }];
+  });
+};
+
+const extractReceipt = async (
+  generate: JsonGenerator,
+  imageDataUrl: string,
+  today: string,
+  categories: Category[],
+  signal: AbortSignal
+): Promise<ReceiptData | null> => {
+  const expenseCategories = categories.filter(c => c.kind === TransactionType.EXPENSE && !c.archived);
+  const prompt = `
+    This image is a shopping receipt, invoice or payment screenshot. Extract:
+    - merchant: the shop or payee name, in the original language
+    - date: the purchase date as YYYY-MM-DD; today is ${today}, leave empty if not shown
+    - total: the amount actually paid, after discounts and including tax
+    - currency: ISO 4217 code if a currency is shown or obvious, else empty
+    - items: each line item with its price, and the best categoryId from:
+${expenseCategories.map(c => `      - ${c.id}: ${c.name}`).join('\n')}
+    If there are no readable line items, return a single item named after the merchant for the total.
+  `;
+
+  const raw = parseJson(await generate({ prompt, schema: RECEIPT_SCHEMA, image: imageDataUrl }, signal));
+  if (!isObject(raw) || typeof raw.total !== 'number' || !(raw.total > 0)) return null;
+
+  const merchant = asString(raw.merchant);
+  const items = (Array.isArray(raw.items) ? raw.items.filter(isObject) : [])
+    .map(item => {
+      const name = asString(item.name);
+      const known = expenseCategories.find(c => c.id === item.categoryId);
+      return {
+        name,
+        amount: typeof item.amount === 'number' ? item.amount : 0,
+        categoryId: known ? known.id : guessCategoryId(name || merchant, TransactionType.EXPENSE, categories),
+      };
+    })
+    .filter(item => item.name && item.amount > 0);
+  const currency = asString(raw.currency).toUpperCase();
+  return {
+    merchant,
+    date: typeof raw.date === 'string' && DATE_PATTERN.test(raw.date) ? raw.date : null,
+    total: Math.round(raw.total * 100) / 100,
+    currency: CURRENCY_PATTERN.test(currency) ? currency : null,
+    items,
+  };
+};
+
+/**
+ * Builds a provider on top of any language model backend. The prompts and
+ * the checks on the answers are the same for every model.
+ */
+export const createModelAdvisor = (model: LanguageModel): AdvisorProvider => ({
+  getAdvice: (input, signal) => getAdvice(model.generateJson, input, signal),
+  parseQuickEntry: (segments, today, categories, signal) => parseQuickEntry(model.generateJson, segments, today, categories, signal),
+  extractReceipt: (imageDataUrl, today, categories, signal) => extractReceipt(model.generateJson, imageDataUrl, today, categories, signal),
+  chat: model.chat,
+});
@@ -0,0 +1,142 @@
+import { NotificationLog, NotificationSettings, Transaction, TransactionType } from "../types";
+import { formatCurrency } from "../utils/format";
+import { t } from "../utils/i18n";
+import { getLastDayOfMonth, parseDateKey, toDateKey } from "../utils/date";
+
+export const BUDGET_THRESHOLD_OPTIONS = [50, 80, 90, 100];
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: false,
+  budgetThresholds: [50, 80, 100],
+  dailyOverspend: true,
+  eveningReminder: false,
+  reminderTime: '21:00',
+  sent: {},
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const normalizeNotificationSettings = (value: Partial<NotificationSettings> | undefined): NotificationSettings => {
+  const settings = { ...DEFAULT_NOTIFICATION_SETTINGS, ...value };
+  return {
+    enabled: settings.enabled === true,
+    budgetThresholds: Array.isArray(settings.budgetThresholds)
+      ? [...new Set(settings.budgetThresholds.filter(p => typeof p === 'number' && p > 0))].sort((a, b) => a - b)
+      : DEFAULT_NOTIFICATION_SETTINGS.budgetThresholds,
+    dailyOverspend: settings.dailyOverspend !== false,
+    eveningReminder: settings.eveningReminder === true,
+    reminderTime: TIME_PATTERN.test(settings.reminderTime) ? settings.reminderTime : DEFAULT_NOTIFICATION_SETTINGS.reminderTime,
+    sent: settings.sent && typeof settings.sent === 'object' ? settings.sent : {},
+  };
+};
+
+// What the checks look at, always for the real current month and every account
+export interface BudgetSnapshot {
+  today: string; // YYYY-MM-DD
+  budget: number;
+  spent: number; // Month to date, including today
+  todaySpent: number;
+  dailyAllowance: number; // What was available for today before any of it was spent
+  hasEntryToday: boolean;
+  currency: string;
+}
+
+export interface AppNotification {
+  tag: string; // A newer notification with the same tag replaces the older one
+  title: string;
+  body: string;
+}
+
+/**
+ * Builds the snapshot from base-currency transactions. `setAside` is money
+ * the month still owes elsewhere: recurring bills due and goal contributions.
+ */
+export const getBudgetSnapshot = (
+  transactions: Transaction[],
+  budget: number,
+  setAside: number,
+  currency: string,
+  now: Date
+): BudgetSnapshot => {
+  const today = toDateKey(now);
+  const month = today.slice(0, 7);
+  const expenses = transactions.filter(t => t.type === TransactionType.EXPENSE && t.date.startsWith(month));
+  const spent = expenses.reduce((sum, t) => sum + t.amount, 0);
+  const todaySpent = expenses.filter(t => t.date === today).reduce((sum, t) => sum + t.amount, 0);
+  const daysRemaining = parseDateKey(getLastDayOfMonth(today)).getDate() - now.getDate() + 1;
+  return {
+    today,
+    budget,
+    spent,
+    todaySpent,
+    dailyAllowance: Math.max(0, (budget - (spent - todaySpent) - setAside) / daysRemaining),
+    hasEntryToday: transactions.some(t => t.date === today),
+    currency,
+  };
+};
+
+export const getReminderNotification = (): AppNotification => ({
+  tag: 'reminder',
+  title: t('notify.reminderTitle'),
+  body: t('notify.reminderBody'),
+});
+
+const isPastTime = (now: Date, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return now.getHours() * 60 + now.getMinutes() >= hours * 60 + minutes;
+};
+
+/**
+ * The alerts due now that have not been shown yet, with the log that records
+ * them. Returns null when there is nothing to show, so callers can skip
+ * state updates.
+ */
+export const checkNotifications = (
+  snapshot: BudgetSnapshot,
+  settings: NotificationSettings,
+  now: Date
+): { notifications: AppNotification[]; sent: NotificationLog } | null => {
+  if (!settings.enabled) return null;
+  const { today, budget, spent, todaySpent, dailyAllowance, currency } = snapshot;
+  const month = today.slice(0, 7);
+  const money = (amount: number) => formatCurrency(amount, currency);
+  const notifications: AppNotification[] = [];
+  const sent: NotificationLog = { ...settings.sent };
+
+  // Only the highest threshold crossed is announced; lower ones are implied
+  const announced = sent.budgetMonth === month ? sent.budgetThreshold || 0 : 0;
+  const crossed = budget > 0 ? settings.budgetThresholds.filter(p => spent >= (budget * p) / 100).pop() : undefined;
+  if (crossed && crossed > announced) {
+    notifications.push({
+      tag: 'budget',
+      title: crossed >= 100 ? t('notify.budgetExceededTitle') : t('notify.budgetTitle', { percent: `${crossed}%` }),
+      body: t('notify.budgetBody', { spent: money(spent), budget: money(budget) }),
+    });
+    sent.budgetMonth = month;
+    sent.budgetThreshold = crossed;
+  }
+
+  if (settings.dailyOverspend && budget > 0 && todaySpent > dailyAllowance && sent.overspendDate !== today) {
+    notifications.push({
+      tag: 'overspend',
+      title: t('notify.overspendTitle'),
+      body: t('notify.overspendBody', { spent: money(todaySpent), allowance: money(dailyAllowance) }),
+    });
+    sent.overspendDate = today;
+  }
+
+  if (settings.eveningReminder && !snapshot.hasEntryToday && isPastTime(now, settings.reminderTime) && sent.reminderDate !== today) {
+    notifications.push(getReminderNotification());
+    sent.reminderDate = today;
+  }
+
+  return notifications.length > 0 ? { notifications, sent } : null;
+};
+
+// The next time the evening reminder could be due, today's if it is still ahead
+export const getNextReminderTime = (settings: NotificationSettings, now: Date): Date => {
+  const [hours, minutes] = settings.reminderTime.split(':').map(Number);
+  const next = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hours, minutes);
+  if (next <= now) next.setDate(next.getDate() + 1);
+  return next;
+};
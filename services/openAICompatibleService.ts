@@ -0,0 +1,93 @@
+import { ChatMessage, LanguageModel } from "./advisorService";
+import { withNetworkErrors } from "../utils/network";
+
+// Carries the HTTP status so retries can tell server errors from bad requests
+class OpenAICompatibleError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'OpenAICompatibleError';
+    this.status = status;
+  }
+}
+
+const toOpenAIMessages = (messages: ChatMessage[]) => messages.map(message => {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolResult.callId, content: JSON.stringify(message.toolResult.result) };
+  }
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.text || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.args) },
+      })),
+    };
+  }
+  return { role: message.role, content: message.text || '' };
+});
+
+// Arguments arrive as JSON text, which small models do not always get right
+const parseArguments = (text: unknown): Record<string, unknown> => {
+  try {
+    const args = JSON.parse(typeof text === 'string' ? text : '{}');
+    return args && typeof args === 'object' ? args : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * A server speaking the OpenAI chat completions API, such as a self-hosted
+ * model, as a language model backend. `baseUrl` is the API root, e.g.
+ * http://localhost:11434/v1. Images are sent as image_url parts, which only
+ * vision models accept.
+ */
+export const createOpenAICompatibleModel = (baseUrl: string, model: string): LanguageModel => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const complete = async (body: Record<string, unknown>, signal: AbortSignal) => {
+    const response = await withNetworkErrors(fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal,
+      body: JSON.stringify({ model, stream: false, ...body }),
+    }));
+    if (!response.ok) {
+      throw new OpenAICompatibleError(`${endpoint} responded ${response.status}: ${await response.text()}`, response.status);
+    }
+    const json = await response.json();
+    return json?.choices?.[0]?.message || {};
+  };
+
+  return {
+    generateJson: async ({ prompt, schema, image }, signal) => {
+      const content = image
+        ? [{ type: 'image_url', image_url: { url: image } }, { type: 'text', text: prompt }]
+        : prompt;
+      const message = await complete({
+        messages: [{ role: 'user', content }],
+        response_format: { type: 'json_schema', json_schema: { name: 'response', schema } },
+      }, signal);
+      return typeof message.content === 'string' ? message.content : '';
+    },
+    chat: async (system, messages, tools, signal) => {
+      const message = await complete({
+        messages: [{ role: 'system', content: system }, ...toOpenAIMessages(messages)],
+        tools: tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } })),
+      }, signal);
+      const calls = Array.isArray(message.tool_calls) ? message.tool_calls : [];
+      return {
+        text: typeof message.content === 'string' ? message.content : '',
+        toolCalls: calls.map(call => ({
+          id: call?.id || crypto.randomUUID(),
+          name: call?.function?.name || '',
+          args: parseArguments(call?.function?.arguments),
+        })),
+      };
+    },
+  };
+};
@@ -0,0 +1,170 @@
+import { Category, QuickEntryDraft, TransactionType } from "../types";
+import { guessCategoryId } from "./categoryService";
+import { ReceiptData } from "./advisorService";
+import { addDays, parseDateKey, toDateKey } from "../utils/date";
+import { t } from "../utils/i18n";
+
+export interface QuickEntryParseResult {
+  drafts: QuickEntryDraft[];
+  unparsed: string[]; // Segments the local parser could not read with confidence
+}
+
+// Several entries can be typed at once: "昨天打车 45，午饭 32.5"
+const SEGMENT_SEPARATOR = /[,，;；、\n]+/;
+
+const INCOME_KEYWORDS = ['工资', '薪水', '到账', '收入', '奖金', '年终', '报销', '退款', '利息', '分红', '收款', '收到', '进账'];
+
+const RELATIVE_DAYS: [string, number][] = [
+  ['大前天', -3],
+  ['前天', -2],
+  ['昨天', -1],
+  ['昨日', -1],
+  ['今天', 0],
+  ['今日', 0],
+];
+
+const WEEKDAYS = '一二三四五六日天';
+
+const AMOUNT_PATTERN = /(?:[¥￥]\s*)?(\d+(?:\.\d+)?)\s*(万|k|K)?\s*(?:元|块钱|块|rmb|RMB)?/g;
+
+const toIsoDate = (year: number, month: number, day: number) => {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// A date without a year means the most recent one, so "12月30日" typed in January is last year
+const resolveMonthDay = (month: number, day: number, today: string) => {
+  const year = Number(today.slice(0, 4));
+  const date = toIsoDate(year, month, day);
+  return date > today ? toIsoDate(year - 1, month, day) : date;
+};
+
+/**
+ * Finds a date expression, returning the date and the text without it.
+ */
+const extractDate = (text: string, today: string): { date: string; rest: string } | null => {
+  for (const [word, offset] of RELATIVE_DAYS) {
+    if (text.includes(word)) return { date: addDays(today, offset), rest: text.replace(word, ' ') };
+  }
+
+  const weekday = text.match(new RegExp(`(上)?(?:周|星期|礼拜)([${WEEKDAYS}])`));
+  if (weekday) {
+    // Monday-based weeks; "周五" is this week's Friday if it has passed, else last week's
+    const target = Math.min(WEEKDAYS.indexOf(weekday[2]), 6) + 1;
+    const todayWeekday = parseDateKey(today).getDay() || 7;
+    let offset = target - todayWeekday;
+    if (weekday[1] || offset > 0) offset -= 7;
+    return { date: addDays(today, offset), rest: text.replace(weekday[0], ' ') };
+  }
+
+  const iso = text.match(/(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (iso) return { date: toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3])), rest: text.replace(iso[0], ' ') };
+
+  const monthDay = text.match(/(\d{1,2})月(\d{1,2})[日号]?/) || text.match(/(?<![\d.])(\d{1,2})\/(\d{1,2})(?![\d.])/);
+  if (monthDay) return { date: resolveMonthDay(Number(monthDay[1]), Number(monthDay[2]), today), rest: text.replace(monthDay[0], ' ') };
+
+  const dayOnly = text.match(/(\d{1,2})[日号]/);
+  if (dayOnly) {
+    const day = Number(dayOnly[1]);
+    const current = parseDateKey(today);
+    let date = toDateKey(new Date(current.getFullYear(), current.getMonth(), day));
+    // A day later than today means last month
+    if (date > today) date = toDateKey(new Date(current.getFullYear(), current.getMonth() - 1, day));
+    return { date, rest: text.replace(dayOnly[0], ' ') };
+  }
+  return null;
+};
+
+const parseSegment = (segment: string, today: string, categories: Category[]): QuickEntryDraft | null => {
+  const dated = extractDate(segment, today);
+  const text = dated ? dated.rest : segment;
+
+  const amounts = [...text.matchAll(AMOUNT_PATTERN)];
+  // Zero or several numbers ("3 杯咖啡 45") need a smarter reader
+  if (amounts.length !== 1) return null;
+  const [match, digits, unit] = amounts[0];
+  const amount = parseFloat(digits) * (unit === '万' ? 10000 : unit ? 1000 : 1);
+  if (!(amount > 0)) return null;
+
+  const title = text.replace(match, ' ').replace(/[\s:：。!！]+/g, ' ').trim();
+  if (!title) return null;
+
+  const type = INCOME_KEYWORDS.some(keyword => title.includes(keyword)) ? TransactionType.INCOME : TransactionType.EXPENSE;
+  return {
+    title,
+    amount: Math.round(amount * 100) / 100,
+    type,
+    date: dated?.date || today,
+    categoryId: guessCategoryId(title, type, categories),
+  };
+};
+
+/**
+ * Reads quick-entry text offline. Each comma-separated part becomes a draft;
+ * parts with no single clear amount or no title are returned as unparsed.
+ */
+export const parseQuickEntry = (text: string, today: string, categories: Category[]): QuickEntryParseResult => {
+  const result: QuickEntryParseResult = { drafts: [], unparsed: [] };
+  text.split(SEGMENT_SEPARATOR).map(s => s.trim()).filter(Boolean).forEach(segment => {
+    const draft = parseSegment(segment, today, categories);
+    if (draft) result.drafts.push(draft);
+    else result.unparsed.push(segment);
+  });
+  return result;
+};
+
+const MAX_ITEMS_IN_TITLE = 3;
+
+// Receipts can be split only when their items fall into more than one category
+export const canSplitReceipt = (receipt: ReceiptData) => new Set(receipt.items.map(i => i.categoryId)).size > 1;
+
+/**
+ * Turns a read receipt into drafts: one for the total, or with `split` one per
+ * category. Split amounts share out the total in proportion to the items, so
+ * discounts and tax still add up to what was paid.
+ */
+export const receiptToDrafts = (
+  receipt: ReceiptData,
+  split: boolean,
+  today: string,
+  categories: Category[],
+  attachmentId: string
+): QuickEntryDraft[] => {
+  const base = {
+    type: TransactionType.EXPENSE,
+    date: receipt.date || today,
+    currency: receipt.currency || undefined,
+    attachmentIds: [attachmentId],
+  };
+  const merchant = receipt.merchant || receipt.items[0]?.name || t('quickEntry.receipt');
+
+  const groups = new Map<string, { names: string[]; amount: number }>();
+  receipt.items.forEach(item => {
+    const group = groups.get(item.categoryId) || { names: [], amount: 0 };
+    group.names.push(item.name);
+    group.amount += item.amount;
+    groups.set(item.categoryId, group);
+  });
+
+  if (!split || groups.size < 2) {
+    // The whole receipt goes to the category most of the money went to
+    const main = [...groups.entries()].sort(([, a], [, b]) => b.amount - a.amount)[0];
+    const categoryId = main ? main[0] : guessCategoryId(merchant, TransactionType.EXPENSE, categories);
+    return [{ ...base, title: merchant, amount: receipt.total, categoryId }];
+  }
+
+  const itemsTotal = receipt.items.reduce((sum, item) => sum + item.amount, 0);
+  const drafts = [...groups.entries()].map(([categoryId, group]) => {
+    const shown = group.names.slice(0, MAX_ITEMS_IN_TITLE).join(t('common.listSeparator'));
+    const names = group.names.length > MAX_ITEMS_IN_TITLE ? t('quickEntry.moreItems', { items: shown }) : shown;
+    return {
+      ...base,
+      title: `${merchant} · ${names}`,
+      amount: Math.round((group.amount / itemsTotal) * receipt.total * 100) / 100,
+      categoryId,
+    };
+  });
+  // Rounding leftovers go to the largest part
+  const largest = drafts.reduce((a, b) => (b.amount > a.amount ? b : a));
+  largest.amount = Math.round((largest.amount + receipt.total - drafts.reduce((sum, d) => sum + d.amount, 0)) * 100) / 100;
+  return drafts;
+};
@@ -0,0 +1,130 @@
+import { RecurrenceFrequency, RecurringRule, Transaction, TransactionType } from "../types";
+import { addDays, parseDateKey, toDateKey } from "../utils/date";
+
+// Guards against runaway loops for daily rules with very old start dates
+const MAX_OCCURRENCES = 5000;
+
+/**
+ * Date of the nth occurrence (0-based). Monthly and yearly rules keep the
+ * start date's day, clamped to shorter months (e.g. the 31st becomes Feb 28).
+ */
+const getNthOccurrence = (rule: RecurringRule, n: number): string => {
+  const start = parseDateKey(rule.startDate);
+  switch (rule.frequency) {
+    case RecurrenceFrequency.DAILY:
+      return addDays(rule.startDate, n);
+    case RecurrenceFrequency.WEEKLY:
+      return addDays(rule.startDate, n * 7);
+    case RecurrenceFrequency.MONTHLY:
+    case RecurrenceFrequency.YEARLY: {
+      const monthOffset = rule.frequency === RecurrenceFrequency.MONTHLY ? n : n * 12;
+      const year = start.getFullYear();
+      const month = start.getMonth() + monthOffset;
+      const lastDay = new Date(year, month + 1, 0).getDate();
+      return toDateKey(new Date(year, month, Math.min(start.getDate(), lastDay)));
+    }
+  }
+};
+
+/**
+ * All occurrence dates of a rule between `from` and `to` (inclusive), minus
+ * skipped ones.
+ */
+export const getOccurrenceDates = (rule: RecurringRule, from: string, to: string): string[] => {
+  const dates: string[] = [];
+  const last = rule.endDate && rule.endDate < to ? rule.endDate : to;
+  for (let n = 0; n < MAX_OCCURRENCES; n++) {
+    const date = getNthOccurrence(rule, n);
+    if (date > last) break;
+    if (date >= from && !rule.skippedDates.includes(date)) {
+      dates.push(date);
+    }
+  }
+  return dates;
+};
+
+export const getNextOccurrence = (rule: RecurringRule, after: string): string | null => {
+  const last = rule.endDate || '9999-12-31';
+  for (let n = 0; n < MAX_OCCURRENCES; n++) {
+    const date = getNthOccurrence(rule, n);
+    if (date > last) return null;
+    if (date > after && !rule.skippedDates.includes(date)) return date;
+  }
+  return null;
+};
+
+export const createTransactionFromRule = (rule: RecurringRule, date: string): Transaction => ({
+  id: crypto.randomUUID(),
+  title: rule.title,
+  amount: rule.amount,
+  currency: rule.currency,
+  type: rule.type,
+  categoryId: rule.categoryId,
+  accountId: rule.accountId,
+  date,
+  timestamp: Date.now(),
+  recurringRuleId: rule.id,
+});
+
+/**
+ * Turns every occurrence due up to `today` that has not been generated yet into
+ * a transaction. Returns null when nothing is due, so callers can skip state
+ * updates. Tracking `lastMaterializedDate` means deleting a generated
+ * transaction does not bring it back on the next load.
+ */
+export const materializeRecurringRules = (
+  rules: RecurringRule[],
+  today: string
+): { transactions: Transaction[]; rules: RecurringRule[] } | null => {
+  const transactions: Transaction[] = [];
+  let changed = false;
+
+  const updatedRules = rules.map(rule => {
+    if (rule.lastMaterializedDate && rule.lastMaterializedDate >= today) return rule;
+    const from = rule.lastMaterializedDate ? addDays(rule.lastMaterializedDate, 1) : rule.startDate;
+    if (from > today) return rule;
+    getOccurrenceDates(rule, from, today).forEach(date => {
+      transactions.push(createTransactionFromRule(rule, date));
+    });
+    changed = true;
+    return { ...rule, lastMaterializedDate: today };
+  });
+
+  return changed ? { transactions, rules: updatedRules } : null;
+};
+
+/**
+ * Recurring expenses that will fall after `today` up to `until`, as the
+ * transactions they will become, so callers can convert currencies first.
+ */
+export const getUpcomingRecurringExpenses = (rules: RecurringRule[], today: string, until: string): Transaction[] => {
+  if (until <= today) return [];
+  return rules
+    .filter(rule => rule.type === TransactionType.EXPENSE)
+    .flatMap(rule => getOccurrenceDates(rule, addDays(today, 1), until).map(date => createTransactionFromRule(rule, date)));
+};
+
+/**
+ * Applies an edit to a generated transaction, its rule and every later
+ * occurrence already generated from that rule. Only the edited transaction
+ * takes the new date; the series keeps its schedule.
+ */
+export const applyEditToSeries = (
+  transactions: Transaction[],
+  rules: RecurringRule[],
+  original: Transaction,
+  edited: Transaction
+): { transactions: Transaction[]; rules: RecurringRule[] } => {
+  const { title, amount, currency, type, categoryId, accountId } = edited;
+  const patch = { title, amount, currency, type, categoryId, accountId };
+  return {
+    transactions: transactions.map(t => {
+      if (t.id === edited.id) return edited;
+      if (t.recurringRuleId === original.recurringRuleId && t.date >= original.date) {
+        return { ...t, ...patch };
+      }
+      return t;
+    }),
+    rules: rules.map(r => r.id === original.recurringRuleId ? { ...r, ...patch } : r),
+  };
+};
@@ -0,0 +1,195 @@
+import { Category, Transaction, TransactionType } from "../types";
+import { t as translate } from "../utils/i18n";
+
+// Categories beyond this many are folded into "Other" in the share chart
+const MAX_SHARE_CATEGORIES = 6;
+
+// Not a real category id, so it cannot clash with one
+export const OTHER_CATEGORY_ID = '__other';
+
+// Inclusive range of YYYY-MM month keys
+export interface ReportRange {
+  from: string;
+  to: string;
+}
+
+export interface PeriodTotals {
+  income: number;
+  expense: number;
+  net: number;
+  savingsRate: number | null; // Share of income kept, null without income
+}
+
+export interface ReportMonth extends PeriodTotals {
+  month: string;
+  previousMonth: PeriodTotals;
+  lastYear: PeriodTotals; // Same month one year earlier
+}
+
+export interface CategoryShare {
+  categoryId: string;
+  name: string;
+  icon: string;
+  color: string;
+  amount: number;
+  percentage: number;
+}
+
+export interface Report {
+  range: ReportRange;
+  months: ReportMonth[];
+  totals: PeriodTotals;
+  lastYearTotals: PeriodTotals; // The same range one year earlier
+  categoryShares: CategoryShare[]; // Expenses over the whole range, largest first
+  chartedShares: CategoryShare[]; // The largest shares, the rest count as OTHER_CATEGORY_ID
+  // Per month expense by category id for the charted shares plus OTHER_CATEGORY_ID
+  categorySeries: ({ month: string } & Record<string, number | string>)[];
+}
+
+const EMPTY_TOTALS: PeriodTotals = { income: 0, expense: 0, net: 0, savingsRate: null };
+
+export const getYearRange = (year: number): ReportRange => ({ from: `${year}-01`, to: `${year}-12` });
+
+export const shiftMonth = (month: string, offset: number) => {
+  const [year, m] = month.split('-').map(Number);
+  const date = new Date(year, m - 1 + offset, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export const getMonthsInRange = (range: ReportRange): string[] => {
+  const months: string[] = [];
+  for (let month = range.from; month <= range.to; month = shiftMonth(month, 1)) {
+    months.push(month);
+  }
+  return months;
+};
+
+/**
+ * Relative change from `previous` to `current`, e.g. 0.25 for +25%. Null when
+ * there is nothing to compare against.
+ */
+export const getChange = (current: number, previous: number): number | null => {
+  return previous === 0 ? null : (current - previous) / Math.abs(previous);
+};
+
+export interface PeriodSummary {
+  income: number;
+  expense: number;
+  byCategory: Record<string, number>; // Expense by category id
+}
+
+// Income and expense between two YYYY-MM-DD dates, inclusive; transfers are left out
+export const summarizePeriod = (transactions: Transaction[], from: string, to: string): PeriodSummary => {
+  const summary: PeriodSummary = { income: 0, expense: 0, byCategory: {} };
+  transactions
+    .filter(t => t.date >= from && t.date <= to)
+    .forEach(t => {
+      if (t.type === TransactionType.INCOME) {
+        summary.income += t.amount;
+      } else if (t.type === TransactionType.EXPENSE) {
+        summary.expense += t.amount;
+        summary.byCategory[t.categoryId] = (summary.byCategory[t.categoryId] || 0) + t.amount;
+      }
+    });
+  return summary;
+};
+
+const finishTotals = (income: number, expense: number): PeriodTotals => ({
+  income,
+  expense,
+  net: income - expense,
+  savingsRate: income > 0 ? (income - expense) / income : null,
+});
+
+const sumTotals = (list: PeriodTotals[]): PeriodTotals => {
+  return finishTotals(
+    list.reduce((sum, t) => sum + t.income, 0),
+    list.reduce((sum, t) => sum + t.expense, 0)
+  );
+};
+
+/**
+ * Builds the report for a month range. `transactions` must already be in the
+ * base currency; transfers only move money between accounts and are left out.
+ */
+export const buildReport = (
+  transactions: Transaction[],
+  categories: Category[],
+  range: ReportRange
+): Report => {
+  const months = getMonthsInRange(range);
+  const monthSet = new Set(months);
+  const categoryMap = new Map<string, Category>(categories.map(c => [c.id, c]));
+
+  const sums = new Map<string, { income: number; expense: number }>();
+  const categoryAmounts: Record<string, number> = {};
+  const categoryByMonth = new Map<string, Record<string, number>>();
+
+  transactions.forEach(t => {
+    if (t.type === TransactionType.TRANSFER) return;
+    const month = t.date.slice(0, 7);
+    const sum = sums.get(month) || { income: 0, expense: 0 };
+    if (t.type === TransactionType.INCOME) {
+      sum.income += t.amount;
+    } else {
+      sum.expense += t.amount;
+      if (monthSet.has(month)) {
+        categoryAmounts[t.categoryId] = (categoryAmounts[t.categoryId] || 0) + t.amount;
+        const byCategory = categoryByMonth.get(month) || {};
+        byCategory[t.categoryId] = (byCategory[t.categoryId] || 0) + t.amount;
+        categoryByMonth.set(month, byCategory);
+      }
+    }
+    sums.set(month, sum);
+  });
+
+  const getTotals = (month: string): PeriodTotals => {
+    const sum = sums.get(month);
+    return sum ? finishTotals(sum.income, sum.expense) : EMPTY_TOTALS;
+  };
+
+  const reportMonths = months.map(month => ({
+    month,
+    ...getTotals(month),
+    previousMonth: getTotals(shiftMonth(month, -1)),
+    lastYear: getTotals(shiftMonth(month, -12)),
+  }));
+
+  const totalExpense = Object.values<number>(categoryAmounts).reduce((sum, amount) => sum + amount, 0);
+  const categoryShares = Object.entries<number>(categoryAmounts)
+    .map(([categoryId, amount]) => {
+      const category = categoryMap.get(categoryId);
+      return {
+        categoryId,
+        name: category?.name || translate('common.uncategorized'),
+        icon: category?.icon || '📦',
+        color: category?.color || '#94a3b8',
+        amount,
+        percentage: totalExpense > 0 ? (amount / totalExpense) * 100 : 0,
+      };
+    })
+    .sort((a, b) => b.amount - a.amount);
+
+  const chartedShares = categoryShares.slice(0, MAX_SHARE_CATEGORIES);
+  const chartedIds = new Set(chartedShares.map(c => c.categoryId));
+  const categorySeries = months.map(month => {
+    const point: { month: string } & Record<string, number | string> = { month };
+    chartedIds.forEach(id => { point[id] = 0; });
+    point[OTHER_CATEGORY_ID] = 0;
+    Object.entries<number>(categoryByMonth.get(month) || {}).forEach(([id, amount]) => {
+      const key = chartedIds.has(id) ? id : OTHER_CATEGORY_ID;
+      point[key] = (point[key] as number) + amount;
+    });
+    return point;
+  });
+
+  return {
+    range,
+    months: reportMonths,
+    totals: sumTotals(reportMonths),
+    lastYearTotals: sumTotals(reportMonths.map(m => m.lastYear)),
+    categoryShares,
+    chartedShares,
+    categorySeries,
+  };
+};
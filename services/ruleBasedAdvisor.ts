@@ -0,0 +1,97 @@
+import { FinancialInsight, InsightTrend } from "../types";
+import { AdviceInput, AdvisorProvider } from "./advisorService";
+import { formatCurrency } from "../utils/format";
+import { getEffectiveMonthlyLimit } from "./budgetService";
+import { getChange, summarizePeriod } from "./reportService";
+import { t } from "../utils/i18n";
+
+// A category counts as clearly up on last period above both of these
+const INCREASE_RATIO = 0.3;
+const INCREASE_MIN_SHARE = 0.05; // Of this period's spending, so small categories stay quiet
+
+const MAX_OVERSPENT = 5;
+const MAX_SAVINGS = 3;
+const SAVING_RATIO = 0.1; // Suggested cut in the largest categories
+
+const SIMILAR_CHANGE = 0.05; // Spending within ±5% of last period is "similar"
+
+const formatPercent = (ratio: number) => `${Math.round(Math.abs(ratio) * 100)}%`;
+
+/**
+ * Builds the same insight shape as the language models from fixed rules:
+ * budget and category limits, changes against the previous period and the
+ * largest categories. Same input, same output, and no network.
+ */
+const buildRuleBasedInsight = (input: AdviceInput): FinancialInsight => {
+  const { transactions, budget, categories, currency, period, previousPeriod } = input;
+  const current = summarizePeriod(transactions, period.from, period.to);
+  const previous = summarizePeriod(transactions, previousPeriod.from, previousPeriod.to);
+  const monthlyLimit = getEffectiveMonthlyLimit(budget);
+  const categoryMap = new Map(categories.map(c => [c.id, c]));
+  const nameOf = (id: string) => categoryMap.get(id)?.name || t('common.uncategorized');
+  const money = (amount: number) => formatCurrency(amount, currency);
+
+  let summary = t('rules.summary', { period: period.label, expense: money(current.expense), income: money(current.income) });
+  if (monthlyLimit > 0) {
+    summary += current.expense > monthlyLimit
+      ? t('rules.overBudget', { amount: money(current.expense - monthlyLimit) })
+      : t('rules.budgetUsed', { percent: formatPercent(current.expense / monthlyLimit) });
+  } else {
+    summary += current.income > 0 ? t('rules.leftOver', { amount: money(current.income - current.expense) }) : t('rules.summaryEnd');
+  }
+
+  const spending = Object.entries<number>(current.byCategory).sort(([, a], [, b]) => b - a);
+
+  const overspentCategories = spending
+    .flatMap(([id, spent]) => {
+      const limit = budget.categoryLimits[id];
+      if (limit && spent > limit) {
+        return [{ category: nameOf(id), reason: t('rules.overLimit', { amount: money(spent - limit), limit: money(limit) }) }];
+      }
+      const before = previous.byCategory[id] || 0;
+      const change = getChange(spent, before);
+      if (change !== null && change > INCREASE_RATIO && spent > current.expense * INCREASE_MIN_SHARE) {
+        return [{
+          category: nameOf(id),
+          reason: t('rules.upOnPrevious', { period: previousPeriod.label, amount: money(spent - before), percent: formatPercent(change) }),
+        }];
+      }
+      return [];
+    })
+    .slice(0, MAX_OVERSPENT);
+
+  const savingsOpportunities = spending.slice(0, MAX_SAVINGS).map(([id, spent]) => ({
+    title: `${categoryMap.get(id)?.icon || ''} ${t('rules.cutTitle', { category: nameOf(id) })}`.trim(),
+    detail: t('rules.cutDetail', { category: nameOf(id), amount: money(spent), percent: formatPercent(spent / current.expense) }),
+    estimatedSaving: Math.round(spent * SAVING_RATIO),
+  }));
+
+  const expenseChange = getChange(current.expense, previous.expense);
+  let trend: InsightTrend = 'similar';
+  let comparisonSummary = t('rules.noPrevious', { period: previousPeriod.label });
+  if (expenseChange !== null) {
+    if (expenseChange <= -SIMILAR_CHANGE) trend = 'better';
+    if (expenseChange >= SIMILAR_CHANGE) trend = 'worse';
+    comparisonSummary = trend === 'similar'
+      ? t('rules.similar', { period: previousPeriod.label })
+      : t(trend === 'better' ? 'rules.down' : 'rules.up', {
+        period: previousPeriod.label,
+        percent: formatPercent(expenseChange),
+        from: money(previous.expense),
+        to: money(current.expense),
+      });
+  }
+
+  return {
+    period,
+    summary,
+    overspentCategories,
+    savingsOpportunities,
+    comparison: { trend, summary: comparisonSummary, expenseChange },
+  };
+};
+
+// Reading free text and photos needs a language model, so this provider only advises
+export const ruleBasedAdvisor: AdvisorProvider = {
+  getAdvice: async (input) => buildRuleBasedInsight(input),
+};
@@ -0,0 +1,138 @@
+import { Category, DatePreset, Transaction, TransactionFilter, TransactionType } from "../types";
+import { addDays } from "../utils/date";
+
+export const EMPTY_FILTER: TransactionFilter = {
+  query: '',
+  types: [],
+  datePreset: 'all',
+  categoryIds: [],
+  tags: [],
+};
+
+export interface FilterTotals {
+  count: number;
+  income: number;
+  expense: number;
+  net: number;
+}
+
+const TAG_PATTERN = /#([^\s#]+)/g;
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+export const isFilterActive = (filter: TransactionFilter): boolean => {
+  return filter.query.trim() !== ''
+    || filter.types.length > 0
+    || filter.minAmount !== undefined
+    || filter.maxAmount !== undefined
+    || filter.datePreset !== 'all'
+    || filter.categoryIds.length > 0
+    || filter.tags.length > 0;
+};
+
+/**
+ * Splits `#tags` out of a quick-entry title, e.g. "拿铁 #咖啡" becomes the
+ * title "拿铁" with the tag "咖啡".
+ */
+export const extractTags = (text: string): { title: string; tags: string[] } => {
+  const tags = [...text.matchAll(TAG_PATTERN)].map(match => match[1]);
+  return {
+    title: text.replace(TAG_PATTERN, '').replace(/\s+/g, ' ').trim(),
+    tags: normalizeTags(tags),
+  };
+};
+
+// Trims, drops a leading # and removes duplicates while keeping the order
+export const normalizeTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  return tags
+    .map(tag => tag.trim().replace(/^#/, ''))
+    .filter(tag => {
+      if (!tag || seen.has(tag.toLowerCase())) return false;
+      seen.add(tag.toLowerCase());
+      return true;
+    });
+};
+
+export const parseTagInput = (input: string): string[] => normalizeTags(input.split(/[,，\s]+/));
+
+/**
+ * Every tag in use with how often it appears, most used first.
+ */
+export const collectTags = (transactions: Transaction[]): { tag: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  transactions.forEach(t => {
+    t.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+  });
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+/**
+ * Turns a date preset into an inclusive YYYY-MM-DD range. Open ends are
+ * returned as undefined.
+ */
+export const resolveDateRange = (
+  preset: DatePreset,
+  today: string,
+  from?: string,
+  to?: string
+): { from?: string; to?: string } => {
+  switch (preset) {
+    case 'thisMonth':
+      return { from: `${today.slice(0, 7)}-01`, to: today };
+    case 'thisYear':
+      return { from: `${today.slice(0, 4)}-01-01`, to: today };
+    case 'last30':
+      return { from: addDays(today, -29), to: today };
+    case 'custom':
+      return { from: from || undefined, to: to || undefined };
+    default:
+      return {};
+  }
+};
+
+/**
+ * Applies a filter to transactions whose amounts are already in the base
+ * currency, so the amount range means the same thing for every record.
+ */
+export const applyTransactionFilter = (
+  transactions: Transaction[],
+  filter: TransactionFilter,
+  categories: Category[],
+  today: string
+): Transaction[] => {
+  const terms = normalize(filter.query).split(/\s+/).filter(Boolean);
+  const range = resolveDateRange(filter.datePreset, today, filter.from, filter.to);
+  const categoryNames = new Map(categories.map(c => [c.id, c.name]));
+  const wantedTags = filter.tags.map(normalize);
+
+  return transactions.filter(t => {
+    if (filter.types.length > 0 && !filter.types.includes(t.type)) return false;
+    if (filter.minAmount !== undefined && t.amount < filter.minAmount) return false;
+    if (filter.maxAmount !== undefined && t.amount > filter.maxAmount) return false;
+    if (range.from && t.date < range.from) return false;
+    if (range.to && t.date > range.to) return false;
+    if (filter.categoryIds.length > 0 && !filter.categoryIds.includes(t.categoryId)) return false;
+
+    const tags = (t.tags || []).map(normalize);
+    if (!wantedTags.every(tag => tags.includes(tag))) return false;
+
+    if (terms.length > 0) {
+      const haystack = normalize([t.title, t.note || '', categoryNames.get(t.categoryId) || '', ...tags].join(' '));
+      if (!terms.every(term => haystack.includes(term))) return false;
+    }
+    return true;
+  });
+};
+
+export const getFilterTotals = (transactions: Transaction[]): FilterTotals => {
+  const totals: FilterTotals = { count: transactions.length, income: 0, expense: 0, net: 0 };
+  transactions.forEach(t => {
+    if (t.type === TransactionType.INCOME) totals.income += t.amount;
+    else if (t.type === TransactionType.EXPENSE) totals.expense += t.amount;
+  });
+  totals.net = totals.income - totals.expense;
+  return totals;
+};
@@ -0,0 +1,151 @@
+import { Person, SplitMode, SplitShare, Transaction, TransactionSplit, TransactionType } from "../types";
+import { getFallbackCategoryId } from "./categoryService";
+// Renamed because `t` names a transaction throughout this file
+import { t as translate } from "../utils/i18n";
+
+// Stands for the user in shares and as the payer
+export const SELF_PERSON_ID = 'self';
+
+// What the split editor holds; values stay as typed until the split is built
+export interface SplitDraft {
+  mode: SplitMode;
+  paidBy: string;
+  participants: { personId: string; value: string }[];
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+const TOLERANCE = 0.005;
+
+export const createSplitDraft = (split?: TransactionSplit): SplitDraft => {
+  if (!split) {
+    return { mode: 'equal', paidBy: SELF_PERSON_ID, participants: [{ personId: SELF_PERSON_ID, value: '' }] };
+  }
+  return {
+    mode: split.mode,
+    paidBy: split.paidBy || SELF_PERSON_ID,
+    participants: split.shares.map(share => ({ personId: share.personId, value: share.value !== undefined ? String(share.value) : '' })),
+  };
+};
+
+/**
+ * Turns the draft into shares of `amount`. Equal and percentage shares are
+ * rounded to cents, with the rounding difference given to the first person so
+ * the shares always add up to the bill. The error is already translated.
+ */
+export const buildSplit = (amount: number, draft: SplitDraft): { split: TransactionSplit | null; error: string | null } => {
+  const { mode, paidBy, participants } = draft;
+  const involvesSelf = paidBy === SELF_PERSON_ID || participants.some(p => p.personId === SELF_PERSON_ID);
+  if (!participants.some(p => p.personId !== SELF_PERSON_ID) && paidBy === SELF_PERSON_ID) {
+    return { split: null, error: translate('split.needOthers') };
+  }
+  if (!involvesSelf) return { split: null, error: translate('split.needSelf') };
+
+  const values = participants.map(p => parseFloat(p.value));
+  if (mode !== 'equal' && values.some(value => isNaN(value) || value < 0)) {
+    return { split: null, error: translate('split.invalidValue') };
+  }
+  const total = values.reduce((sum, value) => sum + value, 0);
+  if (mode === 'amount' && Math.abs(total - amount) > TOLERANCE) {
+    return { split: null, error: translate('split.amountMismatch', { total: roundCents(total), amount }) };
+  }
+  if (mode === 'percent' && Math.abs(total - 100) > TOLERANCE) {
+    return { split: null, error: translate('split.percentMismatch', { total: roundCents(total) }) };
+  }
+
+  const shares: SplitShare[] = participants.map((p, i) => {
+    if (mode === 'amount') return { personId: p.personId, value: values[i], amount: values[i] };
+    if (mode === 'percent') return { personId: p.personId, value: values[i], amount: roundCents((amount * values[i]) / 100) };
+    return { personId: p.personId, amount: roundCents(amount / participants.length) };
+  });
+  if (shares.length > 0) {
+    const difference = roundCents(amount - shares.reduce((sum, share) => sum + share.amount, 0));
+    shares[0] = { ...shares[0], amount: roundCents(shares[0].amount + difference) };
+  }
+  return { split: { mode, paidBy: paidBy === SELF_PERSON_ID ? undefined : paidBy, shares }, error: null };
+};
+
+// The part of the bill that is mine, as a fraction, so it also applies to converted amounts
+const getSelfRatio = (split: TransactionSplit): number => {
+  const total = split.shares.reduce((sum, share) => sum + share.amount, 0);
+  const mine = split.shares.find(share => share.personId === SELF_PERSON_ID)?.amount || 0;
+  return total > 0 ? mine / total : 0;
+};
+
+export const getMyShare = (t: Transaction): number => {
+  if (t.settlesWith) return 0;
+  return t.split ? t.amount * getSelfRatio(t.split) : t.amount;
+};
+
+/**
+ * The transactions as they affect me: shared bills count only my share, and
+ * repayments between people are left out, as are bills I had no part in.
+ */
+export const toPersonalTransactions = (transactions: Transaction[]): Transaction[] => {
+  return transactions
+    .filter(t => !t.settlesWith)
+    .map(t => (t.split ? { ...t, amount: getMyShare(t) } : t))
+    .filter(t => !t.split || t.amount > 0);
+};
+
+/**
+ * What each person owes me, positive, or I owe them, negative. Amounts must
+ * already be in one currency. Debts between two other people are not tracked.
+ */
+export const getPersonBalances = (transactions: Transaction[]): Map<string, number> => {
+  const balances = new Map<string, number>();
+  const add = (personId: string, amount: number) => balances.set(personId, (balances.get(personId) || 0) + amount);
+  transactions.forEach(t => {
+    if (t.settlesWith) {
+      // Money from them settles what they owe; money to them, what I owe
+      add(t.settlesWith, t.type === TransactionType.INCOME ? -t.amount : t.amount);
+      return;
+    }
+    if (!t.split) return;
+    const total = t.split.shares.reduce((sum, share) => sum + share.amount, 0);
+    if (total <= 0) return;
+    if (t.split.paidBy) {
+      add(t.split.paidBy, -t.amount * getSelfRatio(t.split));
+      return;
+    }
+    t.split.shares
+      .filter(share => share.personId !== SELF_PERSON_ID)
+      .forEach(share => add(share.personId, (t.amount * share.amount) / total));
+  });
+  balances.forEach((balance, personId) => {
+    if (Math.abs(balance) < TOLERANCE) balances.delete(personId);
+  });
+  return balances;
+};
+
+/**
+ * The repayment that brings `person`'s balance to zero: income when they pay
+ * me back, an expense when I pay them.
+ */
+export const createSettlement = (
+  person: Person,
+  balance: number,
+  accountId: string,
+  currency: string,
+  date: string
+): Transaction => {
+  const type = balance > 0 ? TransactionType.INCOME : TransactionType.EXPENSE;
+  return {
+    id: crypto.randomUUID(),
+    title: translate('split.settlementTitle', { name: person.name }),
+    amount: roundCents(Math.abs(balance)),
+    currency,
+    type,
+    categoryId: getFallbackCategoryId(type),
+    accountId,
+    date,
+    timestamp: Date.now(),
+    settlesWith: person.id,
+  };
+};
+
+// People referenced by a record stay around, archived, so old bills keep their names
+export const isPersonReferenced = (personId: string, transactions: Transaction[]): boolean => {
+  return transactions.some(t => t.settlesWith === personId
+    || t.split?.paidBy === personId
+    || t.split?.shares.some(share => share.personId === personId));
+};
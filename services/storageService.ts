@@ -0,0 +1,210 @@
+import { AppData, Attachment } from "../types";
+import { RawAppData, SCHEMA_VERSION, createDefaultAppData, migrateAppData } from "./migrations";
+
+export interface StorageBackend {
+  name: 'indexeddb' | 'localstorage';
+  get: <T>(key: string) => Promise<T | undefined>;
+  set: (key: string, value: unknown) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+}
+
+export interface Repository {
+  backendName: StorageBackend['name'];
+  load: () => Promise<AppData>;
+  save: <K extends keyof AppData>(key: K, value: AppData[K]) => Promise<void>;
+  saveAttachment: (attachment: Attachment) => Promise<void>;
+  loadAttachment: (id: string) => Promise<Attachment | undefined>;
+  deleteAttachments: (ids: string[]) => Promise<void>;
+}
+
+const DB_NAME = 'freshfin';
+const DB_VERSION = 1;
+const STORE_NAME = 'kv';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+const LOCAL_STORAGE_PREFIX = 'freshfin:';
+// Each attachment is its own entry so loading the app never reads the images
+const ATTACHMENT_PREFIX = 'attachment:';
+
+const DATA_KEYS: (keyof AppData)[] = [
+  'transactions', 'categories', 'budgetHistory', 'recurringRules', 'categoryRules', 'savingsGoals', 'people', 'accounts', 'savedFilters', 'settings',
+  'exchangeRates', 'trash'
+];
+
+// Where each key lived before the repository existed
+const LEGACY_KEYS: Record<string, keyof AppData> = {
+  freshfin_transactions: 'transactions',
+  freshfin_budget: 'budgetHistory',
+  freshfin_categories: 'categories',
+  freshfin_recurring: 'recurringRules',
+};
+
+// A stored value that no longer parses; its raw text has been copied aside
+class CorruptValueError extends Error {}
+
+const requestToPromise = <T>(request: IDBRequest<T>) => {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const openDatabase = () => {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+  });
+};
+
+export const createIndexedDbBackend = async (): Promise<StorageBackend> => {
+  const db = await openDatabase();
+  const store = (mode: IDBTransactionMode) => db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  return {
+    name: 'indexeddb',
+    get: async <T>(key: string) => (await requestToPromise(store('readonly').get(key))) as T | undefined,
+    set: async (key, value) => {
+      await requestToPromise(store('readwrite').put(value, key));
+    },
+    remove: async (key) => {
+      await requestToPromise(store('readwrite').delete(key));
+    },
+  };
+};
+
+export const createLocalStorageBackend = (): StorageBackend => ({
+  name: 'localstorage',
+  get: async <T>(key: string) => {
+    const saved = localStorage.getItem(LOCAL_STORAGE_PREFIX + key);
+    if (saved === null) return undefined;
+    try {
+      return JSON.parse(saved) as T;
+    } catch (error) {
+      localStorage.setItem(`${LOCAL_STORAGE_PREFIX}${key}_corrupt`, saved);
+      throw new CorruptValueError(`Corrupt data in ${key}: ${error}`);
+    }
+  },
+  set: async (key, value) => {
+    localStorage.setItem(LOCAL_STORAGE_PREFIX + key, JSON.stringify(value));
+  },
+  remove: async (key) => {
+    localStorage.removeItem(LOCAL_STORAGE_PREFIX + key);
+  },
+});
+
+/**
+ * Reads the pre-repository localStorage keys. A value that no longer parses is
+ * copied aside instead of crashing startup, so it can still be recovered.
+ */
+const readLegacyData = (): RawAppData | null => {
+  const data: RawAppData = {};
+  let found = false;
+  Object.entries(LEGACY_KEYS).forEach(([legacyKey, key]) => {
+    const saved = localStorage.getItem(legacyKey);
+    if (saved === null) return;
+    found = true;
+    try {
+      data[key] = JSON.parse(saved);
+    } catch (error) {
+      console.error(`Corrupt legacy data in ${legacyKey}:`, error);
+      localStorage.setItem(`${legacyKey}_corrupt`, saved);
+    }
+  });
+  return found ? data : null;
+};
+
+const clearLegacyData = () => {
+  Object.keys(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+};
+
+/**
+ * Reads one data key. A corrupt value has already been copied aside, so it
+ * falls back to the default; any other read failure stops the load before
+ * anything is written over the stored data.
+ */
+const readKey = async (backend: StorageBackend, key: keyof AppData): Promise<unknown> => {
+  try {
+    return await backend.get(key);
+  } catch (error) {
+    if (!(error instanceof CorruptValueError)) throw error;
+    console.error(`Could not read ${key} from ${backend.name}:`, error);
+    return undefined;
+  }
+};
+
+const createRepository = (backend: StorageBackend): Repository => {
+  let loadPromise: Promise<AppData> | null = null;
+
+  const writeAll = async (data: AppData) => {
+    await Promise.all(DATA_KEYS.map(key => backend.set(key, data[key])));
+    await backend.set(SCHEMA_VERSION_KEY, SCHEMA_VERSION);
+  };
+
+  return {
+    backendName: backend.name,
+    // Loading runs once, so a remount cannot race the one-time legacy upgrade
+    load: () => {
+      if (!loadPromise) loadPromise = loadData();
+      return loadPromise;
+    },
+    save: (key, value) => backend.set(key, value),
+    saveAttachment: (attachment) => backend.set(ATTACHMENT_PREFIX + attachment.id, attachment),
+    loadAttachment: (id) => backend.get<Attachment>(ATTACHMENT_PREFIX + id),
+    deleteAttachments: async (ids) => {
+      await Promise.all(ids.map(id => backend.remove(ATTACHMENT_PREFIX + id)));
+    },
+  };
+
+  async function loadData(): Promise<AppData> {
+    // Only a missing version means a first run; an unreadable one rejects the
+    // load, since treating it as a first run would overwrite every stored key
+    const storedVersion = await backend.get<number>(SCHEMA_VERSION_KEY);
+
+    // First run on this backend: move any pre-repository data over once
+    if (storedVersion === undefined) {
+      const legacy = readLegacyData();
+      const data = legacy ? migrateAppData(legacy, 0) : createDefaultAppData();
+      await writeAll(data);
+      if (legacy) clearLegacyData();
+      return data;
+    }
+
+    const raw: RawAppData = {};
+    for (const key of DATA_KEYS) {
+      raw[key] = await readKey(backend, key);
+    }
+    const data = migrateAppData(raw, storedVersion);
+    if (storedVersion < SCHEMA_VERSION) {
+      await writeAll(data);
+    }
+    return data;
+  }
+};
+
+let repositoryPromise: Promise<Repository> | null = null;
+
+const createPreferredRepository = async (): Promise<Repository> => {
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      return createRepository(await createIndexedDbBackend());
+    } catch (error) {
+      console.warn('IndexedDB unavailable, falling back to localStorage:', error);
+    }
+  }
+  return createRepository(createLocalStorageBackend());
+};
+
+/**
+ * Opens the app's repository, preferring IndexedDB (no 5 MB cap) and falling
+ * back to localStorage where IndexedDB is unavailable, e.g. some private modes.
+ * Every caller on the page shares the same instance.
+ */
+export const openRepository = (): Promise<Repository> => {
+  if (!repositoryPromise) repositoryPromise = createPreferredRepository();
+  return repositoryPromise;
+};
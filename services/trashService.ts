@@ -0,0 +1,39 @@
+import { Transaction, TrashedTransaction } from "../types";
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const moveToTrash = (
+  trash: TrashedTransaction[],
+  deleted: Transaction[],
+  now: number
+): TrashedTransaction[] => {
+  if (deleted.length === 0) return trash;
+  const ids = new Set(deleted.map(t => t.id));
+  return [
+    ...deleted.map(t => ({ ...t, deletedAt: now })),
+    ...trash.filter(t => !ids.has(t.id)),
+  ];
+};
+
+export const removeFromTrash = (trash: TrashedTransaction[], ids: string[]): TrashedTransaction[] => {
+  const removed = new Set(ids);
+  return trash.some(t => removed.has(t.id)) ? trash.filter(t => !removed.has(t.id)) : trash;
+};
+
+// Strips the trash bookkeeping so the record can go back into the list
+export const toTransaction = ({ deletedAt, ...transaction }: TrashedTransaction): Transaction => transaction;
+
+export const getDaysLeft = (item: TrashedTransaction, now: number) => {
+  return Math.max(0, Math.ceil((item.deletedAt + TRASH_RETENTION_DAYS * DAY_MS - now) / DAY_MS));
+};
+
+/**
+ * Drops items deleted more than TRASH_RETENTION_DAYS ago. Returns the same
+ * array when nothing expired, so it can be used in a state setter freely.
+ */
+export const purgeExpiredTrash = (trash: TrashedTransaction[], now: number): TrashedTransaction[] => {
+  const cutoff = now - TRASH_RETENTION_DAYS * DAY_MS;
+  return trash.some(t => t.deletedAt <= cutoff) ? trash.filter(t => t.deletedAt > cutoff) : trash;
+};
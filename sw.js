@@ -1,61 +1,115 @@
-const CACHE_NAME = 'freshfin-v1';
-const urlsToCache = [
-  '/',
-  '/index.html'
-];
+// Template: the build (plugins/serviceWorker.ts) prepends the version and the
+// list of files it emitted, so every deploy gets a new worker and cache.
+const VERSION = self.__SW_VERSION__ || 'dev';
+const PRECACHE_URLS = self.__PRECACHE_MANIFEST__ || [];
 
-// Install event: cache core files
+const CACHE_PREFIX = 'freshfin-';
+const PRECACHE = `${CACHE_PREFIX}precache-${VERSION}`;
+// Renamed when what it may hold changes, so activation drops the old one
+const RUNTIME_CACHE = `${CACHE_PREFIX}runtime-v2`;
+// The worker sits at the app's base path, which is also its scope
+const APP_SHELL = new URL('index.html', self.registration.scope).pathname;
+
+// AI requests must always be live, and their answers never stored
+const NETWORK_ONLY_HOSTS = ['generativelanguage.googleapis.com'];
+
+// Install: fetch this version's files; the new worker then waits for the app to ask for it
 self.addEventListener('install', (event) => {
   event.waitUntil(
-    caches.open(CACHE_NAME)
-      .then((cache) => cache.addAll(urlsToCache))
+    caches.open(PRECACHE)
+      .then((cache) => cache.addAll(PRECACHE_URLS.map((url) => new Request(url, { cache: 'reload' }))))
   );
 });
 
-// Fetch event: serve from cache, fall back to network, and cache new resources
-self.addEventListener('fetch', (event) => {
-  if (event.request.method !== 'GET') return;
-
-  event.respondWith(
-    caches.match(event.request)
-      .then((response) => {
-        if (response) {
-          return response;
-        }
-        return fetch(event.request).then(
-          (response) => {
-            // Check if we received a valid response
-            if (!response || response.status !== 200 || response.type !== 'basic') {
-              return response;
-            }
-
-            // Clone the response
-            const responseToCache = response.clone();
-
-            caches.open(CACHE_NAME)
-              .then((cache) => {
-                cache.put(event.request, responseToCache);
-              });
-
-            return response;
-          }
-        );
-      })
-  );
+// Sent by the app once the user accepts the "new version" prompt
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
 });
 
-// Activate event: clean up old caches
+// Activate: drop earlier versions' precaches, including the old fixed 'freshfin-v1'
 self.addEventListener('activate', (event) => {
-  const cacheWhitelist = [CACHE_NAME];
   event.waitUntil(
-    caches.keys().then((cacheNames) => {
-      return Promise.all(
-        cacheNames.map((cacheName) => {
-          if (cacheWhitelist.indexOf(cacheName) === -1) {
-            return caches.delete(cacheName);
-          }
-        })
-      );
-    })
+    caches.keys()
+      .then((names) => Promise.all(
+        names
+          .filter((name) => name.startsWith(CACHE_PREFIX) && name !== PRECACHE && name !== RUNTIME_CACHE)
+          .map((name) => caches.delete(name))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Plenty for the CDN scripts, fonts and icons; anything past it is dropped oldest first
+const MAX_RUNTIME_ENTRIES = 60;
+
+const trimCache = async (cache) => {
+  const keys = await cache.keys(); // Oldest first, and a refreshed entry moves to the end
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_RUNTIME_ENTRIES)).map((key) => cache.delete(key)));
+};
+
+// Cross-origin scripts and icons are requested no-cors, whose opaque answers
+// hide error pages and take up padded quota. Asking with CORS instead gives a
+// readable answer from every CDN that allows it; the others pass through uncached.
+const fetchReadable = (request) => {
+  if (request.mode !== 'no-cors') return fetch(request);
+  return fetch(new Request(request.url, { mode: 'cors', credentials: 'omit' }))
+    .catch(() => fetch(request));
+};
+
+// Answer from the cache right away and refresh it in the background
+const staleWhileRevalidate = async (event) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(event.request);
+  const refresh = fetchReadable(event.request)
+    .then((response) => {
+      if (response.ok) event.waitUntil(cache.put(event.request, response.clone()).then(() => trimCache(cache)));
+      return response;
+    });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (NETWORK_ONLY_HOSTS.includes(url.hostname)) return;
+
+  // Pages open offline with this version's shell, whose bundles are all precached
+  if (request.mode === 'navigate' && PRECACHE_URLS.length > 0) {
+    event.respondWith(
+      caches.open(PRECACHE)
+        .then((cache) => cache.match(APP_SHELL))
+        .then((shell) => shell || fetch(request))
+    );
+    return;
+  }
+
+  // Precached files are content-hashed, so a cached copy is always current
+  if (url.origin === self.location.origin && PRECACHE_URLS.includes(url.pathname)) {
+    event.respondWith(
+      caches.open(PRECACHE)
+        .then((cache) => cache.match(url.pathname))
+        .then((cached) => cached || fetch(request))
+    );
+    return;
+  }
+
+  // Everything else the app loads: CDN scripts, fonts, icons
+  if (url.protocol === 'http:' || url.protocol === 'https:') {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
+
+// Tapping an alert brings up the app, opening it if no window is left
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+      .then((windows) => (windows.length > 0 ? windows[0].focus() : self.clients.openWindow(self.registration.scope)))
   );
-});
\ No newline at end of file
+});
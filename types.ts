@@ -1,19 +1,226 @@
 export enum TransactionType {
   EXPENSE = 'EXPENSE',
-  INCOME = 'INCOME'
+  INCOME = 'INCOME',
+  TRANSFER = 'TRANSFER' // Between two accounts; never counted as income or expense
+}
+
+export enum AccountType {
+  CASH = 'CASH',
+  DEBIT = 'DEBIT',
+  CREDIT = 'CREDIT',
+  EWALLET = 'EWALLET'
+}
+
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  currency: string; // Balances are kept in this currency
+  openingBalance: number; // Negative for a credit card that already carries debt
+  archived?: boolean;
+}
+
+export interface Category {
+  id: string;
+  name: string;
+  icon: string; // Emoji shown next to the name
+  color: string; // Hex color used for bars and chips
+  kind: TransactionType; // EXPENSE or INCOME
+  archived?: boolean;
+}
+
+export type SplitMode = 'equal' | 'amount' | 'percent';
+
+export interface SplitShare {
+  personId: string; // SELF_PERSON_ID for me
+  value?: number; // The amount or percentage entered, in those modes
+  amount: number; // This person's part, in the transaction's currency
+}
+
+// An EXPENSE shared with other people; only my share counts as my spending
+export interface TransactionSplit {
+  mode: SplitMode;
+  paidBy?: string; // The person who paid; unset when I did
+  shares: SplitShare[]; // Everyone taking part; the amounts add up to the bill
+}
+
+export interface Person {
+  id: string;
+  name: string;
+  archived?: boolean; // Hidden when splitting, kept for past bills
 }
 
 export interface Transaction {
   id: string;
   title: string;
-  amount: number;
+  amount: number; // In `currency`, as entered
+  currency: string; // ISO 4217 code
   type: TransactionType;
+  categoryId: string; // Empty for transfers
+  accountId: string; // Source account for transfers
+  toAccountId?: string; // TRANSFER only: destination account
+  toAmount?: number; // TRANSFER only: amount received, when the accounts differ in currency
   date: string; // ISO string YYYY-MM-DD
   timestamp: number;
+  recurringRuleId?: string; // Set when generated from a RecurringRule
+  note?: string;
+  tags?: string[]; // Free-form, stored without the leading #
+  attachmentIds?: string[]; // Images kept in the repository, e.g. the receipt it was read from
+  split?: TransactionSplit;
+  settlesWith?: string; // A repayment to (EXPENSE) or from (INCOME) this person, not spending or income
+}
+
+// Stored apart from the transaction so lists stay small; not included in JSON backups
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  dataUrl: string; // Works with both storage backends, unlike a Blob
+  createdAt: number;
+}
+
+export enum RecurrenceFrequency {
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY',
+  YEARLY = 'YEARLY'
+}
+
+export interface RecurringRule {
+  id: string;
+  title: string;
+  amount: number;
+  currency: string;
+  type: TransactionType;
+  categoryId: string;
+  accountId: string;
+  frequency: RecurrenceFrequency;
+  startDate: string; // YYYY-MM-DD of the first occurrence; anchors weekday / day of month
+  endDate?: string; // Inclusive YYYY-MM-DD of the last possible occurrence
+  skippedDates: string[]; // Occurrences skipped once
+  lastMaterializedDate?: string; // Occurrences up to this date already exist as transactions
+}
+
+export type RuleMatchMode = 'contains' | 'regex';
+
+// Files matching transactions under a category, checked in list order
+export interface CategoryRule {
+  id: string;
+  pattern: string; // Matched against the title, ignoring case
+  matchMode: RuleMatchMode;
+  type: TransactionType; // EXPENSE or INCOME, the kind of `categoryId`
+  minAmount?: number; // Inclusive, compared with the amount as entered
+  maxAmount?: number;
+  categoryId: string;
+  tags: string[]; // Added to every match
+  enabled: boolean;
+}
+
+export type GoalContributionSource = 'monthly' | 'leftover' | 'manual';
+
+// Money moved toward a goal, in the base currency; negative when taken back out
+export interface GoalContribution {
+  id: string;
+  month: string; // YYYY-MM the money was set aside in
+  amount: number;
+  source: GoalContributionSource;
+}
+
+export interface SavingsGoal {
+  id: string;
+  name: string;
+  icon: string;
+  targetAmount: number; // In the base currency, like budgets
+  deadline: string; // YYYY-MM-DD
+  monthlyContribution?: number; // Set aside from each month's budget
+  allocateLeftover: boolean; // Also takes what is left of each month's budget
+  startMonth: string; // YYYY-MM of the first month that contributes
+  contributions: GoalContribution[];
+  lastSettledMonth?: string; // Contributions for months up to this one are already recorded
+}
+
+export interface ExchangeRate {
+  id: string;
+  currency: string; // ISO 4217 code being converted
+  rate: number; // Value of one unit of `currency` in the base currency
+  date?: string; // YYYY-MM-DD this rate applies to; the undated rate is the default
+}
+
+// 'openai' is any server speaking the OpenAI chat API, e.g. a self-hosted model
+export type AIProviderId = 'gemini' | 'openai' | 'rules';
+
+export interface AISettings {
+  provider: AIProviderId;
+  model: string; // Empty uses the provider's default
+  baseUrl: string; // Only used by 'openai', e.g. http://localhost:11434/v1
+  timeoutMs: number; // Per attempt
+  maxRetries: number; // Extra attempts after a timeout, network or server error
+}
+
+// UI language; each has a message catalog in locales/
+export type Locale = 'zh-CN' | 'en-US';
+
+// Which alerts have already been shown, so each fires once
+export interface NotificationLog {
+  budgetMonth?: string; // YYYY-MM that `budgetThreshold` belongs to
+  budgetThreshold?: number; // Highest threshold already announced that month
+  overspendDate?: string; // YYYY-MM-DD
+  reminderDate?: string; // YYYY-MM-DD
+}
+
+export interface NotificationSettings {
+  enabled: boolean; // Also needs the browser's permission
+  budgetThresholds: number[]; // Percentages of the month's budget, ascending
+  dailyOverspend: boolean; // When one day's spending passes what was available for it
+  eveningReminder: boolean; // When nothing was recorded today by `reminderTime`
+  reminderTime: string; // HH:MM, local time
+  sent: NotificationLog;
+}
+
+export interface AppSettings {
+  baseCurrency: string; // Budgets, stats and charts are all in this currency
+  ai: AISettings;
+  locale: Locale; // Also the language AI answers are written in
+  notifications: NotificationSettings;
+}
+
+export type DatePreset = 'all' | 'thisMonth' | 'thisYear' | 'last30' | 'custom';
+
+export interface TransactionFilter {
+  query: string; // Every word must appear in the title, note, category name or tags
+  types: TransactionType[]; // Empty means any type
+  minAmount?: number; // In the base currency
+  maxAmount?: number;
+  datePreset: DatePreset; // Presets resolve against today, so saved filters stay current
+  from?: string; // YYYY-MM-DD, only used with the 'custom' preset
+  to?: string;
+  categoryIds: string[];
+  tags: string[]; // A transaction must carry all of them
+}
+
+export interface SavedFilter {
+  id: string;
+  name: string;
+  filter: TransactionFilter;
 }
 
 export interface BudgetConfig {
-  monthlyLimit: number;
+  monthlyLimit: number; // Explicit overall cap; 0 means "sum of category limits"
+  categoryLimits: Record<string, number>; // Keyed by category id
+}
+
+export type BudgetStatus = 'ok' | 'warning' | 'over';
+
+export type BudgetScope = 'month' | 'onward'; // "This month only" vs "from this month on"
+
+export interface BudgetVersion {
+  effectiveMonth: string; // YYYY-MM from which this config applies
+  config: BudgetConfig;
+}
+
+export interface BudgetHistory {
+  versions: BudgetVersion[]; // Sorted by effectiveMonth
+  overrides: Record<string, BudgetConfig>; // Single-month configs keyed by YYYY-MM
 }
 
 export interface DailyStats {
@@ -22,16 +229,88 @@ export interface DailyStats {
   totalSpentThisMonth: number;
   totalIncomeThisMonth: number;
   remainingBudget: number;
+  upcomingRecurringExpense: number; // Recurring expenses still due later this month
+  goalReserve: number; // Set aside for savings goals this month, so not spendable
 }
 
 export interface ChartDataPoint {
   date: string; // Day of month
-  income: number;
-  expense: number;
+  income?: number; // Absent for days of the current month still to come
+  expense?: number;
+  cumulativeExpense?: number; // Spent from the 1st up to this day
+  budget?: number; // Ideal linear burn of the monthly budget, absent without a budget
+  projected?: number; // Current month only: month-end spend if the pace so far holds
 }
 
 export interface CategoryData {
+  categoryId: string;
   name: string;
+  icon: string;
+  color: string;
   amount: number;
   percentage: number;
-}
\ No newline at end of file
+  limit?: number; // Monthly budget for this category, if one is set
+  status: BudgetStatus;
+}
+// A transaction parsed from quick-entry text, waiting for the user to confirm it
+export interface QuickEntryDraft {
+  title: string;
+  amount: number;
+  type: TransactionType; // EXPENSE or INCOME
+  date: string; // YYYY-MM-DD
+  categoryId: string;
+  currency?: string; // Only when the source states one, e.g. a foreign receipt
+  attachmentIds?: string[];
+  categoryPicked?: boolean; // Set when the user chose the category in the preview
+}
+
+export interface InsightPeriod {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;
+  label: string; // e.g. 2026年3月, shown in the prompt and the card
+}
+
+export type InsightTrend = 'better' | 'worse' | 'similar';
+
+// Structured result of the AI advisor for one period
+export interface FinancialInsight {
+  period: InsightPeriod;
+  summary: string;
+  overspentCategories: { category: string; reason: string }[];
+  savingsOpportunities: { title: string; detail: string; estimatedSaving?: number }[];
+  comparison: {
+    trend: InsightTrend;
+    summary: string;
+    expenseChange: number | null; // Relative change vs. the previous period, computed locally
+  };
+}
+
+// A deleted transaction kept in the trash until restored or purged
+export interface TrashedTransaction extends Transaction {
+  deletedAt: number; // Epoch ms
+}
+
+// Everything the app persists; used for backups and restores
+export interface AppData {
+  transactions: Transaction[];
+  categories: Category[];
+  budgetHistory: BudgetHistory;
+  recurringRules: RecurringRule[];
+  categoryRules: CategoryRule[];
+  savingsGoals: SavingsGoal[];
+  people: Person[];
+  accounts: Account[];
+  savedFilters: SavedFilter[];
+  settings: AppSettings;
+  exchangeRates: ExchangeRate[];
+  trash: TrashedTransaction[];
+}
+
+export interface BackupFile {
+  format: 'freshfin-backup';
+  version: number;
+  schemaVersion: number; // Storage schema of `data`, so older backups can be migrated
+  exportedAt: string; // ISO timestamp
+  data: AppData;
+  attachments?: Attachment[]; // Receipt images the records refer to; absent from older backups
+}
@@ -0,0 +1,54 @@
+// Local-time YYYY-MM key, matching the prefix of Transaction.date
+export const toMonthKey = (date: Date) => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// Local-time YYYY-MM-DD, the format stored in Transaction.date
+export const toDateKey = (date: Date) => {
+  return `${toMonthKey(date)}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Default date for a new entry while viewing `viewDate`'s month: today for the
+ * current month, the last day for past months and the first day for future ones.
+ */
+export const getDefaultEntryDate = (viewDate: Date) => {
+  const today = new Date();
+  const viewMonth = toMonthKey(viewDate);
+  const currentMonth = toMonthKey(today);
+  if (viewMonth === currentMonth) return toDateKey(today);
+  if (viewMonth < currentMonth) {
+    return toDateKey(new Date(viewDate.getFullYear(), viewDate.getMonth() + 1, 0));
+  }
+  return `${viewMonth}-01`;
+};
+
+// Parses a YYYY-MM-DD key as a local date (new Date(key) would read it as UTC)
+export const parseDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDays = (key: string, days: number) => {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+export const getLastDayOfMonth = (key: string) => {
+  const date = parseDateKey(key);
+  return toDateKey(new Date(date.getFullYear(), date.getMonth() + 1, 0));
+};
+
+// Shifts a YYYY-MM key by whole months
+export const addMonths = (month: string, months: number) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return toMonthKey(new Date(year, monthIndex - 1 + months, 1));
+};
+
+// Whole months from one YYYY-MM key to another, negative when `to` is earlier
+export const getMonthDifference = (from: string, to: string) => {
+  const [fromYear, fromMonth] = from.split('-').map(Number);
+  const [toYear, toMonth] = to.split('-').map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+};
@@ -0,0 +1,28 @@
+import { getLocale } from './i18n';
+import { parseDateKey } from './date';
+
+export const formatCurrency = (amount: number, currency = 'CNY') => {
+  return new Intl.NumberFormat(getLocale(), { style: 'currency', currency }).format(amount);
+};
+
+// e.g. 2024年3月 or March 2024
+export const formatMonth = (date: Date) => {
+  return new Intl.DateTimeFormat(getLocale(), { year: 'numeric', month: 'long' }).format(date);
+};
+
+// A YYYY-MM-DD key for display, e.g. 2024年3月5日 or Mar 5, 2024
+export const formatDate = (key: string) => {
+  return new Intl.DateTimeFormat(getLocale(), { year: 'numeric', month: 'short', day: 'numeric' }).format(parseDateKey(key));
+};
+
+// A YYYY-MM key as the month name alone, e.g. 3月 or Mar
+export const formatMonthName = (month: string) => {
+  return new Intl.DateTimeFormat(getLocale(), { month: 'short' }).format(parseDateKey(`${month}-01`));
+};
+
+// Day of the month alone, for chart axes
+export const formatDay = (date: Date) => {
+  return new Intl.DateTimeFormat(getLocale(), { day: 'numeric' }).format(date);
+};
+
+export const formatDateTime = (date: Date) => date.toLocaleString(getLocale());
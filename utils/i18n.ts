@@ -0,0 +1,66 @@
+import { Locale } from '../types';
+import { Messages, zhCN } from '../locales/zh-CN';
+import { enUS } from '../locales/en-US';
+
+export type MessageKey = keyof Messages;
+
+export interface LocaleOption {
+  id: Locale;
+  name: string; // In the language itself, so anyone can find theirs
+  language: string; // In English, for telling AI models which language to answer in
+}
+
+export const LOCALES: LocaleOption[] = [
+  { id: 'zh-CN', name: '简体中文', language: 'Simplified Chinese' },
+  { id: 'en-US', name: 'English', language: 'English' },
+];
+
+const CATALOGS: Record<Locale, Messages> = {
+  'zh-CN': zhCN,
+  'en-US': enUS,
+};
+
+export const DEFAULT_LOCALE: Locale = 'zh-CN';
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.id === value);
+
+// The browser's preferred languages, matched by language alone (zh-TW still gets zh-CN)
+export const detectLocale = (): Locale => {
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages || [navigator.language];
+  for (const tag of preferred) {
+    const match = LOCALES.find(l => l.id === tag) || LOCALES.find(l => l.id.split('-')[0] === tag.split('-')[0]);
+    if (match) return match.id;
+  }
+  return DEFAULT_LOCALE;
+};
+
+export const normalizeLocale = (value: unknown): Locale => (isLocale(value) ? value : detectLocale());
+
+// The browser's language until stored settings say otherwise, so data created
+// before they load (the default account) is already in it
+let currentLocale: Locale = detectLocale();
+
+export const getLocale = () => currentLocale;
+
+/**
+ * Switches the language every later t() call and formatter uses. Components
+ * pick it up on their next render, so callers set it together with the state
+ * change that triggers that render, never during a render.
+ */
+export const setLocale = (locale: Locale) => {
+  currentLocale = locale;
+};
+
+export const getLanguageName = (locale = currentLocale) => {
+  return LOCALES.find(l => l.id === locale)?.language || 'Simplified Chinese';
+};
+
+/**
+ * The message for `key` in the current language, with {name} placeholders
+ * filled from `params`.
+ */
+export const t = (key: MessageKey, params?: Record<string, string | number>) => {
+  const template = CATALOGS[currentLocale][key] ?? zhCN[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name) => (name in params ? String(params[name]) : placeholder));
+};
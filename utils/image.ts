@@ -0,0 +1,36 @@
+const MAX_IMAGE_SIZE = 1600; // Longest side in px; plenty for reading a receipt
+const JPEG_QUALITY = 0.8;
+
+const loadImage = (src: string) => {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not decode image'));
+    image.src = src;
+  });
+};
+
+/**
+ * Reads an image file as a JPEG data URL, scaled down so phone photos stay
+ * small enough to store and upload.
+ */
+export const readImageAsDataUrl = async (file: File): Promise<string> => {
+  const objectUrl = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(objectUrl);
+    const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(image.width, image.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.width * scale);
+    canvas.height = Math.round(image.height * scale);
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+};
+
+// Splits "data:image/jpeg;base64,...." into what inline-data APIs expect
+export const parseDataUrl = (dataUrl: string): { mimeType: string; data: string } => {
+  const [header, data] = dataUrl.split(',', 2);
+  return { mimeType: header.replace(/^data:|;base64$/g, ''), data };
+};
@@ -0,0 +1,16 @@
+// A request that got no response at all, e.g. offline or the server unreachable
+export class NetworkError extends Error {}
+
+/**
+ * Awaits a request, turning the TypeError fetch rejects with on network
+ * failures into a NetworkError. Only wrap the request itself, so a TypeError
+ * from handling the response still surfaces as the bug it is.
+ */
+export const withNetworkErrors = async <T>(request: Promise<T>): Promise<T> => {
+  try {
+    return await request;
+  } catch (error) {
+    if (error instanceof TypeError) throw new NetworkError(error.message, { cause: error });
+    throw error;
+  }
+};
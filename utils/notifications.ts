@@ -0,0 +1,82 @@
+import type { AppNotification } from '../services/notificationService';
+
+export type NotificationAccess = NotificationPermission | 'unsupported';
+
+const ICON = 'https://cdn-icons-png.flaticon.com/512/10537/10537021.png';
+
+export const getNotificationAccess = (): NotificationAccess => {
+  return 'Notification' in window ? Notification.permission : 'unsupported';
+};
+
+export const requestNotificationAccess = async (): Promise<NotificationAccess> => {
+  if (!('Notification' in window)) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+// Shown through the service worker where possible, since mobile browsers refuse `new Notification`
+const getRegistration = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!('serviceWorker' in navigator) || !navigator.serviceWorker.controller) return null;
+  return navigator.serviceWorker.ready;
+};
+
+export const showNotification = async (notification: AppNotification) => {
+  if (getNotificationAccess() !== 'granted') return;
+  const { tag, title, body } = notification;
+  try {
+    const registration = await getRegistration();
+    if (registration) {
+      await registration.showNotification(title, { tag, body, icon: ICON });
+    } else {
+      new Notification(title, { tag, body, icon: ICON });
+    }
+  } catch (error) {
+    console.error('Notification error:', error);
+  }
+};
+
+// Notification Triggers let the worker show it later with the app closed; only some browsers have them
+declare global {
+  interface Window {
+    TimestampTrigger?: new (timestamp: number) => unknown;
+  }
+}
+
+interface TriggeredNotificationOptions extends NotificationOptions {
+  showTrigger?: unknown;
+}
+
+interface TriggeredGetNotificationOptions extends GetNotificationOptions {
+  includeTriggered?: boolean;
+}
+
+const TimestampTrigger = window.TimestampTrigger;
+
+/**
+ * Asks the browser to show `notification` at `at` even if the app is closed by
+ * then, replacing one scheduled earlier with the same tag. Without support
+ * this does nothing and the app's own timer is all there is.
+ */
+export const scheduleNotification = async (notification: AppNotification, at: Date) => {
+  if (!TimestampTrigger || getNotificationAccess() !== 'granted') return;
+  const { tag, title, body } = notification;
+  try {
+    const registration = await getRegistration();
+    const options: TriggeredNotificationOptions = { tag, body, icon: ICON, showTrigger: new TimestampTrigger(at.getTime()) };
+    await registration?.showNotification(title, options);
+  } catch (error) {
+    console.error('Notification schedule error:', error);
+  }
+};
+
+export const cancelScheduledNotification = async (tag: string) => {
+  if (!TimestampTrigger) return;
+  try {
+    const registration = await getRegistration();
+    const filter: TriggeredGetNotificationOptions = { tag, includeTriggered: true };
+    const pending = await registration?.getNotifications(filter);
+    pending?.forEach(notification => notification.close());
+  } catch (error) {
+    console.error('Notification cancel error:', error);
+  }
+};
@@ -0,0 +1,56 @@
+/// <reference types="vite/client" />
+
+// Checking hourly lets a tab left open for days still learn about a deploy
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Registers the service worker and calls `onUpdate` when a new version has
+ * installed and is waiting. Calling the function it is given activates that
+ * version and reloads the page; until then the running version stays.
+ * Returns a function that stops listening.
+ */
+export const registerServiceWorker = (onUpdate: (applyUpdate: () => void) => void): (() => void) => {
+  if (!('serviceWorker' in navigator)) return () => undefined;
+
+  let stopped = false;
+  let updateAccepted = false;
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const offer = (worker: ServiceWorker) => {
+    if (stopped) return;
+    onUpdate(() => {
+      updateAccepted = true;
+      worker.postMessage({ type: 'SKIP_WAITING' });
+    });
+  };
+
+  // Only reload for an update the user accepted, not for the very first install
+  const handleControllerChange = () => {
+    if (updateAccepted) window.location.reload();
+  };
+  navigator.serviceWorker.addEventListener('controllerchange', handleControllerChange);
+
+  // Served from the same base as the app, so its scope covers the whole app
+  navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`)
+    .then(registration => {
+      if (stopped) return;
+      // Without a controller this is the first install, which has nothing to replace
+      if (registration.waiting && navigator.serviceWorker.controller) offer(registration.waiting);
+      registration.addEventListener('updatefound', () => {
+        const worker = registration.installing;
+        worker?.addEventListener('statechange', () => {
+          if (worker.state === 'installed' && navigator.serviceWorker.controller) offer(worker);
+        });
+      });
+      timer = setInterval(() => registration.update().catch(() => undefined), UPDATE_CHECK_INTERVAL_MS);
+    })
+    .catch(error => {
+      console.error('ServiceWorker registration failed:', error);
+    });
+
+  return () => {
+    stopped = true;
+    clearInterval(timer);
+    navigator.serviceWorker.removeEventListener('controllerchange', handleControllerChange);
+  };
+};
@@ -0,0 +1,25 @@
+const getBigrams = (text: string): string[] => {
+  if (text.length < 2) return [text];
+  return Array.from({ length: text.length - 1 }, (_, i) => text.slice(i, i + 2));
+};
+
+/**
+ * How alike two titles are, from 0 to 1: the Dice coefficient of their
+ * character pairs, which works for Chinese titles without spaces. A title
+ * contained in the other counts as a full match. Callers normalize first.
+ */
+export const getTextSimilarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  if (Math.min(a.length, b.length) >= 2 && (a.includes(b) || b.includes(a))) return 1;
+  const pairs = getBigrams(b);
+  let shared = 0;
+  getBigrams(a).forEach(pair => {
+    const index = pairs.indexOf(pair);
+    if (index >= 0) {
+      shared++;
+      pairs.splice(index, 1);
+    }
+  });
+  return (2 * shared) / (Math.max(a.length - 1, 1) + Math.max(b.length - 1, 1));
+};